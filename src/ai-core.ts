@@ -1,16 +1,43 @@
-import * as vscode from 'vscode';
+import { getCredential } from './credentials';
 
-export async function aiCoreChatCompletion(prompt: string): Promise<string> {
-    const config = vscode.workspace.getConfiguration('ai-notes');
-    const aiCoreServiceKey = config.get<string>('aiCoreServiceKey');
-    const model = config.get<string>('aiModel');
+/**
+ * HTTP destination for the AI Core API built from a service key, so the key is
+ * handed to the SDK directly instead of through `process.env.AICORE_SERVICE_KEY`.
+ */
+export function serviceKeyToDestination(serviceKey: string) {
+    let key: any;
+    try {
+        key = JSON.parse(serviceKey);
+    } catch {
+        throw new Error('SAP AI Core service key is not valid JSON.');
+    }
+    const apiUrl = key?.serviceurls?.AI_API_URL;
+    if (!apiUrl || !key.clientid || !key.clientsecret || !key.url) {
+        throw new Error('SAP AI Core service key is missing clientid, clientsecret, url or serviceurls.AI_API_URL.');
+    }
+    return {
+        url: apiUrl,
+        authentication: 'OAuth2ClientCredentials' as const,
+        clientId: key.clientid,
+        clientSecret: key.clientsecret,
+        tokenServiceUrl: `${String(key.url).replace(/\/+$/, '')}/oauth/token`,
+    };
+}
 
-    process.env.AICORE_SERVICE_KEY = aiCoreServiceKey;
+async function createChatClient(model?: string) {
+    const serviceKey = await getCredential('aiCoreServiceKey');
+    if (!serviceKey) {
+        throw new Error("No SAP AI Core service key set. Run 'AI Notes: Set Provider Credential' to add one.");
+    }
 
     const { AzureOpenAiChatClient } = await import('@sap-ai-sdk/foundation-models');
-    const client = new AzureOpenAiChatClient({
+    return new AzureOpenAiChatClient({
         modelName: model || 'gpt-4o',
-    });
+    }, serviceKeyToDestination(serviceKey));
+}
+
+export async function aiCoreChatCompletion(prompt: string, model?: string): Promise<string> {
+    const client = await createChatClient(model);
 
     const response = await client.run({
         messages: [
@@ -28,4 +55,24 @@ export async function aiCoreChatCompletion(prompt: string): Promise<string> {
     }
 
     return content;
-}
\ No newline at end of file
+}
+
+/**
+ * Streams the completion content chunk by chunk. Aborting `controller` cancels the request.
+ */
+export async function* aiCoreChatCompletionStream(prompt: string, model?: string, controller?: AbortController): AsyncGenerator<string> {
+    const client = await createChatClient(model);
+
+    const response = await client.stream({
+        messages: [
+            {
+                role: 'user',
+                content: prompt
+            }
+        ]
+    }, controller);
+
+    for await (const chunk of response.stream.toContentStream()) {
+        yield chunk;
+    }
+}
@@ -1,6 +1,14 @@
 import * as vscode from 'vscode';
 
-import { aiCoreChatCompletion } from './ai-core';
+import { aiCoreChatCompletion, aiCoreChatCompletionStream } from './ai-core';
+import { getAICache, cacheKey } from './aiCache';
+import { renderPrompt } from './prompts';
+import { ModelRoute, TaskModels, resolveRoute } from './modelRouting';
+import { CompletionProvider, FixtureStore, ReplayProvider, fixturesDirFromConfig, splitIntoFragments } from './replayProvider';
+import { AIRequestError, AITimeoutError, ErrorKind, FailedAttempt, backoffDelay, classifyError } from './retryPolicy';
+import { AIFeature, UsageOutcome, BudgetExceededError, getUsageLedger, estimateTokens } from './usageLedger';
+import { Schema, parseStructured, buildRepairPrompt, StructuredOutputError, schema } from './structuredOutput';
+import { openAICompatibleChatCompletion, openAICompatibleChatCompletionStream, openAICompatibleOptionsFromConfig, openAICompatibleModelFromConfig } from './openai-compatible';
 
 export interface NoteMetadata {
     tags: string[];
@@ -8,72 +16,348 @@ export interface NoteMetadata {
     path: string;
 }
 
+const noteMetadataSchema = schema.object({
+    tags: schema.array(schema.string()),
+    name: schema.string(),
+    path: schema.string(),
+});
+
+/**
+ * Generates tags, name, and path in a single AI call, with the prompt
+ * overrides of the vault at `rootDir`.
+ */
+export async function generateNoteMetadata(content: string, existingFolders: string[], rootDir: string, options: CompletionOptions = {}): Promise<NoteMetadata> {
+    const prompt = await renderPrompt('classify-note', { folders: existingFolders.join(', '), content }, rootDir);
+    const json = await chatCompletionStructured(prompt, noteMetadataSchema, { feature: 'classify', ...options });
+
+    return {
+        tags: json.tags.map(t => t.trim()).filter(t => t.length > 0),
+        name: json.name.trim(),
+        path: json.path.trim(),
+    };
+}
+
+/**
+ * Options accepted by every completion entry point.
+ */
+export interface CompletionOptions {
+    /** Attempts per provider before giving up. Defaults to `ai-notes.retryAttempts`. */
+    retries?: number;
+    /** Per-attempt timeout in milliseconds. Defaults to `ai-notes.requestTimeoutSeconds`; 0 disables it. */
+    timeoutMs?: number;
+    /** Cancels the in-flight request and any remaining attempts. */
+    token?: vscode.CancellationToken;
+    /** Skip the response cache and always ask the model. The fresh response still refreshes the cache. */
+    bypassCache?: boolean;
+    /** Task the call is made for: picks the model from `ai-notes.taskModels` and is recorded in the usage ledger. */
+    feature?: AIFeature;
+}
+
+function throwIfCancelled(token?: vscode.CancellationToken): void {
+    if (token?.isCancellationRequested) {
+        throw new vscode.CancellationError();
+    }
+}
+
+/**
+ * Creates an AbortController that aborts when `token` is cancelled, for providers
+ * that take an AbortSignal instead of a CancellationToken.
+ */
+function linkAbortController(token?: vscode.CancellationToken): { controller: AbortController; dispose: () => void } {
+    const controller = new AbortController();
+    const listener = token?.onCancellationRequested(() => controller.abort());
+    return { controller, dispose: () => listener?.dispose() };
+}
+
+/**
+ * Rejects with a CancellationError as soon as `token` is cancelled, even if the
+ * underlying provider call cannot be aborted.
+ */
+function raceCancellation<T>(promise: Promise<T>, token?: vscode.CancellationToken): Promise<T> {
+    if (!token) { return promise; }
+    return new Promise<T>((resolve, reject) => {
+        const listener = token.onCancellationRequested(() => {
+            listener.dispose();
+            reject(new vscode.CancellationError());
+        });
+        promise.then(
+            value => { listener.dispose(); resolve(value); },
+            err => { listener.dispose(); reject(err); }
+        );
+    });
+}
+
+/**
+ * The provider and model a completion for `feature` is sent to, following
+ * `ai-notes.taskModels` and falling back to the global provider and model.
+ * Part of the cache key.
+ */
+function currentRoute(feature?: AIFeature): ModelRoute {
+    const config = vscode.workspace.getConfiguration('ai-notes');
+    return resolveRoute(
+        feature,
+        config.get<TaskModels>('taskModels') || {},
+        config.get<string>('llmProvider') || 'vscode-lm-api',
+        defaultModelFor
+    );
+}
+
+function defaultModelFor(provider: string): string {
+    return provider === 'openai-compatible'
+        ? openAICompatibleModelFromConfig()
+        : vscode.workspace.getConfiguration('ai-notes').get<string>('aiModel') || 'gpt-4.1';
+}
+
+interface RetrySettings {
+    attempts: number;
+    baseDelayMs: number;
+    maxDelayMs: number;
+    timeoutMs: number;
+}
+
+function retrySettings(options: CompletionOptions): RetrySettings {
+    const config = vscode.workspace.getConfiguration('ai-notes');
+    return {
+        attempts: Math.max(1, options.retries ?? config.get<number>('retryAttempts', 3)),
+        baseDelayMs: config.get<number>('retryBaseDelayMs', 1000),
+        maxDelayMs: 30_000,
+        timeoutMs: options.timeoutMs ?? config.get<number>('requestTimeoutSeconds', 120) * 1000,
+    };
+}
+
 /**
- * Generates tags, name, and path in a single AI call.
+ * The routed provider for `feature`, followed by `ai-notes.fallbackProvider`
+ * when one is configured and differs from it.
  */
-export async function generateNoteMetadata(content: string, existingFolders: string[]): Promise<NoteMetadata> {
-    const prompt = `
-You are an AI assistant for note-taking.
-Given the following note content, do the following:
-1. Extract up to 5 relevant tags (single words, comma-separated, lowercase, no spaces).
-2. Suggest a concise, descriptive name for the note (lowercase, dash-separated, no special characters or spaces).
-3. Suggest the most appropriate folder path for this note from the following list: [${existingFolders.join(', ')}]. If none are suitable, propose a new folder path (up to 3 levels deep, using lowercase letters and dashes).
+function completionRoutes(feature?: AIFeature): ModelRoute[] {
+    const primary = currentRoute(feature);
+    const config = vscode.workspace.getConfiguration('ai-notes');
+    const fallbackProvider = config.get<string>('fallbackProvider');
+    if (!fallbackProvider) { return [primary]; }
+    const fallback = { provider: fallbackProvider, model: config.get<string>('fallbackModel') || defaultModelFor(fallbackProvider) };
+    return fallback.provider === primary.provider && fallback.model === primary.model ? [primary] : [primary, fallback];
+}
 
-Respond in JSON format:
-{
-  "tags": ["tag1", "tag2", ...],
-  "name": "suggested-note-name",
-  "path": "suggested/folder/path"
+/**
+ * Waits `ms`, rejecting with CancellationError if `token` is cancelled first.
+ */
+function delay(ms: number, token?: vscode.CancellationToken): Promise<void> {
+    return raceCancellation(new Promise<void>(resolve => setTimeout(resolve, ms)), token);
 }
 
-Note content:
-"""${content}"""
-    `;
-    const response = await chatCompletionWithRetry(prompt);
+/**
+ * A token that fires when `token` is cancelled or `timeoutMs` elapses. `reset`
+ * restarts the timer, so streams can use it as an idle timeout.
+ */
+function timeoutToken(token: vscode.CancellationToken | undefined, timeoutMs: number) {
+    const source = new vscode.CancellationTokenSource();
+    const parent = token?.onCancellationRequested(() => source.cancel());
+    let timedOut = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const reset = () => {
+        if (timeoutMs <= 0) { return; }
+        if (timer) { clearTimeout(timer); }
+        timer = setTimeout(() => { timedOut = true; source.cancel(); }, timeoutMs);
+    };
+    reset();
+    return {
+        token: source.token,
+        reset,
+        /** Turns a cancellation caused by the timer into an AITimeoutError. */
+        translate(err: unknown): unknown {
+            return timedOut && !token?.isCancellationRequested ? new AITimeoutError(timeoutMs) : err;
+        },
+        dispose() {
+            if (timer) { clearTimeout(timer); }
+            parent?.dispose();
+            source.dispose();
+        },
+    };
+}
 
+/**
+ * A cached response from any route that could have answered, the routed
+ * provider first. Responses are cached under the route that gave them, so one
+ * saved while the primary was failing is found through the fallback's key.
+ */
+async function readCachedCompletion(prompt: string, options: CompletionOptions): Promise<{ response: string; route: ModelRoute } | undefined> {
+    const cache = getAICache();
+    if (!cache) { return undefined; }
+    for (const route of completionRoutes(options.feature)) {
+        const response = await cache.get(cacheKey(prompt, route.provider, route.model));
+        if (response !== undefined) { return { response, route }; }
+    }
+    return undefined;
+}
+
+async function writeCachedCompletion(prompt: string, response: string, route: ModelRoute): Promise<void> {
+    const cache = getAICache();
+    if (!cache) { return; }
+    const { provider, model } = route;
     try {
-        // Try to parse the response as JSON
-        const json = JSON.parse(response);
-        if (
-            Array.isArray(json.tags) &&
-            typeof json.name === 'string' &&
-            typeof json.path === 'string'
-        ) {
-            return {
-                tags: json.tags.map((t: string) => t.trim()).filter((t: string) => t.length > 0),
-                name: json.name.trim(),
-                path: json.path.trim(),
-            };
-        }
-    } catch (e) {
-        // fallback: try to extract manually if not valid JSON
-        const tagsMatch = response.match(/"tags"\s*:\s*\[([^\]]+)\]/);
-        const nameMatch = response.match(/"name"\s*:\s*"([^"]+)"/);
-        const pathMatch = response.match(/"path"\s*:\s*"([^"]+)"/);
-        return {
-            tags: tagsMatch ? tagsMatch[1].split(',').map((t: string) => t.replace(/["']/g, '').trim()) : [],
-            name: nameMatch ? nameMatch[1] : '',
-            path: pathMatch ? pathMatch[1] : '',
-        };
+        await cache.set(cacheKey(prompt, provider, model), { provider, model, response });
+    } catch (err: any) {
+        console.warn(`Failed to write AI cache entry: ${err.message}`);
     }
-    return { tags: [], name: '', path: '' };
 }
 
-async function aiCompletion(prompt: string): Promise<string> {
+async function recordUsage(prompt: string, options: CompletionOptions, route: ModelRoute, startedAt: number, response: string, outcome: UsageOutcome, error?: string): Promise<void> {
+    const ledger = getUsageLedger();
+    if (!ledger) { return; }
+    const { provider, model } = route;
+    try {
+        await ledger.append({
+            timestamp: new Date().toISOString(),
+            feature: options.feature ?? 'other',
+            provider,
+            model,
+            promptChars: prompt.length,
+            responseChars: response.length,
+            estimatedTokens: estimateTokens(prompt.length + response.length),
+            latencyMs: Date.now() - startedAt,
+            outcome,
+            error,
+        });
+    } catch (err: any) {
+        console.warn(`Failed to record AI usage: ${err.message}`);
+    }
+}
+
+// Day (YYYY-MM-DD) on which the user agreed to keep going past the budget.
+let overBudgetApprovedOn: string | undefined;
+
+/**
+ * Enforces `ai-notes.dailyTokenBudget` before a call reaches the provider.
+ * Depending on `ai-notes.budgetAction` the call is blocked outright, or the user
+ * is asked once per day whether to continue.
+ */
+async function enforceBudget(prompt: string, options: CompletionOptions): Promise<void> {
     const config = vscode.workspace.getConfiguration('ai-notes');
-    const llmProvider = config.get<string>('llmProvider');
-    const model = config.get<string>('aiModel');
+    const budget = config.get<number>('dailyTokenBudget', 0);
+    const ledger = getUsageLedger();
+    if (!budget || budget <= 0 || !ledger) { return; }
+
+    const used = await ledger.tokensUsedToday();
+    if (used + estimateTokens(prompt.length) <= budget) { return; }
+
+    const today = new Date().toDateString();
+    if (overBudgetApprovedOn === today) { return; }
+
+    if (config.get<string>('budgetAction', 'confirm') === 'confirm') {
+        const choice = await vscode.window.showWarningMessage(
+            `AI Notes has used ~${used} of its ${budget} token daily budget. Continue anyway?`,
+            { modal: true },
+            'Continue'
+        );
+        if (choice === 'Continue') {
+            overBudgetApprovedOn = today;
+            return;
+        }
+    }
+
+    await recordUsage(prompt, options, currentRoute(options.feature), Date.now(), '', 'blocked');
+    throw new BudgetExceededError(used, budget);
+}
+
+let providerOverride: CompletionProvider | undefined;
+
+/**
+ * Sends every completion to `provider` instead of the configured one; pass
+ * undefined to restore normal routing. Used by the offline integration tests.
+ */
+export function setCompletionProviderOverride(provider: CompletionProvider | undefined): void {
+    providerOverride = provider;
+}
 
-    if (llmProvider === 'sap-ai-core') {
-        return aiCoreChatCompletion(prompt);
-    } else if (llmProvider === 'vscode-lm-api') {
-        return vsCodeLMAPIChatCompletion(prompt, model || 'gpt-4.1');
+/**
+ * The provider that answers without a model: the test override, or fixtures
+ * replayed from `ai-notes.fixturesDir` when `replay` is the selected provider.
+ */
+function scriptedProvider(provider: string): CompletionProvider | undefined {
+    if (providerOverride) { return providerOverride; }
+    if (provider !== 'replay') { return undefined; }
+    const fixturesDir = fixturesDirFromConfig();
+    if (!fixturesDir) {
+        throw new Error("The replay provider needs an open workspace folder or an absolute 'ai-notes.fixturesDir'.");
+    }
+    return new ReplayProvider(new FixtureStore(fixturesDir));
+}
+
+/**
+ * With `ai-notes.recordFixtures` on, saves a real provider's response as a
+ * replay fixture.
+ */
+async function recordFixture(prompt: string, response: string, route: ModelRoute): Promise<void> {
+    if (!vscode.workspace.getConfiguration('ai-notes').get<boolean>('recordFixtures', false)) { return; }
+    const fixturesDir = fixturesDirFromConfig();
+    if (!fixturesDir) { return; }
+    try {
+        await new FixtureStore(fixturesDir).record(prompt, response, route.provider, route.model);
+    } catch (err: any) {
+        console.warn(`Failed to record fixture: ${err.message}`);
+    }
+}
+
+async function aiCompletion(prompt: string, route: ModelRoute, token?: vscode.CancellationToken): Promise<string> {
+    const { provider, model } = route;
+
+    throwIfCancelled(token);
+    const abort = linkAbortController(token);
+    try {
+        const scripted = scriptedProvider(provider);
+        if (scripted) {
+            return await raceCancellation(scripted.complete(prompt), token);
+        }
+
+        let response: string;
+        if (provider === 'sap-ai-core') {
+            response = await raceCancellation(aiCoreChatCompletion(prompt, model), token);
+        } else if (provider === 'vscode-lm-api') {
+            response = await vsCodeLMAPIChatCompletion(prompt, model, token);
+        } else if (provider === 'openai-compatible') {
+            response = await openAICompatibleChatCompletion(prompt, { ...await openAICompatibleOptionsFromConfig(), model }, abort.controller.signal);
+        } else {
+            throw new Error('Unsupported LLM provider: ' + provider);
+        }
+        await recordFixture(prompt, response, route);
+        return response;
+    } catch (err) {
+        throwIfCancelled(token);
+        throw err;
+    } finally {
+        abort.dispose();
+    }
+}
+
+async function* aiCompletionStream(prompt: string, route: ModelRoute, token: vscode.CancellationToken | undefined, controller: AbortController): AsyncGenerator<string> {
+    const { provider, model } = route;
+
+    const scripted = scriptedProvider(provider);
+    if (scripted) {
+        yield* splitIntoFragments(await raceCancellation(scripted.complete(prompt), token));
+        return;
+    }
+
+    let fragments: AsyncIterable<string>;
+    if (provider === 'sap-ai-core') {
+        fragments = aiCoreChatCompletionStream(prompt, model, controller);
+    } else if (provider === 'vscode-lm-api') {
+        fragments = vsCodeLMAPIChatCompletionStream(prompt, model, token);
+    } else if (provider === 'openai-compatible') {
+        fragments = openAICompatibleChatCompletionStream(prompt, { ...await openAICompatibleOptionsFromConfig(), model }, controller.signal);
     } else {
-        throw new Error('Unsupported LLM provider: ' + llmProvider);
+        throw new Error('Unsupported LLM provider: ' + provider);
+    }
+
+    let response = '';
+    for await (const fragment of fragments) {
+        response += fragment;
+        yield fragment;
     }
+    await recordFixture(prompt, response, route);
 }
 
-async function vsCodeLMAPIChatCompletion(prompt: string, aiModel: string): Promise<string> {
+async function* vsCodeLMAPIChatCompletionStream(prompt: string, aiModel: string, token?: vscode.CancellationToken): AsyncGenerator<string> {
     // @ts-ignore - VS Code LM API is proposed and may not be typed
     if (vscode.lm && vscode.lm.selectChatModels) {
         const [model] = await vscode.lm.selectChatModels({
@@ -84,68 +368,212 @@ async function vsCodeLMAPIChatCompletion(prompt: string, aiModel: string): Promi
             throw new Error('No suitable AI model found for chat completion.');
         }
 
+        let response: vscode.LanguageModelChatResponse;
         try {
             // @ts-ignore
-            const response = await model.sendRequest([vscode.LanguageModelChatMessage.User(prompt)]);
-            let completeResponse = '';
-            for await (const fragment of response.text) {
-                completeResponse += fragment;
-            }
-            return completeResponse;
+            response = await model.sendRequest([vscode.LanguageModelChatMessage.User(prompt)], {}, token);
         } catch (err: any) {
             throw new Error('AI chat completion failed: ' + err.message);
         }
+        yield* response.text;
     } else {
         throw new Error('VS Code LM API not available.');
     }
 }
 
-export async function chatCompletionWithRetry(prompt: string, retries = 3): Promise<string> {
-    for (let attempt = 0; attempt < retries; attempt++) {
-        try {
-            return await aiCompletion(prompt);
-        } catch (err: any) {
-            console.warn(`Attempt ${attempt + 1} failed: ${err.message}`);
+async function vsCodeLMAPIChatCompletion(prompt: string, aiModel: string, token?: vscode.CancellationToken): Promise<string> {
+    let completeResponse = '';
+    for await (const fragment of vsCodeLMAPIChatCompletionStream(prompt, aiModel, token)) {
+        completeResponse += fragment;
+    }
+    return completeResponse;
+}
+
+/**
+ * Streams the completion for `prompt`, yielding text fragments as the provider
+ * produces them. Cancelling `token` aborts the request and ends the stream with
+ * a CancellationError. Failures before the first fragment are retried like
+ * `chatCompletionWithRetry`; once text has been yielded the stream fails instead.
+ * `ai-notes.requestTimeoutSeconds` applies to the wait between fragments.
+ */
+export async function* chatCompletionStream(prompt: string, options: CompletionOptions = {}): AsyncGenerator<string> {
+    const token = options.token;
+    throwIfCancelled(token);
+    await enforceBudget(prompt, options);
+    const settings = retrySettings(options);
+    const failures: FailedAttempt[] = [];
+    let lastError: unknown;
+
+    for (const route of completionRoutes(options.feature)) {
+        for (let attempt = 0; attempt < settings.attempts; attempt++) {
+            const timeout = timeoutToken(token, settings.timeoutMs);
+            const abort = linkAbortController(timeout.token);
+            const startedAt = Date.now();
+            let response = '';
+            try {
+                for await (const fragment of aiCompletionStream(prompt, route, timeout.token, abort.controller)) {
+                    throwIfCancelled(timeout.token);
+                    timeout.reset();
+                    response += fragment;
+                    yield fragment;
+                }
+                await recordUsage(prompt, options, route, startedAt, response, 'success');
+                return;
+            } catch (err: any) {
+                if (token?.isCancellationRequested) {
+                    await recordUsage(prompt, options, route, startedAt, response, 'cancelled');
+                    throw new vscode.CancellationError();
+                }
+                lastError = timeout.translate(err);
+                const kind = await noteFailure(prompt, options, route, startedAt, lastError, failures);
+                // Text already reached the caller; another attempt would repeat it.
+                if (response.length > 0) { throw new AIRequestError(failures, lastError); }
+                if (kind === 'fatal') { break; }
+                if (attempt < settings.attempts - 1) {
+                    await delay(backoffDelay(attempt, settings.baseDelayMs, settings.maxDelayMs), token);
+                }
+            } finally {
+                abort.dispose();
+                timeout.dispose();
+            }
         }
     }
 
-    throw new Error('All attempts to generate response failed.');
+    throw new AIRequestError(failures, lastError);
 }
 
-export async function generateName(tags: string[]): Promise<string> {
-    // Compose a prompt for name generation
-    const prompt = `
-You are an AI assistant for note-taking.
-Given the following tags, generate a concise and descriptive name for a note.
-The name should be lowercase, single line, dash-separated, and should not include any special characters or spaces.
-Output the name as a single line of text.
+/**
+ * Completes `prompt` with the model routed for `options.feature`, answering from
+ * the workspace response cache when an unexpired entry exists for the same
+ * prompt, provider and model. Retryable failures are retried with exponential
+ * backoff, then handed to the fallback provider; fatal ones fail immediately.
+ * Throws an AIRequestError describing what went wrong.
+ */
+export async function chatCompletionWithRetry(prompt: string, options: CompletionOptions = {}): Promise<string> {
+    if (!options.bypassCache) {
+        const cached = await readCachedCompletion(prompt, options);
+        if (cached) {
+            await recordUsage(prompt, options, cached.route, Date.now(), cached.response, 'cached');
+            return cached.response;
+        }
+    }
 
-Tags:
-${tags.join(', ')}
-    `;
-    return chatCompletionWithRetry(prompt);
+    const { response, route } = await uncachedCompletionWithRetry(prompt, options);
+    await writeCachedCompletion(prompt, response, route);
+    return response;
+}
+
+/**
+ * Records a failed attempt in the ledger and in `failures`, and returns whether
+ * it is worth retrying.
+ */
+async function noteFailure(prompt: string, options: CompletionOptions, route: ModelRoute, startedAt: number, err: unknown, failures: FailedAttempt[]): Promise<ErrorKind> {
+    const { kind, reason } = classifyError(err);
+    failures.push({ provider: route.provider, model: route.model, reason, kind });
+    await recordUsage(prompt, options, route, startedAt, '', 'error', reason);
+    console.warn(`AI attempt ${failures.length} on ${route.provider} (${route.model}) failed [${kind}]: ${reason}`);
+    return kind;
+}
+
+async function uncachedCompletionWithRetry(prompt: string, options: CompletionOptions): Promise<{ response: string; route: ModelRoute }> {
+    await enforceBudget(prompt, options);
+    const settings = retrySettings(options);
+    const failures: FailedAttempt[] = [];
+    let lastError: unknown;
+
+    for (const route of completionRoutes(options.feature)) {
+        for (let attempt = 0; attempt < settings.attempts; attempt++) {
+            throwIfCancelled(options.token);
+            const timeout = timeoutToken(options.token, settings.timeoutMs);
+            const startedAt = Date.now();
+            try {
+                const response = await aiCompletion(prompt, route, timeout.token);
+                await recordUsage(prompt, options, route, startedAt, response, 'success');
+                return { response, route };
+            } catch (err: any) {
+                if (options.token?.isCancellationRequested) {
+                    await recordUsage(prompt, options, route, startedAt, '', 'cancelled');
+                    throw new vscode.CancellationError();
+                }
+                lastError = timeout.translate(err);
+                const kind = await noteFailure(prompt, options, route, startedAt, lastError, failures);
+                if (kind === 'fatal') { break; }
+                if (attempt < settings.attempts - 1) {
+                    await delay(backoffDelay(attempt, settings.baseDelayMs, settings.maxDelayMs), options.token);
+                }
+            } finally {
+                timeout.dispose();
+            }
+        }
+    }
+
+    throw new AIRequestError(failures, lastError);
+}
+
+export interface StructuredCompletionOptions extends CompletionOptions {
+    /** How many times to re-ask the model after an invalid response. Defaults to 2. */
+    repairAttempts?: number;
+}
+
+/**
+ * Asks for JSON matching `target`. When the response does not parse or validate,
+ * the model is re-asked with the validation error. Throws a StructuredOutputError
+ * describing the last problem once all repair attempts are used up.
+ * Only a valid response is cached, under the original prompt.
+ */
+export async function chatCompletionStructured<T>(prompt: string, target: Schema<T>, options: StructuredCompletionOptions = {}): Promise<T> {
+    if (!options.bypassCache) {
+        const cached = await readCachedCompletion(prompt, options);
+        const result = cached ? parseStructured(cached.response, target) : undefined;
+        if (cached && result?.ok) {
+            await recordUsage(prompt, options, cached.route, Date.now(), cached.response, 'cached');
+            return result.value;
+        }
+    }
+
+    const repairAttempts = options.repairAttempts ?? 2;
+    let currentPrompt = prompt;
+    let lastError = '';
+    let lastResponse = '';
+
+    for (let attempt = 0; attempt <= repairAttempts; attempt++) {
+        const completion = await uncachedCompletionWithRetry(currentPrompt, options);
+        lastResponse = completion.response;
+        const result = parseStructured(lastResponse, target);
+        if (result.ok) {
+            await writeCachedCompletion(prompt, lastResponse, completion.route);
+            return result.value;
+        }
+        lastError = result.error;
+        console.warn(`Structured output attempt ${attempt + 1} invalid: ${lastError}`);
+        currentPrompt = buildRepairPrompt(prompt, lastResponse, lastError, target);
+    }
+
+    throw new StructuredOutputError(
+        `AI response did not match the expected format after ${repairAttempts + 1} attempts (${lastError})`,
+        lastError,
+        lastResponse
+    );
+}
+
+export async function generateName(tags: string[], rootDir: string): Promise<string> {
+    const prompt = await renderPrompt('generate-name', { tags: tags.join(', ') }, rootDir);
+    return chatCompletionWithRetry(prompt, { feature: 'classify' });
 }
 
 /**
  * Uses the VS Code LM API to generate tags for a note based on its content.
  * @param content The note content to analyze.
+ * @param rootDir The vault whose prompt overrides apply.
  * @returns An array of tag strings, or an empty array if LM API is unavailable.
  */
-export async function generateTags(content: string): Promise<string[]> {
-    // Compose a prompt for tag extraction
-    const prompt = `
-You are an AI assistant for note-taking.
-Given the following note content, extract up to 5 relevant tags (single words, comma-separated, lowercase, no spaces).
-Respond with only the tags.
-
-Note content:
-${content}
-    `;
+export async function generateTags(content: string, rootDir: string): Promise<string[]> {
+    const prompt = await renderPrompt('generate-tags', { content }, rootDir);
 
     // @ts-ignore - VS Code LM API is proposed and may not be typed
     if (vscode.lm && vscode.lm.selectChatModels) {
         try {
-            const response = await chatCompletionWithRetry(prompt);
+            const response = await chatCompletionWithRetry(prompt, { feature: 'classify' });
             return response.split(',').map((tag: string) => tag.trim()).filter((tag: string | any[]) => tag.length > 0);
         } catch (err) {
             vscode.window.showWarningMessage('AI tag generation failed.');
@@ -157,10 +585,14 @@ ${content}
     return [];
 }
 
-export async function generatePath(tags: string[], content: string, existingFolders: string[]): Promise<string> {
-    const aiPrompt = `Given the following tags: ${JSON.stringify(tags)}, note content: """${content.substring(0, 500)}""", and these existing folders: [${existingFolders.join(', ')}]. Choose the most appropriate folder from the list for categorizing this note. If none are suitable, propose a new folder path (up to 3 levels deep, using lowercase letters and dashes). Output only the selected path.`;
+export async function generatePath(tags: string[], content: string, existingFolders: string[], rootDir: string): Promise<string> {
+    const aiPrompt = await renderPrompt('generate-path', {
+        tags: JSON.stringify(tags),
+        content: content.substring(0, 500),
+        folders: existingFolders.join(', '),
+    }, rootDir);
 
-    const response = await chatCompletionWithRetry(aiPrompt);
+    const response = await chatCompletionWithRetry(aiPrompt, { feature: 'classify' });
 
     return response.split(/[\n/\\]/).map(seg => seg.replace(/_/g, '-').trim()).filter(Boolean).slice(0, 3).join('/');
 }
\ No newline at end of file
@@ -0,0 +1,132 @@
+import * as vscode from 'vscode';
+import * as fsp from 'fs/promises';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { sharedStateRoot } from './sharedState';
+
+export interface CacheEntry {
+    provider: string;
+    model: string;
+    createdAt: number;
+    response: string;
+}
+
+/**
+ * Stable cache key for a completion: the same prompt sent to the same provider
+ * and model always maps to the same entry.
+ */
+export function cacheKey(prompt: string, provider: string, model: string): string {
+    return crypto.createHash('sha256').update(`${provider}\n${model}\n${prompt}`).digest('hex');
+}
+
+/**
+ * File-backed store of AI responses, one JSON file per entry. Entries older than
+ * `ttlMs` are treated as missing; the oldest entries are evicted once the
+ * directory grows past `maxBytes`.
+ */
+export class AICache {
+    constructor(
+        private cacheDir: string,
+        private ttlMs: number,
+        private maxBytes: number,
+        private now: () => number = Date.now
+    ) {}
+
+    async get(key: string): Promise<string | undefined> {
+        const filePath = this.entryPath(key);
+        let entry: CacheEntry;
+        try {
+            entry = JSON.parse(await fsp.readFile(filePath, 'utf8'));
+        } catch {
+            return undefined;
+        }
+        if (this.now() - entry.createdAt > this.ttlMs) {
+            await fsp.rm(filePath, { force: true });
+            return undefined;
+        }
+        return entry.response;
+    }
+
+    async set(key: string, entry: Omit<CacheEntry, 'createdAt'>): Promise<void> {
+        await fsp.mkdir(this.cacheDir, { recursive: true });
+        const full: CacheEntry = { ...entry, createdAt: this.now() };
+        await fsp.writeFile(this.entryPath(key), JSON.stringify(full), 'utf8');
+        await this.prune();
+    }
+
+    /**
+     * Removes expired entries, then the oldest ones until the cache fits in `maxBytes`.
+     */
+    async prune(): Promise<void> {
+        const files = await this.listEntries();
+        const live: Array<{ filePath: string; size: number; mtime: number }> = [];
+        for (const file of files) {
+            if (this.now() - file.mtime > this.ttlMs) {
+                await fsp.rm(file.filePath, { force: true });
+            } else {
+                live.push(file);
+            }
+        }
+
+        let total = live.reduce((sum, f) => sum + f.size, 0);
+        live.sort((a, b) => a.mtime - b.mtime);
+        for (const file of live) {
+            if (total <= this.maxBytes) { break; }
+            await fsp.rm(file.filePath, { force: true });
+            total -= file.size;
+        }
+    }
+
+    /**
+     * Deletes every entry. Returns how many were removed.
+     */
+    async clear(): Promise<number> {
+        const files = await this.listEntries();
+        for (const file of files) {
+            await fsp.rm(file.filePath, { force: true });
+        }
+        return files.length;
+    }
+
+    private entryPath(key: string): string {
+        return path.join(this.cacheDir, `${key}.json`);
+    }
+
+    private async listEntries(): Promise<Array<{ filePath: string; size: number; mtime: number }>> {
+        let names: string[];
+        try {
+            names = await fsp.readdir(this.cacheDir);
+        } catch {
+            return [];
+        }
+        const out: Array<{ filePath: string; size: number; mtime: number }> = [];
+        for (const name of names) {
+            if (!name.endsWith('.json')) { continue; }
+            const filePath = path.join(this.cacheDir, name);
+            try {
+                const stat = await fsp.stat(filePath);
+                out.push({ filePath, size: stat.size, mtime: stat.mtimeMs });
+            } catch {}
+        }
+        return out;
+    }
+}
+
+/**
+ * Returns the AI cache configured by the `ai-notes.cache*` settings, shared by
+ * every vault (see sharedState), or undefined when caching is disabled or no
+ * folder is open.
+ */
+export function getAICache(): AICache | undefined {
+    const config = vscode.workspace.getConfiguration('ai-notes');
+    if (!config.get<boolean>('cacheEnabled', true)) { return undefined; }
+    const workspaceRoot = sharedStateRoot();
+    if (!workspaceRoot) { return undefined; }
+    const ttlHours = config.get<number>('cacheTtlHours', 168);
+    const maxSizeMB = config.get<number>('cacheMaxSizeMB', 50);
+    return new AICache(
+        path.join(workspaceRoot, '.ai-notes', 'cache'),
+        ttlHours * 60 * 60 * 1000,
+        maxSizeMB * 1024 * 1024
+    );
+}
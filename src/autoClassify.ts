@@ -1,4 +1,6 @@
 import * as vscode from 'vscode';
+import * as path from 'path';
+import { parseFrontmatter } from './frontmatter';
 
 export class AutoClassifyWatcher {
     private disposables: vscode.Disposable[] = [];
@@ -6,8 +8,12 @@ export class AutoClassifyWatcher {
     private debounceTimers: Map<string, NodeJS.Timeout> = new Map();
     private classifyCallback: (doc: vscode.TextDocument) => Promise<void>;
 
+    /**
+     * @param draftsDirs The drafts folder of every open vault; read on each save
+     *   so folders added to the workspace later are covered.
+     */
     constructor(
-        private draftsDir: string,
+        private draftsDirs: () => string[],
         classifyCallback: (doc: vscode.TextDocument) => Promise<void>
     ) {
         this.classifyCallback = classifyCallback;
@@ -28,7 +34,7 @@ export class AutoClassifyWatcher {
     private onSave(doc: vscode.TextDocument): void {
         const filePath = doc.uri.fsPath;
 
-        if (!filePath.startsWith(this.draftsDir)) { return; }
+        if (!this.draftsDirs().some(dir => filePath.startsWith(dir + path.sep))) { return; }
         if (!filePath.endsWith('.md')) { return; }
 
         const content = doc.getText().trim();
@@ -49,9 +55,7 @@ export class AutoClassifyWatcher {
     }
 
     private hasTags(content: string): boolean {
-        const match = content.match(/^---\n([\s\S]*?)\n---/);
-        if (!match) { return false; }
-        return match[1].includes('tags:');
+        return parseFrontmatter(content).data.tags !== undefined;
     }
 
     private async showClassifyPrompt(doc: vscode.TextDocument): Promise<void> {
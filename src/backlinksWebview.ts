@@ -1,6 +1,6 @@
 import * as vscode from 'vscode';
-import * as fsp from 'fs/promises';
 import * as path from 'path';
+import { VaultManager } from './vaults';
 
 function escapeHtml(str: string): string {
     return str.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#039;');
@@ -12,11 +12,12 @@ export interface MarkdownLink {
 }
 
 export function extractMarkdownLinks(content: string): MarkdownLink[] {
-    const regex = /\[([^\]]*)\]\(([^)]+\.md)\)/g;
+    // A target in angle brackets may contain spaces and parentheses.
+    const regex = /\[([^\]]*)\]\((?:<([^<>\n]+\.md)>|([^)]+\.md))\)/g;
     const links: MarkdownLink[] = [];
     let match;
     while ((match = regex.exec(content)) !== null) {
-        const href = match[2];
+        const href = match[2] ?? match[3];
         if (/^https?:\/\//.test(href)) { continue; }
         links.push({ text: match[1], href });
     }
@@ -31,21 +32,15 @@ interface BacklinkEntry {
 export class BacklinksWebviewProvider implements vscode.WebviewViewProvider {
     public static readonly viewType = 'aiNotesBacklinksWebView';
     private view?: vscode.WebviewView;
-    private linkIndex: Map<string, BacklinkEntry[]> = new Map();
     private disposables: vscode.Disposable[] = [];
 
-    constructor(private workspaceRoot: string) {}
+    constructor(private vaults: VaultManager) {}
 
     async initialize(): Promise<void> {
-        await this.buildIndex();
-
-        const watcher = vscode.workspace.createFileSystemWatcher('**/*.md');
-        watcher.onDidChange(() => this.rebuildIndex());
-        watcher.onDidCreate(() => this.rebuildIndex());
-        watcher.onDidDelete(() => this.rebuildIndex());
-        this.disposables.push(watcher);
-
+        this.vaults.onDidChangeNotes(() => this.refresh(), null, this.disposables);
         vscode.window.onDidChangeActiveTextEditor(() => this.refresh(), null, this.disposables);
+        await Promise.all(this.vaults.vaults().map(v => this.vaults.index(v).ready()));
+        this.refresh();
     }
 
     resolveWebviewView(
@@ -75,48 +70,11 @@ export class BacklinksWebviewProvider implements vscode.WebviewViewProvider {
         }
 
         const currentFile = editor.document.uri.fsPath;
-        const backlinks = this.linkIndex.get(currentFile) || [];
+        // Links only count within the note's own vault.
+        const backlinks: BacklinkEntry[] = this.vaults.indexFor(currentFile)?.backlinksTo(currentFile) ?? [];
         this.view.webview.html = this.getHtml(backlinks);
     }
 
-    private async buildIndex(): Promise<void> {
-        this.linkIndex.clear();
-        await this.walkAndIndex(this.workspaceRoot);
-    }
-
-    private async rebuildIndex(): Promise<void> {
-        await this.buildIndex();
-        this.refresh();
-    }
-
-    private async walkAndIndex(dir: string): Promise<void> {
-        let entries;
-        try {
-            entries = await fsp.readdir(dir, { withFileTypes: true });
-        } catch { return; }
-
-        for (const entry of entries) {
-            const fullPath = path.join(dir, entry.name);
-            if (entry.isDirectory()) {
-                if (BacklinksWebviewProvider.EXCLUDED_DIRS.has(entry.name)) { continue; }
-                await this.walkAndIndex(fullPath);
-            } else if (entry.name.endsWith('.md')) {
-                try {
-                    const content = await fsp.readFile(fullPath, 'utf8');
-                    const links = extractMarkdownLinks(content);
-                    for (const link of links) {
-                        const targetPath = path.resolve(path.dirname(fullPath), link.href);
-                        const existing = this.linkIndex.get(targetPath) || [];
-                        existing.push({ fromFile: fullPath, linkText: link.text });
-                        this.linkIndex.set(targetPath, existing);
-                    }
-                } catch {}
-            }
-        }
-    }
-
-    private static readonly EXCLUDED_DIRS = new Set(['.git', 'node_modules', '.vscode', '.claude']);
-
     private getHtml(backlinks: BacklinkEntry[]): string {
         if (backlinks.length === 0) {
             return `<body style="font-family: var(--vscode-font-family); color: var(--vscode-sideBar-foreground); padding: 12px;">
@@ -0,0 +1,142 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { NoteIndex } from './noteIndex';
+import { getFullTextIndex, parseSearchQuery, tokenize } from './fullTextSearch';
+import { chunkNote, embeddingsEnabled } from './embeddings';
+import { getVectorIndex } from './vectorIndex';
+import { estimateTokens } from './usageLedger';
+
+/**
+ * Picks the passages chat answers from: heading-sized chunks of the notes
+ * (the same chunks the embeddings index uses), scored by keywords, by
+ * embeddings or by both, and packed best first into a token budget.
+ */
+
+export type RetrievalMode = 'hybrid' | 'keyword' | 'semantic';
+
+export interface RetrievedChunk {
+    filePath: string;
+    heading: string | null;
+    /** Zero-based line in the file where the chunk starts. */
+    line: number;
+    text: string;
+    /** Which scorings ranked the chunk. */
+    sources: Array<'keyword' | 'semantic'>;
+    tokens: number;
+}
+
+export interface RetrievalOptions {
+    mode: RetrievalMode;
+    /** Most tokens of chunk text to return. */
+    budgetTokens: number;
+    token?: vscode.CancellationToken;
+}
+
+export interface Retrieval {
+    chunks: RetrievedChunk[];
+    /** Set when embeddings were wanted but failed; keyword chunks are still returned. */
+    warning?: string;
+}
+
+/** Notes whose chunks are scored by keyword. */
+const KEYWORD_NOTES = 12;
+/** Chunks taken from each ranking before fusing. */
+const CANDIDATES = 24;
+/** Reciprocal rank fusion constant; larger flattens the rank differences. */
+const RRF_K = 60;
+
+export function retrievalMode(): RetrievalMode {
+    const mode = vscode.workspace.getConfiguration('ai-notes').get<string>('chatRetrieval', 'hybrid');
+    return mode === 'keyword' || mode === 'semantic' ? mode : 'hybrid';
+}
+
+export function contextTokenBudget(): number {
+    const budget = vscode.workspace.getConfiguration('ai-notes').get<number>('chatContextTokens', 4000);
+    return typeof budget === 'number' && budget > 0 ? budget : 4000;
+}
+
+/**
+ * The chunks most relevant to `question`, best first, whose texts fit in
+ * `budgetTokens` together. Semantic scoring is used only when an embedding
+ * provider is configured.
+ */
+export async function retrieveChunks(index: NoteIndex, question: string, options: RetrievalOptions): Promise<Retrieval> {
+    const rankings: Array<{ source: 'keyword' | 'semantic'; chunks: Omit<RetrievedChunk, 'sources' | 'tokens'>[] }> = [];
+    let warning: string | undefined;
+
+    if (options.mode !== 'keyword' && embeddingsEnabled()) {
+        try {
+            const hits = await getVectorIndex(index).search(question, CANDIDATES, { token: options.token });
+            rankings.push({ source: 'semantic', chunks: hits });
+        } catch (err: any) {
+            if (err instanceof vscode.CancellationError) { throw err; }
+            warning = `Semantic retrieval failed, using keywords: ${err.message}`;
+        }
+    }
+    if (options.mode !== 'semantic' || rankings.length === 0) {
+        rankings.push({ source: 'keyword', chunks: await keywordChunks(index, question) });
+    }
+
+    const fused = new Map<string, RetrievedChunk & { score: number }>();
+    for (const ranking of rankings) {
+        ranking.chunks.forEach((chunk, rank) => {
+            const key = `${chunk.filePath}\0${chunk.line}`;
+            const entry = fused.get(key) ?? { ...chunk, sources: [], tokens: estimateTokens(chunk.text.length), score: 0 };
+            entry.sources.push(ranking.source);
+            entry.score += 1 / (RRF_K + rank + 1);
+            fused.set(key, entry);
+        });
+    }
+    const ranked = [...fused.values()].sort((a, b) => b.score - a.score || a.filePath.localeCompare(b.filePath) || a.line - b.line);
+    return { chunks: fitBudget(ranked, options.budgetTokens).map(({ score: _score, ...chunk }) => chunk), warning };
+}
+
+/**
+ * Chunks of the best keyword matches, scored by the note's BM25 score times
+ * the share of the question's words found in the chunk.
+ */
+async function keywordChunks(index: NoteIndex, question: string): Promise<Omit<RetrievedChunk, 'sources' | 'tokens'>[]> {
+    const terms = parseSearchQuery(question);
+    const queryTokens = new Set(terms.flatMap(t => t.tokens));
+    if (queryTokens.size === 0) { return []; }
+    const fullText = getFullTextIndex(index);
+    await fullText.ready();
+    const within = new Set(index.all().map(n => n.filePath));
+    const scored: Array<Omit<RetrievedChunk, 'sources' | 'tokens'> & { score: number }> = [];
+    for (const hit of fullText.search(terms, { limit: KEYWORD_NOTES, within })) {
+        const note = index.get(hit.filePath);
+        if (!note) { continue; }
+        for (const chunk of chunkNote(note)) {
+            const tokens = new Set(tokenize(chunk.text));
+            const found = [...queryTokens].filter(t => tokens.has(t)).length;
+            if (found > 0) {
+                scored.push({ ...chunk, score: hit.score * found / queryTokens.size });
+            }
+        }
+    }
+    scored.sort((a, b) => b.score - a.score || a.filePath.localeCompare(b.filePath) || a.line - b.line);
+    return scored.slice(0, CANDIDATES).map(({ score: _score, ...chunk }) => chunk);
+}
+
+/**
+ * Takes chunks in order while they fit; a chunk too big for what is left is
+ * skipped so smaller ones after it can still be used.
+ */
+export function fitBudget<T extends { tokens: number }>(chunks: T[], budgetTokens: number): T[] {
+    const picked: T[] = [];
+    let used = 0;
+    for (const chunk of chunks) {
+        if (used + chunk.tokens > budgetTokens) { continue; }
+        picked.push(chunk);
+        used += chunk.tokens;
+    }
+    return picked;
+}
+
+/**
+ * The chunks as prompt context, each headed by the note's file name so the
+ * model can cite it.
+ */
+export function formatChunks(chunks: RetrievedChunk[]): string {
+    return chunks.map(c => `[${path.basename(c.filePath)}]\n${c.text}`).join('\n\n---\n\n');
+}
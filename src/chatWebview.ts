@@ -1,7 +1,11 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
-import { chatCompletionWithRetry } from './ai';
+import { chatCompletionStream } from './ai';
+import { renderPrompt } from './prompts';
 import { gatherNotes, NoteInfo, buildNoteEntry } from './semanticSearch';
+import { getNoteIndex } from './noteIndex';
+import { estimateTokens } from './usageLedger';
+import { retrieveChunks, retrievalMode, contextTokenBudget, formatChunks, fitBudget, RetrievedChunk } from './chatRetrieval';
 
 function escapeHtml(str: string): string {
     return str.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#039;');
@@ -10,6 +14,10 @@ function escapeHtml(str: string): string {
 interface ChatMessage {
     role: 'user' | 'assistant';
     content: string;
+    /** The passages an answer was given, shown under it. */
+    sources?: RetrievedChunk[];
+    /** How the context was chosen when it was not retrieved passages. */
+    notice?: string;
 }
 
 export class ChatWebviewProvider implements vscode.WebviewViewProvider {
@@ -17,17 +25,35 @@ export class ChatWebviewProvider implements vscode.WebviewViewProvider {
     private view?: vscode.WebviewView;
     private history: ChatMessage[] = [];
     private workspaceRoot: string;
+    private pending?: vscode.CancellationTokenSource;
+
+    private vaultName?: string;
 
     constructor(workspaceRoot: string) {
         this.workspaceRoot = workspaceRoot;
     }
 
+    /**
+     * Points the chat at another vault. The conversation is about the old
+     * vault's notes, so it starts over.
+     */
+    switchVault(workspaceRoot: string, name?: string): void {
+        this.vaultName = name;
+        if (this.view) { this.view.description = name; }
+        if (workspaceRoot === this.workspaceRoot) { return; }
+        this.pending?.cancel();
+        this.workspaceRoot = workspaceRoot;
+        this.history = [];
+        this.updateChat();
+    }
+
     resolveWebviewView(
         webviewView: vscode.WebviewView,
         _context: vscode.WebviewViewResolveContext,
         _token: vscode.CancellationToken
     ): void {
         this.view = webviewView;
+        webviewView.description = this.vaultName;
         webviewView.webview.options = { enableScripts: true };
         webviewView.webview.html = this.getHtml();
 
@@ -35,52 +61,86 @@ export class ChatWebviewProvider implements vscode.WebviewViewProvider {
             if (message.command === 'sendMessage') {
                 await this.handleUserMessage(message.text);
             }
+            if (message.command === 'stop') {
+                this.pending?.cancel();
+            }
             if (message.command === 'clear') {
+                this.pending?.cancel();
                 this.history = [];
                 this.updateChat();
             }
             if (message.command === 'openNote') {
                 const uri = vscode.Uri.file(message.path);
-                vscode.window.showTextDocument(uri);
+                const line = typeof message.line === 'number' ? message.line : undefined;
+                vscode.window.showTextDocument(uri, line !== undefined ? { selection: new vscode.Range(line, 0, line, 0) } : undefined);
             }
         });
     }
 
     private async handleUserMessage(text: string): Promise<void> {
+        if (this.pending) {
+            // The input is disabled while answering; this only catches a message sent just before.
+            vscode.window.showInformationMessage(`Not sent: "${text}". Wait for the current answer or stop it, then ask again.`);
+            return;
+        }
         this.history.push({ role: 'user', content: text });
+        const conversationHistory = this.history.slice(-20).map(m =>
+            `${m.role === 'user' ? 'User' : 'Assistant'}: ${m.content}`
+        ).join('\n\n');
+
+        const answer: ChatMessage = { role: 'assistant', content: '' };
+        this.history.push(answer);
+        const cts = new vscode.CancellationTokenSource();
+        this.pending = cts;
         this.updateChat();
 
         try {
-            const notes = await gatherNotes(this.workspaceRoot);
-            const context = this.buildContext(notes);
-            const conversationHistory = this.history.slice(-20).map(m =>
-                `${m.role === 'user' ? 'User' : 'Assistant'}: ${m.content}`
-            ).join('\n\n');
-
-            const prompt = `You are a helpful assistant that answers questions about the user's notes. Cite referenced notes by filename in square brackets like [filename.md].
-
-Available notes:
-${context}
-
-Conversation:
-${conversationHistory}
+            const { context, sources, notice } = await this.retrieveContext(text, cts.token);
+            answer.sources = sources;
+            answer.notice = notice;
+            this.updateChat();
 
-Answer the user's latest question based on the notes above.`;
+            const prompt = await renderPrompt('chat', { notes: context, conversation: conversationHistory }, this.workspaceRoot);
 
-            const response = await chatCompletionWithRetry(prompt);
-            this.history.push({ role: 'assistant', content: response });
+            for await (const fragment of chatCompletionStream(prompt, { token: cts.token, feature: 'chat' })) {
+                answer.content += fragment;
+                this.view?.webview.postMessage({ command: 'appendToken', text: fragment });
+            }
         } catch (err: any) {
-            this.history.push({ role: 'assistant', content: `Error: ${err.message}` });
+            if (err instanceof vscode.CancellationError) {
+                answer.content += answer.content ? '\n\n(stopped)' : '(stopped)';
+            } else {
+                answer.content = `Error: ${err.message}`;
+            }
+        } finally {
+            cts.dispose();
+            this.pending = undefined;
         }
 
         this.updateChat();
     }
 
-    private buildContext(notes: NoteInfo[]): string {
-        return notes.map(n => {
-            const entry = buildNoteEntry(n.filePath, n.summary, n.snippet);
-            return entry;
-        }).join('\n');
+    /**
+     * The notes the model gets to see: the passages most relevant to the
+     * question, in full, within `ai-notes.chatContextTokens`. When nothing
+     * relevant is found, a one-line entry per note, as many as fit.
+     */
+    private async retrieveContext(question: string, token: vscode.CancellationToken): Promise<{ context: string; sources: RetrievedChunk[]; notice?: string }> {
+        const budget = contextTokenBudget();
+        const retrieval = await retrieveChunks(getNoteIndex(this.workspaceRoot), question, { mode: retrievalMode(), budgetTokens: budget, token });
+        if (retrieval.chunks.length > 0) {
+            return { context: formatChunks(retrieval.chunks), sources: retrieval.chunks, notice: retrieval.warning };
+        }
+        const notes = await gatherNotes(this.workspaceRoot);
+        const entries = fitBudget(this.buildContext(notes).map(entry => ({ entry, tokens: estimateTokens(entry.length + 1) })), budget);
+        const notice = entries.length < notes.length
+            ? `No passages matched; sent ${entries.length} of ${notes.length} notes as a list.`
+            : 'No passages matched; sent the list of notes.';
+        return { context: entries.map(e => e.entry).join('\n'), sources: [], notice };
+    }
+
+    private buildContext(notes: NoteInfo[]): string[] {
+        return notes.map(n => buildNoteEntry(n.filePath, n.summary, n.snippet));
     }
 
     private updateChat(): void {
@@ -89,14 +149,31 @@ Answer the user's latest question based on the notes above.`;
     }
 
     private renderMessages(): string {
-        return this.history.map(m => {
+        return this.history.map((m, i) => {
             const cls = m.role === 'user' ? 'user-msg' : 'ai-msg';
             const label = m.role === 'user' ? 'You' : 'AI';
             const content = this.renderContent(m.content);
-            return `<div class="msg ${cls}"><strong>${label}:</strong> ${content}</div>`;
+            const streaming = this.pending && i === this.history.length - 1 ? ' id="streaming"' : '';
+            return `<div class="msg ${cls}"${streaming}><strong>${label}:</strong> <span class="msg-body">${content}</span>${this.renderSources(m)}</div>`;
         }).join('');
     }
 
+    /**
+     * The passages an answer was based on, collapsed under it.
+     */
+    private renderSources(message: ChatMessage): string {
+        const notice = message.notice ? `<div class="notice">${escapeHtml(message.notice)}</div>` : '';
+        if (!message.sources || message.sources.length === 0) { return notice; }
+        const tokens = message.sources.reduce((sum, c) => sum + c.tokens, 0);
+        const items = message.sources.map(c => {
+            const name = path.basename(c.filePath);
+            const place = c.heading ? `${name} › ${c.heading}` : name;
+            return `<li class="source" data-path="${escapeHtml(c.filePath)}" data-line="${c.line}">${escapeHtml(place)} <span class="meta">line ${c.line + 1} · ${c.sources.join(' + ')} · ~${c.tokens} tokens</span></li>`;
+        }).join('');
+        const count = message.sources.length;
+        return `${notice}<details class="sources"><summary>Used ${count} passage${count === 1 ? '' : 's'} (~${tokens} tokens)</summary><ul>${items}</ul></details>`;
+    }
+
     private renderContent(content: string): string {
         const escaped = escapeHtml(content);
         return escaped.replace(/\[([^\]]+\.md)\]/g, (match, filename) => {
@@ -115,18 +192,24 @@ Answer the user's latest question based on the notes above.`;
     .user-msg { background: var(--vscode-input-background); }
     .ai-msg { background: var(--vscode-editor-background); }
     .note-ref { color: var(--vscode-textLink-foreground); cursor: pointer; text-decoration: underline; }
+    .sources, .notice { margin-top: 6px; font-size: 0.85em; white-space: normal; color: var(--vscode-descriptionForeground); }
+    .sources summary { cursor: pointer; }
+    .sources ul { margin: 4px 0 0; padding-left: 16px; }
+    .source { cursor: pointer; color: var(--vscode-textLink-foreground); }
+    .source .meta { color: var(--vscode-descriptionForeground); }
     #input-area { padding: 8px; border-top: 1px solid var(--vscode-input-border); display: flex; gap: 4px; }
     #input { flex: 1; padding: 6px 10px; border-radius: 4px; border: 1px solid var(--vscode-input-border); background: var(--vscode-input-background); color: var(--vscode-input-foreground); font-size: 0.95em; }
-    #sendBtn, #clearBtn { background: var(--vscode-button-background); color: var(--vscode-button-foreground); border: none; border-radius: 4px; padding: 6px 12px; cursor: pointer; font-size: 0.9em; }
-    #sendBtn:hover, #clearBtn:hover { background: var(--vscode-button-hoverBackground); }
+    #sendBtn, #stopBtn, #clearBtn { background: var(--vscode-button-background); color: var(--vscode-button-foreground); border: none; border-radius: 4px; padding: 6px 12px; cursor: pointer; font-size: 0.9em; }
+    #sendBtn:hover, #stopBtn:hover, #clearBtn:hover { background: var(--vscode-button-hoverBackground); }
     #clearBtn { background: none; color: var(--vscode-textLink-foreground); padding: 6px 8px; }
 </style>
 </head>
 <body>
     <div id="messages">${this.renderMessages()}</div>
     <div id="input-area">
-        <input id="input" type="text" placeholder="Ask about your notes..." />
-        <button id="sendBtn">Send</button>
+        <input id="input" type="text" placeholder="${this.pending ? 'Answering...' : 'Ask about your notes...'}"${this.pending ? ' disabled' : ''} />
+        <button id="sendBtn"${this.pending ? ' style="display:none;"' : ''}>Send</button>
+        <button id="stopBtn"${this.pending ? '' : ' style="display:none;"'}>Stop</button>
         <button id="clearBtn">Clear</button>
     </div>
     <script>
@@ -136,6 +219,9 @@ Answer the user's latest question based on the notes above.`;
         document.getElementById('input').addEventListener('keydown', function(e) {
             if (e.key === 'Enter') { send(); }
         });
+        document.getElementById('stopBtn').addEventListener('click', function() {
+            vscode.postMessage({ command: 'stop' });
+        });
         document.getElementById('clearBtn').addEventListener('click', function() {
             vscode.postMessage({ command: 'clear' });
         });
@@ -143,7 +229,7 @@ Answer the user's latest question based on the notes above.`;
         function send() {
             const input = document.getElementById('input');
             const text = input.value.trim();
-            if (!text) { return; }
+            if (!text || input.disabled) { return; }
             input.value = '';
             vscode.postMessage({ command: 'sendMessage', text: text });
         }
@@ -154,9 +240,27 @@ Answer the user's latest question based on the notes above.`;
             });
         });
 
+        document.querySelectorAll('.source').forEach(function(el) {
+            el.addEventListener('click', function() {
+                vscode.postMessage({ command: 'openNote', path: el.getAttribute('data-path'), line: Number(el.getAttribute('data-line')) });
+            });
+        });
+
         // Scroll to bottom
         const msgs = document.getElementById('messages');
         msgs.scrollTop = msgs.scrollHeight;
+
+        // Append streamed tokens to the answer being generated
+        window.addEventListener('message', function(event) {
+            const message = event.data;
+            if (message.command === 'appendToken') {
+                const streaming = document.querySelector('#streaming .msg-body');
+                if (streaming) {
+                    streaming.textContent += message.text;
+                    msgs.scrollTop = msgs.scrollHeight;
+                }
+            }
+        });
     </script>
 </body>
 </html>`;
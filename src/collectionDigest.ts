@@ -0,0 +1,181 @@
+import * as vscode from 'vscode';
+import { chatCompletionWithRetry } from './ai';
+import { renderPrompt } from './prompts';
+import { getNoteIndex, IndexedNote } from './noteIndex';
+import { frontmatterString } from './frontmatter';
+import { noteDate, isoDate } from './noteNaming';
+import { Collection, runCollection, describeCollection, markdownLinkTarget } from './smartCollections';
+
+/**
+ * A collection written up as one markdown note: its notes grouped by tag or
+ * by day, each with its summary and open action items, optionally opened by
+ * an AI-written overview.
+ */
+
+export type DigestGrouping = 'tag' | 'date';
+
+export interface DigestNote {
+    filePath: string;
+    title: string;
+    tags: string[];
+    date: Date | null;
+    /** The `summary` frontmatter, else the start of the first paragraph. */
+    summary: string | null;
+    /** Unchecked `- [ ]` task items. */
+    actionItems: string[];
+}
+
+export interface DigestGroup {
+    heading: string;
+    notes: DigestNote[];
+}
+
+export interface DigestOptions {
+    groupBy: DigestGrouping;
+    overview: boolean;
+}
+
+/** Longest fallback summary taken from a note's text. */
+const SNIPPET_CHARS = 200;
+
+/**
+ * The text of every unchecked task item (`- [ ] ...`, `* [ ] ...`,
+ * `1. [ ] ...`) in `body`, in order.
+ */
+export function openActionItems(body: string): string[] {
+    const items: string[] = [];
+    for (const line of body.split('\n')) {
+        const match = line.match(/^\s*(?:[-*+]|\d+[.)])\s+\[ \]\s+(.+)$/);
+        if (match) { items.push(match[1].trim()); }
+    }
+    return items;
+}
+
+export function toDigestNote(note: IndexedNote): DigestNote {
+    return {
+        filePath: note.filePath,
+        title: note.title,
+        tags: note.tags,
+        date: noteDate(note.frontmatter, note.filePath),
+        summary: frontmatterString(note.frontmatter, 'summary') ?? firstParagraph(note.body),
+        actionItems: openActionItems(note.body),
+    };
+}
+
+function firstParagraph(body: string): string | null {
+    const paragraph = body.split(/\n\s*\n/)
+        .map(block => block.trim())
+        .find(block => block.length > 0 && !/^(#|[-*+]\s|\d+[.)]\s|```|>)/.test(block));
+    if (!paragraph) { return null; }
+    const text = paragraph.replace(/\s+/g, ' ');
+    return text.length > SNIPPET_CHARS ? text.slice(0, SNIPPET_CHARS).trimEnd() + '…' : text;
+}
+
+/**
+ * Groups notes, keeping their order within each group. By tag, a note is
+ * listed under each of its tags, the largest groups first, with `Untagged`
+ * last. By date, notes are grouped per day, newest first, with `Undated`
+ * last.
+ */
+export function groupDigestNotes(notes: DigestNote[], groupBy: DigestGrouping): DigestGroup[] {
+    const groups = new Map<string, DigestNote[]>();
+    const add = (heading: string, note: DigestNote) => {
+        const list = groups.get(heading) ?? [];
+        list.push(note);
+        groups.set(heading, list);
+    };
+    for (const note of notes) {
+        if (groupBy === 'date') {
+            add(note.date ? isoDate(note.date) : '', note);
+        } else if (note.tags.length === 0) {
+            add('', note);
+        } else {
+            note.tags.forEach(tag => add(tag, note));
+        }
+    }
+    const order = groupBy === 'date'
+        ? (a: [string, DigestNote[]], b: [string, DigestNote[]]) => b[0].localeCompare(a[0])
+        : (a: [string, DigestNote[]], b: [string, DigestNote[]]) => b[1].length - a[1].length || a[0].localeCompare(b[0]);
+    const sorted = [...groups.entries()].filter(([heading]) => heading !== '').sort(order);
+    const rest = groups.get('');
+    return [
+        ...sorted.map(([heading, list]) => ({ heading, notes: list })),
+        ...(rest ? [{ heading: groupBy === 'date' ? 'Undated' : 'Untagged', notes: rest }] : []),
+    ];
+}
+
+/**
+ * The digest note. Links are relative to `fromDir`, where it will be saved.
+ */
+export function renderDigest(collection: Collection, groups: DigestGroup[], options: { date: Date; fromDir: string; overview?: string }): string {
+    const count = new Set(groups.flatMap(g => g.notes.map(n => n.filePath))).size;
+    const description = describeCollection(collection);
+    const lines = [
+        '---',
+        `created: ${isoDate(options.date)}`,
+        '---',
+        `# ${collection.name} — ${isoDate(options.date)}`,
+        '',
+        `> ${count} note${count === 1 ? '' : 's'}${description ? ` · ${description}` : ''}`,
+        '',
+    ];
+    if (options.overview) {
+        lines.push('## Overview', '', options.overview.trim(), '');
+    }
+    if (groups.length === 0) {
+        lines.push('No notes match this collection.', '');
+    }
+    for (const group of groups) {
+        lines.push(`## ${group.heading}`, '');
+        for (const note of group.notes) {
+            lines.push(`### [${note.title}](${markdownLinkTarget(options.fromDir, note.filePath)})`, '');
+            if (note.summary) { lines.push(note.summary, ''); }
+            if (note.actionItems.length > 0) {
+                lines.push('Open items:', '', ...note.actionItems.map(item => `- ${item}`), '');
+            }
+        }
+    }
+    return lines.join('\n');
+}
+
+/**
+ * Runs the collection and writes its digest, asking the model for an
+ * overview when `options.overview` is set. A failed overview is left out
+ * rather than failing the digest; `warnings` says so.
+ */
+export async function buildDigest(
+    collection: Collection,
+    workspaceRoot: string,
+    options: DigestOptions & { date: Date; fromDir: string },
+    token?: vscode.CancellationToken
+): Promise<{ markdown: string; warnings: string[] }> {
+    const filePaths = await runCollection(collection, workspaceRoot);
+    const index = getNoteIndex(workspaceRoot);
+    const notes = filePaths
+        .map(filePath => index.get(filePath))
+        .filter((n): n is IndexedNote => n !== undefined)
+        .map(toDigestNote);
+    const groups = groupDigestNotes(notes, options.groupBy);
+
+    const warnings: string[] = [];
+    let overview: string | undefined;
+    if (options.overview && notes.length > 0) {
+        try {
+            overview = await writeOverview(collection, notes, workspaceRoot, token);
+        } catch (err: any) {
+            if (token?.isCancellationRequested) { throw err; }
+            warnings.push(`The AI overview was left out: ${err.message}`);
+        }
+    }
+    return { markdown: renderDigest(collection, groups, { date: options.date, fromDir: options.fromDir, overview }), warnings };
+}
+
+async function writeOverview(collection: Collection, notes: DigestNote[], workspaceRoot: string, token?: vscode.CancellationToken): Promise<string> {
+    const noteList = notes.map((n, i) => {
+        const items = n.actionItems.length > 0 ? `\n   Open items: ${n.actionItems.join('; ')}` : '';
+        const date = n.date ? ` (${isoDate(n.date)})` : '';
+        return `${i + 1}. ${n.title}${date} — ${n.summary ?? 'no summary'}${items}`;
+    }).join('\n');
+    const prompt = await renderPrompt('digest-overview', { collection: collection.name, notes: noteList }, workspaceRoot);
+    return (await chatCompletionWithRetry(prompt, { token, feature: 'digest' })).trim();
+}
@@ -0,0 +1,274 @@
+import * as vscode from 'vscode';
+import * as fsp from 'fs/promises';
+import * as path from 'path';
+import { VaultManager, Vault } from './vaults';
+import {
+    Collection, NoteForFilter, loadCollections, saveCollections, runCollection, filterCollection,
+    gatherNotesForFilter, filterUsesBacklinks,
+    describeCollection, uniqueCollectionName, collectionToMarkdown,
+} from './smartCollections';
+import { fileNamePattern, renderFileName, uniqueNotePath } from './noteNaming';
+
+/**
+ * The Collections view: the saved collections of the selected vault, each
+ * with its notes beneath it. A collection's notes are worked out when it is
+ * first expanded. Collections without a query are offline and re-run as
+ * notes change; a query ranking (which may call the model) is kept until
+ * Refresh, dropping notes that stop passing the filters in the meantime.
+ */
+
+export type CollectionsTreeNode =
+    | { kind: 'collection'; vault: Vault; collection: Collection }
+    | { kind: 'note'; filePath: string }
+    | { kind: 'message'; text: string; error: boolean };
+
+export interface CollectionMembers {
+    filePaths: string[];
+    error?: string;
+}
+
+/** Waits for a burst of file events to settle before re-running collections. */
+const UPDATE_DELAY_MS = 500;
+
+/**
+ * Zero-based line of the entry named `name` in the text of
+ * `collections.json`, or 0 when it is not found.
+ */
+export function collectionLine(json: string, name: string): number {
+    const escaped = JSON.stringify(name).replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const match = new RegExp(`"name"\\s*:\\s*${escaped}`).exec(json);
+    return match ? json.slice(0, match.index).split('\n').length - 1 : 0;
+}
+
+/**
+ * Runs a collection for the tree. With `previous` results, a query collection
+ * is not searched again: it keeps its ranking and only drops notes that no
+ * longer pass its filters, or keeps its error until Refresh. `notes` is a
+ * snapshot shared by the collections evaluated together.
+ */
+export async function evaluateCollection(collection: Collection, rootDir: string, previous?: CollectionMembers, notes?: NoteForFilter[]): Promise<CollectionMembers> {
+    try {
+        if (collection.query && previous) {
+            if (previous.error) { return previous; }
+            const passing = new Set((await filterCollection(collection, rootDir, notes)).map(n => n.filePath));
+            return { filePaths: previous.filePaths.filter(filePath => passing.has(filePath)) };
+        }
+        return { filePaths: await runCollection(collection, rootDir, notes) };
+    } catch (err: any) {
+        return { filePaths: [], error: err.message };
+    }
+}
+
+/**
+ * `collections` with a copy of the entry named `name` right after it, named
+ * `<name> copy` (numbered if taken), or undefined when there is no such entry.
+ */
+export function duplicateCollection(collections: Collection[], name: string): Collection[] | undefined {
+    const at = collections.findIndex(c => c.name === name);
+    if (at < 0) { return undefined; }
+    const copy: Collection = {
+        ...JSON.parse(JSON.stringify(collections[at])),
+        name: uniqueCollectionName(collections, `${name} copy`),
+    };
+    return [...collections.slice(0, at + 1), copy, ...collections.slice(at + 1)];
+}
+
+export function removeCollection(collections: Collection[], name: string): Collection[] {
+    return collections.filter(c => c.name !== name);
+}
+
+export class CollectionsTreeProvider implements vscode.TreeDataProvider<CollectionsTreeNode>, vscode.Disposable {
+    public static readonly viewType = 'aiNotesCollectionsView';
+    private changeEmitter = new vscode.EventEmitter<CollectionsTreeNode | undefined>();
+    readonly onDidChangeTreeData = this.changeEmitter.event;
+    private disposables: vscode.Disposable[] = [];
+    private view?: vscode.TreeView<CollectionsTreeNode>;
+    private watcher?: vscode.FileSystemWatcher;
+    private vault?: Vault;
+    private collections?: Collection[];
+    /** Keyed by collection name; only collections that have been expanded. */
+    private members: Map<string, CollectionMembers> = new Map();
+    private updateTimer?: NodeJS.Timeout;
+
+    constructor(private vaults: VaultManager) {}
+
+    initialize(view: vscode.TreeView<CollectionsTreeNode>): void {
+        this.view = view;
+        this.vaults.onDidChangeSelection(() => this.reload(), null, this.disposables);
+        this.vaults.onDidChangeNotes(vault => {
+            if (vault.rootDir === this.vault?.rootDir) { this.scheduleUpdate(); }
+        }, null, this.disposables);
+        this.reload();
+    }
+
+    /** Re-reads `collections.json` and forgets every result, query rankings included. */
+    reload(): void {
+        const vault = this.vaults.selected;
+        if (vault?.rootDir !== this.vault?.rootDir) {
+            this.watcher?.dispose();
+            this.watcher = undefined;
+            if (vault) {
+                this.watcher = vscode.workspace.createFileSystemWatcher(
+                    new vscode.RelativePattern(vault.rootDir, '.ai-notes/collections.json'));
+                this.watcher.onDidChange(() => this.reload());
+                this.watcher.onDidCreate(() => this.reload());
+                this.watcher.onDidDelete(() => this.reload());
+            }
+        }
+        this.vault = vault;
+        this.collections = undefined;
+        this.members.clear();
+        if (this.view) {
+            this.view.description = vault && this.vaults.vaults().length > 1 ? vault.name : undefined;
+        }
+        this.changeEmitter.fire(undefined);
+    }
+
+    getTreeItem(node: CollectionsTreeNode): vscode.TreeItem {
+        if (node.kind === 'collection') {
+            const item = new vscode.TreeItem(node.collection.name, vscode.TreeItemCollapsibleState.Collapsed);
+            const members = this.members.get(node.collection.name);
+            const description = describeCollection(node.collection);
+            item.id = `${node.vault.rootDir}\0${node.collection.name}`;
+            item.description = members && !members.error
+                ? `${members.filePaths.length} note${members.filePaths.length === 1 ? '' : 's'}`
+                : description;
+            item.tooltip = description || 'Every note';
+            item.iconPath = new vscode.ThemeIcon(node.collection.query ? 'search' : 'filter');
+            item.contextValue = 'aiNotesCollection';
+            return item;
+        }
+        if (node.kind === 'note') {
+            const item = new vscode.TreeItem(path.basename(node.filePath, '.md'));
+            item.resourceUri = vscode.Uri.file(node.filePath);
+            item.description = this.vault ? path.relative(this.vault.rootDir, path.dirname(node.filePath)) : undefined;
+            item.command = { command: 'vscode.open', title: 'Open Note', arguments: [vscode.Uri.file(node.filePath)] };
+            item.contextValue = 'aiNotesCollectionNote';
+            return item;
+        }
+        const item = new vscode.TreeItem(node.text);
+        item.iconPath = node.error ? new vscode.ThemeIcon('error') : undefined;
+        return item;
+    }
+
+    async getChildren(node?: CollectionsTreeNode): Promise<CollectionsTreeNode[]> {
+        const vault = this.vault;
+        if (!vault) { return []; }
+        if (!node) {
+            this.collections ??= await loadCollections(vault.rootDir);
+            return this.collections.map(collection => ({ kind: 'collection', vault, collection }));
+        }
+        if (node.kind !== 'collection') { return []; }
+
+        let members = this.members.get(node.collection.name);
+        if (!members) {
+            members = await evaluateCollection(node.collection, vault.rootDir);
+            if (this.vault !== vault) { return []; }
+            this.members.set(node.collection.name, members);
+            // Shows the note count next to the collection name.
+            this.changeEmitter.fire(undefined);
+        }
+        if (members.error) {
+            return [{ kind: 'message', text: members.error, error: true }];
+        }
+        if (members.filePaths.length === 0) {
+            return [{ kind: 'message', text: 'No notes match this collection.', error: false }];
+        }
+        return members.filePaths.map(filePath => ({ kind: 'note', filePath }));
+    }
+
+    /**
+     * Opens `collections.json` at the collection's entry.
+     */
+    async edit(node: CollectionsTreeNode): Promise<void> {
+        if (node.kind !== 'collection') { return; }
+        const filePath = path.join(node.vault.rootDir, '.ai-notes', 'collections.json');
+        const doc = await vscode.workspace.openTextDocument(filePath);
+        const line = collectionLine(doc.getText(), node.collection.name);
+        const range = doc.lineAt(line).range;
+        await vscode.window.showTextDocument(doc, { selection: range });
+    }
+
+    async duplicate(node: CollectionsTreeNode): Promise<void> {
+        if (node.kind !== 'collection') { return; }
+        const collections = duplicateCollection(await loadCollections(node.vault.rootDir), node.collection.name);
+        if (!collections) { return; }
+        await saveCollections(node.vault.rootDir, collections);
+        this.reload();
+    }
+
+    async delete(node: CollectionsTreeNode): Promise<void> {
+        if (node.kind !== 'collection') { return; }
+        const confirm = await vscode.window.showWarningMessage(
+            `Delete the collection "${node.collection.name}"? Its notes are not touched.`,
+            { modal: true },
+            'Delete'
+        );
+        if (confirm !== 'Delete') { return; }
+        const collections = await loadCollections(node.vault.rootDir);
+        await saveCollections(node.vault.rootDir, removeCollection(collections, node.collection.name));
+        this.reload();
+    }
+
+    /**
+     * Writes the collection's notes, as links, to a new note in the vault root.
+     */
+    async export(node: CollectionsTreeNode): Promise<void> {
+        if (node.kind !== 'collection') { return; }
+        const { vault, collection } = node;
+        let filePaths: string[];
+        try {
+            filePaths = await vscode.window.withProgress(
+                { location: vscode.ProgressLocation.Notification, title: `Running "${collection.name}"...` },
+                () => runCollection(collection, vault.rootDir)
+            );
+        } catch (err: any) {
+            vscode.window.showErrorMessage(`Exporting "${collection.name}" failed: ${err.message}`);
+            return;
+        }
+        const date = new Date();
+        try {
+            const outputPath = uniqueNotePath(vault.rootDir, renderFileName(fileNamePattern(), { name: collection.name, date }));
+            await fsp.writeFile(outputPath, collectionToMarkdown(collection, filePaths, vault.rootDir, date), 'utf8');
+            await vscode.window.showTextDocument(vscode.Uri.file(outputPath));
+        } catch (err: any) {
+            vscode.window.showErrorMessage(`Exporting "${collection.name}" failed: ${err.message}`);
+        }
+    }
+
+    private scheduleUpdate(): void {
+        if (this.updateTimer) { clearTimeout(this.updateTimer); }
+        this.updateTimer = setTimeout(() => {
+            this.updateTimer = undefined;
+            this.update().catch(() => {});
+        }, UPDATE_DELAY_MS);
+    }
+
+    /**
+     * Re-filters the expanded collections after notes changed, from one
+     * snapshot of the vault. Query rankings are not searched again.
+     */
+    private async update(): Promise<void> {
+        const vault = this.vault;
+        if (!vault || !this.collections) { return; }
+        const expanded = this.collections.filter(c => this.members.has(c.name));
+        if (expanded.length === 0) { return; }
+        const notes = await gatherNotesForFilter(vault.rootDir, expanded.some(c => filterUsesBacklinks(c.filter)));
+        if (this.vault !== vault) { return; }
+        for (const collection of expanded) {
+            const previous = this.members.get(collection.name);
+            if (!previous) { continue; }
+            const members = await evaluateCollection(collection, vault.rootDir, previous, notes);
+            if (this.vault !== vault) { return; }
+            this.members.set(collection.name, members);
+        }
+        this.changeEmitter.fire(undefined);
+    }
+
+    dispose(): void {
+        if (this.updateTimer) { clearTimeout(this.updateTimer); }
+        this.watcher?.dispose();
+        this.disposables.forEach(d => d.dispose());
+        this.changeEmitter.dispose();
+    }
+}
@@ -0,0 +1,99 @@
+import * as vscode from 'vscode';
+
+/**
+ * Provider credentials kept in VS Code SecretStorage. Each id matches the name
+ * of the (deprecated) plaintext setting it replaces, so old values can be migrated.
+ */
+export type CredentialId = 'aiCoreServiceKey' | 'openAICompatibleApiKey';
+
+export interface CredentialInfo {
+    id: CredentialId;
+    provider: string;
+    label: string;
+    placeholder: string;
+}
+
+export const CREDENTIALS: CredentialInfo[] = [
+    {
+        id: 'aiCoreServiceKey',
+        provider: 'sap-ai-core',
+        label: 'SAP AI Core service key',
+        placeholder: 'Paste the service key JSON ({"clientid": ..., "clientsecret": ..., "url": ..., "serviceurls": {...}})',
+    },
+    {
+        id: 'openAICompatibleApiKey',
+        provider: 'openai-compatible',
+        label: 'OpenAI-compatible API key',
+        placeholder: 'Bearer token for the OpenAI-compatible endpoint',
+    },
+];
+
+let secretStorage: vscode.SecretStorage | undefined;
+
+function secretKey(id: CredentialId): string {
+    return `ai-notes.${id}`;
+}
+
+/**
+ * Must be called once on activation before any provider asks for a credential.
+ */
+export function initCredentials(secrets: vscode.SecretStorage): void {
+    secretStorage = secrets;
+}
+
+export async function getCredential(id: CredentialId): Promise<string | undefined> {
+    if (!secretStorage) { return undefined; }
+    const value = await secretStorage.get(secretKey(id));
+    return value && value.trim().length > 0 ? value : undefined;
+}
+
+export async function setCredential(id: CredentialId, value: string): Promise<void> {
+    if (!secretStorage) { throw new Error('Secret storage is not available.'); }
+    await secretStorage.store(secretKey(id), value);
+}
+
+export async function clearCredential(id: CredentialId): Promise<void> {
+    if (!secretStorage) { throw new Error('Secret storage is not available.'); }
+    await secretStorage.delete(secretKey(id));
+}
+
+/**
+ * Moves credentials still present in plaintext settings (user, workspace or
+ * the settings of any workspace folder) into SecretStorage and removes them
+ * from the settings files. An existing secret wins over a plaintext value,
+ * and folder values win over workspace and user ones. Returns the labels of the
+ * credentials that were migrated.
+ */
+export async function migratePlaintextCredentials(): Promise<string[]> {
+    const migrated: string[] = [];
+    const config = vscode.workspace.getConfiguration('ai-notes');
+    // Folder values are only visible through a configuration scoped to that folder.
+    const folderConfigs = (vscode.workspace.workspaceFolders ?? []).map(folder => vscode.workspace.getConfiguration('ai-notes', folder.uri));
+    for (const credential of CREDENTIALS) {
+        const scopes: Array<{ value: string | undefined; config: vscode.WorkspaceConfiguration; target: vscode.ConfigurationTarget }> = [
+            ...folderConfigs.map(folderConfig => ({
+                value: folderConfig.inspect<string>(credential.id)?.workspaceFolderValue,
+                config: folderConfig,
+                target: vscode.ConfigurationTarget.WorkspaceFolder,
+            })),
+            { value: config.inspect<string>(credential.id)?.workspaceValue, config, target: vscode.ConfigurationTarget.Workspace },
+            { value: config.inspect<string>(credential.id)?.globalValue, config, target: vscode.ConfigurationTarget.Global },
+        ];
+        const plaintext = scopes.find(({ value }) => value && value.trim().length > 0)?.value;
+        if (!plaintext) { continue; }
+
+        if (!(await getCredential(credential.id))) {
+            await setCredential(credential.id, plaintext);
+        }
+        for (const scope of scopes) {
+            if (scope.value === undefined) { continue; }
+            try {
+                await scope.config.update(credential.id, undefined, scope.target);
+            } catch (err: any) {
+                console.warn(`Could not remove plaintext ${credential.id} from settings: ${err.message}`);
+            }
+        }
+        migrated.push(credential.label);
+    }
+    return migrated;
+}
@@ -0,0 +1,201 @@
+import * as vscode from 'vscode';
+import { IndexedNote } from './noteIndex';
+import { getCredential } from './credentials';
+import { openAICompatibleEmbeddings } from './openai-compatible';
+
+/**
+ * Embedding providers and the pieces of a note that get embedded. A provider
+ * turns text into vectors; which one is used comes from
+ * `ai-notes.embeddingProvider`. `none` (the default) turns every
+ * embedding-based feature off, and callers fall back to keyword search.
+ */
+
+export interface EmbeddingProvider {
+    /** Provider and model; stored vectors from another id are discarded. */
+    readonly id: string;
+    embed(texts: string[], token?: vscode.CancellationToken): Promise<number[][]>;
+}
+
+export type EmbeddingProviderFactory = () => Promise<EmbeddingProvider>;
+
+export interface NoteChunk {
+    filePath: string;
+    /** Text of the heading the chunk sits under; null before the first heading. */
+    heading: string | null;
+    /** Zero-based line in the file where the chunk starts. */
+    line: number;
+    text: string;
+}
+
+/** Longest chunk sent to the provider; longer sections are split at paragraphs. */
+export const MAX_CHUNK_CHARS = 2000;
+
+const factories: Map<string, EmbeddingProviderFactory> = new Map();
+let providerOverride: EmbeddingProvider | undefined;
+
+/**
+ * Makes a provider selectable as `ai-notes.embeddingProvider: <name>`.
+ */
+export function registerEmbeddingProvider(name: string, factory: EmbeddingProviderFactory): vscode.Disposable {
+    factories.set(name, factory);
+    return new vscode.Disposable(() => {
+        if (factories.get(name) === factory) { factories.delete(name); }
+    });
+}
+
+/**
+ * Uses `provider` regardless of settings; pass undefined to restore them. Used
+ * by the tests.
+ */
+export function setEmbeddingProviderOverride(provider: EmbeddingProvider | undefined): void {
+    providerOverride = provider;
+}
+
+export function embeddingsEnabled(): boolean {
+    if (providerOverride) { return true; }
+    const name = vscode.workspace.getConfiguration('ai-notes').get<string>('embeddingProvider', 'none');
+    return !!name && name !== 'none';
+}
+
+/**
+ * The configured provider, or undefined when embeddings are off.
+ */
+export async function getEmbeddingProvider(): Promise<EmbeddingProvider | undefined> {
+    if (providerOverride) { return providerOverride; }
+    const name = vscode.workspace.getConfiguration('ai-notes').get<string>('embeddingProvider', 'none');
+    if (!name || name === 'none') { return undefined; }
+    const factory = factories.get(name);
+    if (!factory) {
+        throw new Error(`Unknown embedding provider: ${name}`);
+    }
+    return factory();
+}
+
+registerEmbeddingProvider('openai-compatible', async () => {
+    const config = vscode.workspace.getConfiguration('ai-notes');
+    const baseUrl = config.get<string>('embeddingBaseUrl') || config.get<string>('openAICompatibleBaseUrl') || 'http://localhost:11434/v1';
+    const model = config.get<string>('embeddingModel') || 'nomic-embed-text';
+    const apiKey = await getCredential('openAICompatibleApiKey');
+    return {
+        id: `openai-compatible:${model}`,
+        async embed(texts, token) {
+            const controller = new AbortController();
+            const listener = token?.onCancellationRequested(() => controller.abort());
+            try {
+                return await openAICompatibleEmbeddings(texts, { baseUrl, model, apiKey }, controller.signal);
+            } catch (err) {
+                if (token?.isCancellationRequested) { throw new vscode.CancellationError(); }
+                throw err;
+            } finally {
+                listener?.dispose();
+            }
+        },
+    };
+});
+
+/**
+ * Splits a note into one chunk per heading section. Each chunk starts with the
+ * note title and heading so it still makes sense on its own; sections longer
+ * than MAX_CHUNK_CHARS are split at blank lines, and where they must, within
+ * a paragraph.
+ */
+export function chunkNote(note: IndexedNote): NoteChunk[] {
+    const lines = note.body.split('\n');
+    const starts = note.headings
+        .map(h => ({ heading: h.text, index: h.line - note.bodyLine }))
+        .filter(s => s.index >= 0 && s.index < lines.length);
+    const sections: Array<{ heading: string | null; index: number }> = [];
+    if (starts.length === 0 || starts[0].index > 0) {
+        sections.push({ heading: null, index: 0 });
+    }
+    sections.push(...starts);
+
+    const chunks: NoteChunk[] = [];
+    sections.forEach((section, i) => {
+        const end = i + 1 < sections.length ? sections[i + 1].index : lines.length;
+        for (const part of splitSection(lines, section.index, end)) {
+            const text = part.text.trim();
+            // A bare heading carries no content of its own.
+            if (text.length === 0 || (section.heading !== null && part.start === section.index && text.split('\n').length === 1)) {
+                continue;
+            }
+            const prefix = section.heading ? `${note.title} — ${section.heading}` : note.title;
+            chunks.push({
+                filePath: note.filePath,
+                heading: section.heading,
+                line: note.bodyLine + part.start,
+                text: `${prefix}\n\n${text}`,
+            });
+        }
+    });
+    return chunks;
+}
+
+/**
+ * Packs the paragraphs of a section into parts of at most MAX_CHUNK_CHARS,
+ * closing a part before the paragraph that would overflow it. A paragraph too
+ * long on its own is split at line breaks, and a line too long at the limit,
+ * so no text is left out.
+ */
+function splitSection(lines: string[], start: number, end: number): Array<{ start: number; text: string }> {
+    const parts: Array<{ start: number; text: string }> = [];
+    let current: { start: number; pieces: string[]; length: number } | undefined;
+    const flush = () => {
+        if (current) { parts.push({ start: current.start, text: current.pieces.join('\n') }); }
+        current = undefined;
+    };
+    const add = (pieceStart: number, piece: string) => {
+        if (current && current.length + 1 + piece.length > MAX_CHUNK_CHARS) { flush(); }
+        if (!current) {
+            current = { start: pieceStart, pieces: [piece], length: piece.length };
+        } else {
+            current.pieces.push(piece);
+            current.length += 1 + piece.length;
+        }
+    };
+    for (const paragraph of paragraphs(lines, start, end)) {
+        if (paragraph.text.length <= MAX_CHUNK_CHARS) {
+            add(paragraph.start, paragraph.text);
+            continue;
+        }
+        paragraph.text.split('\n').forEach((line, offset) => {
+            for (let i = 0; i === 0 || i < line.length; i += MAX_CHUNK_CHARS) {
+                add(paragraph.start + offset, line.slice(i, i + MAX_CHUNK_CHARS));
+            }
+        });
+    }
+    flush();
+    return parts;
+}
+
+/** Lines `start` to `end` as paragraphs, each with the blank lines after it. */
+function paragraphs(lines: string[], start: number, end: number): Array<{ start: number; text: string }> {
+    const result: Array<{ start: number; text: string }> = [];
+    let paragraphStart = start;
+    for (let i = start + 1; i <= end; i++) {
+        if (i === end || (lines[i].trim() !== '' && lines[i - 1].trim() === '')) {
+            result.push({ start: paragraphStart, text: lines.slice(paragraphStart, i).join('\n') });
+            paragraphStart = i;
+        }
+    }
+    return result;
+}
+
+/**
+ * `vector` scaled to length 1, so cosine similarity is a dot product.
+ */
+export function normalize(vector: ArrayLike<number>): Float32Array {
+    let norm = 0;
+    for (let i = 0; i < vector.length; i++) { norm += vector[i] * vector[i]; }
+    norm = Math.sqrt(norm) || 1;
+    const out = new Float32Array(vector.length);
+    for (let i = 0; i < vector.length; i++) { out[i] = vector[i] / norm; }
+    return out;
+}
+
+export function dot(a: Float32Array, b: Float32Array): number {
+    const n = Math.min(a.length, b.length);
+    let sum = 0;
+    for (let i = 0; i < n; i++) { sum += a[i] * b[i]; }
+    return sum;
+}
@@ -0,0 +1,59 @@
+import * as vscode from 'vscode';
+import * as fsp from 'fs/promises';
+import * as path from 'path';
+import ignore = require('ignore');
+
+/**
+ * Which files and folders of a vault are never indexed, listed as folders, or
+ * sent to a model. Rules use gitignore syntax and come from three places:
+ * the built-in defaults, the `ai-notes.exclude` setting, and `.ainotesignore`
+ * at the vault root.
+ */
+
+export const IGNORE_FILE = '.ainotesignore';
+
+/** Dot-folders (.git, .vscode, .ai-notes, .templates, ...), dependencies and the exported site. */
+export const BUILT_IN_EXCLUDES = ['.*', 'node_modules/', '_site/'];
+
+export class ExclusionRules {
+    private matcher: ignore.Ignore;
+
+    constructor(private rootDir: string, patterns: string[]) {
+        this.matcher = ignore().add(BUILT_IN_EXCLUDES).add(patterns);
+    }
+
+    /**
+     * Whether `fsPath` (absolute) is excluded, directly or through one of its
+     * folders. Paths outside the vault are never excluded here.
+     */
+    isExcluded(fsPath: string, isDirectory = false): boolean {
+        const rel = path.relative(this.rootDir, fsPath);
+        if (!rel || rel.startsWith('..') || path.isAbsolute(rel)) { return false; }
+        const posix = rel.split(path.sep).join('/');
+        return this.matcher.ignores(isDirectory ? `${posix}/` : posix);
+    }
+}
+
+/**
+ * Patterns from an ignore file: one per line, blank lines and `#` comments dropped.
+ */
+export function parseIgnoreFile(content: string): string[] {
+    return content.split(/\r?\n/)
+        .map(line => line.trimEnd())
+        .filter(line => line.trim().length > 0 && !line.startsWith('#'));
+}
+
+export function excludeSetting(): string[] {
+    const configured = vscode.workspace.getConfiguration('ai-notes').get<string[]>('exclude', []);
+    return Array.isArray(configured) ? configured.filter(p => typeof p === 'string' && p.trim().length > 0) : [];
+}
+
+export async function loadExclusionRules(rootDir: string): Promise<ExclusionRules> {
+    let filePatterns: string[] = [];
+    try {
+        filePatterns = parseIgnoreFile(await fsp.readFile(path.join(rootDir, IGNORE_FILE), 'utf8'));
+    } catch {
+        // No ignore file.
+    }
+    return new ExclusionRules(rootDir, [...excludeSetting(), ...filePatterns]);
+}
@@ -3,13 +3,17 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs';
-import { v4 as uuidv4 } from 'uuid'; // npm install uuid
+import * as os from 'os';
 import { getAllFolders } from './files';
-import { generateNoteMetadata } from './ai';
-import { upsertFrontmatterKey } from './frontmatter';
+import { generateNoteMetadata, CompletionOptions } from './ai';
+import { getAICache } from './aiCache';
+import { sharedStateFolderName } from './sharedState';
+import { getUsageLedger, formatUsageReport } from './usageLedger';
+import { PROMPTS, listPrompts, promptsDir, isPromptName } from './prompts';
+import { CREDENTIALS, CredentialInfo, initCredentials, setCredential, clearCredential, getCredential, migratePlaintextCredentials } from './credentials';
+import { upsertFrontmatterKeys, upsertFrontmatterKey, stripFrontmatter, setFrontmatterKeys, parseFrontmatter, splitFrontmatter, FrontmatterValue } from './frontmatter';
 import { NotesByTagWebviewProvider } from './notesByTagWebview';
 import { exportMarkdownToPdf } from './pdf-export';
-import { TagCache } from './tagCache';
 import { TagCompletionProvider } from './tagCompletionProvider';
 import { discoverTemplates, loadTemplateContent, expandTemplateVariables } from './templates';
 import { AutoClassifyWatcher } from './autoClassify';
@@ -17,38 +21,53 @@ import { BacklinksWebviewProvider } from './backlinksWebview';
 import { RelatedNotesWebviewProvider } from './relatedNotesWebview';
 import { ChatWebviewProvider } from './chatWebview';
 import { generateSummary } from './summaries';
-import { gatherNotes, searchNotes } from './semanticSearch';
-import { loadCollections, saveCollections, runCollection, Collection } from './smartCollections';
+import { gatherNotes, searchModeSetting, SEARCH_MODES } from './semanticSearch';
+import { getEmbeddingProvider } from './embeddings';
+import { getVectorIndex } from './vectorIndex';
+import { parseQuery } from './searchQuery';
+import { SearchResultsPanel } from './searchResultsWebview';
+import { loadCollections, saveCollections, runCollection, describeCollection, Collection } from './smartCollections';
+import { CollectionsTreeProvider, CollectionsTreeNode } from './collectionsTree';
+import { buildDigest, DigestGrouping } from './collectionDigest';
 import { mergeNotes } from './noteMerger';
 import { generateMOC } from './mocGenerator';
 import { GraphWebviewProvider } from './graphWebview';
 import { exportSite } from './siteExporter';
 import { restructureVault, disposeRestructureOutputChannel } from './restructureVault';
-
-// Helper to format a timestamp as dd-mm-yyyy
-function formatDateDDMMYYYY(timestamp: number): string {
-	const date = new Date(timestamp);
-	const dd = String(date.getDate()).padStart(2, '0');
-	const mm = String(date.getMonth() + 1).padStart(2, '0');
-	const yyyy = date.getFullYear();
-	return `${dd}-${mm}-${yyyy}`;
-}
+import { VaultManager, draftsDir } from './vaults';
+import { fileNamePattern, renderFileName, uniqueNotePath, isoDate, noteDate, stampUpdatedDate } from './noteNaming';
 
 // This method is called when your extension is activated
 // Your extension is activated the very first time the command is executed
 export function activate(context: vscode.ExtensionContext) {
 
+    initCredentials(context.secrets);
+    migrateCredentials();
+    // An added folder may bring plaintext keys in its own settings.
+    context.subscriptions.push(vscode.workspace.onDidChangeWorkspaceFolders(() => migrateCredentials()));
+
+    // One vault per workspace folder, each with its own watched note index
+    const vaults = new VaultManager();
+    context.subscriptions.push(vaults);
+    context.subscriptions.push(vscode.workspace.onDidChangeConfiguration(e => {
+        if (CREDENTIALS.some(c => e.affectsConfiguration(`ai-notes.${c.id}`))) {
+            migrateCredentials();
+        }
+        if (e.affectsConfiguration('ai-notes.exclude')) {
+            for (const vault of vaults.vaults()) {
+                vaults.index(vault).reloadExclusions().catch(() => {});
+            }
+        }
+    }));
+
 	// The command has been defined in the package.json file
 	const newNoteDisposable = vscode.commands.registerCommand('ai-notes.newNote', async () => {
-		const workspaceFolders = vscode.workspace.workspaceFolders;
-		if (!workspaceFolders) {
-			vscode.window.showErrorMessage('No workspace folder open.');
-			return;
-		}
-		const rootDir = workspaceFolders[0].uri.fsPath;
-		const draftsDir = path.join(rootDir, '_drafts');
-		if (!fs.existsSync(draftsDir)) {
-			fs.mkdirSync(draftsDir, { recursive: true });
+		const vault = await vaults.pick('Which vault should the new note go in?');
+		if (!vault) { return; }
+		const rootDir = vault.rootDir;
+		const vaultDraftsDir = draftsDir(vault);
+		if (!fs.existsSync(vaultDraftsDir)) {
+			fs.mkdirSync(vaultDraftsDir, { recursive: true });
 		}
 
 		// Template selection
@@ -73,9 +92,15 @@ export function activate(context: vscode.ExtensionContext) {
 			initialContent = expandTemplateVariables(raw);
 		}
 
-		const guid = uuidv4();
-		const fileName = `${formatDateDDMMYYYY(Date.now())}_${guid}.md`;
-		const filePath = path.join(draftsDir, fileName);
+		const now = new Date();
+		try {
+			initialContent = setFrontmatterKeys(initialContent, { created: isoDate(now), updated: isoDate(now) });
+		} catch {
+			// The template's frontmatter is not valid YAML; leave it for the user to fix.
+		}
+
+		const name = selected.detail ? selected.label : 'untitled';
+		const filePath = uniqueNotePath(vaultDraftsDir, renderFileName(fileNamePattern(), { name, date: now }));
 		const fileUri = vscode.Uri.file(filePath);
 
 		await vscode.workspace.fs.writeFile(fileUri, Buffer.from(initialContent, 'utf8'));
@@ -86,28 +111,34 @@ export function activate(context: vscode.ExtensionContext) {
 
 	const reclassifyNoteDisposable = vscode.commands.registerCommand('ai-notes.reclassifyNote', async () => {
 		const editor = vscode.window.activeTextEditor;
-		const workspaceFolders = vscode.workspace.workspaceFolders;
 
-		if (!workspaceFolders) {
-			vscode.window.showErrorMessage('No workspace folder open.');
+		if (!editor) {
+			vscode.window.showErrorMessage('No active editor found.');
 			return;
 		}
 
-		if (!editor) {
-			vscode.window.showErrorMessage('No active editor found.');
+		const vault = vaults.vaultFor(editor.document.uri.fsPath);
+		if (!vault) {
+			vscode.window.showErrorMessage('This note is not inside a workspace folder.');
 			return;
 		}
 
-		const rootDir = workspaceFolders[0].uri.fsPath;
+		const rootDir = vault.rootDir;
 		const doc = editor.document;
 		const content = doc.getText();
 
 		// remove yaml frontmatter if it exists
-		const yamlRegex = /^---\n(?:.*\n)*?---\n/;
-		const cleanedContent = content.replace(yamlRegex, '');
+		const cleanedContent = stripFrontmatter(content);
 
 		const existingFolders = await getAllFolders(rootDir, 3);
-		const metadata = await generateNoteMetadata(cleanedContent, existingFolders);
+		let metadata;
+		try {
+			// Reclassifying is an explicit request for a fresh suggestion.
+			metadata = await generateNoteMetadata(cleanedContent, existingFolders, rootDir, { bypassCache: true });
+		} catch (err: any) {
+			vscode.window.showErrorMessage(`AI categorization failed: ${err.message}`);
+			return;
+		}
 
 		if (!metadata || !metadata.tags || !metadata.name || !metadata.path) {
 			vscode.window.showErrorMessage('AI categorization failed, please try again.');
@@ -122,23 +153,24 @@ export function activate(context: vscode.ExtensionContext) {
 
 		const { tags, directory, name } = userMetadata;
 
-		// Update tags
-		await upsertFrontmatterKey(doc, 'tags', tags);
+		// Update tags and dates
+		const created = noteDate(parseFrontmatter(content).data, doc.uri.fsPath) ?? new Date();
+		await upsertFrontmatterKeys(doc, datedKeys(content, created, { tags }));
 
 		// Make sure the new directory exists
 		if (!fs.existsSync(directory)) {
 			fs.mkdirSync(directory, { recursive: true });
 		}
 
-		// Rename the file with the new name and current date
-		const formattedDate = formatDateDDMMYYYY(Date.now());
-		const newFileName = `${name}_${formattedDate}.md`;
-		const newFilePath = path.join(directory, newFileName);
+		// Rename the file after the configured pattern, keeping its creation date
+		const newFilePath = uniqueNotePath(directory, renderFileName(fileNamePattern(), { name, date: created }), doc.uri.fsPath);
 		const newFileUri = vscode.Uri.file(newFilePath);
-		await vscode.workspace.fs.rename(doc.uri, newFileUri, { overwrite: false });
+		if (newFilePath !== doc.uri.fsPath) {
+			await vscode.workspace.fs.rename(doc.uri, newFileUri, { overwrite: false });
+		}
 		await vscode.window.showTextDocument(newFileUri);
 
-		await removeEmptyDirsRecursively(path.dirname(doc.uri.fsPath));
+		await removeEmptyDirsRecursively(path.dirname(doc.uri.fsPath), rootDir);
 
 		return;
 	});
@@ -146,83 +178,109 @@ export function activate(context: vscode.ExtensionContext) {
 	context.subscriptions.push(newNoteDisposable);
 	context.subscriptions.push(reclassifyNoteDisposable);
 
-	// Register the test input webview view
-	const workspaceFolders = vscode.workspace.workspaceFolders;
-	if (workspaceFolders) {
-		const notesByTagProvider = new NotesByTagWebviewProvider(workspaceFolders[0].uri.fsPath);
-		notesByTagProvider.onBulkReclassify = (paths) => {
-			bulkReclassifyNotes(paths, workspaceFolders[0].uri.fsPath);
-		};
-		notesByTagProvider.onMergeNotes = async (paths) => {
-			try {
-				const outputPath = await mergeNotes(paths, workspaceFolders[0].uri.fsPath);
-				const uri = vscode.Uri.file(outputPath);
-				await vscode.window.showTextDocument(uri);
-				vscode.window.showInformationMessage(`Merged ${paths.length} notes into new draft.`);
-			} catch (err: any) {
-				if (err.message !== 'Merge cancelled by user.') {
-					vscode.window.showErrorMessage(`Merge failed: ${err.message}`);
-				}
-			}
-		};
-		context.subscriptions.push(
-			vscode.window.registerWebviewViewProvider(
-				NotesByTagWebviewProvider.viewType,
-				notesByTagProvider
-			)
-		);
-
-		// Tag autocomplete
-		const tagCache = new TagCache(workspaceFolders[0].uri.fsPath);
-		tagCache.initialize().catch(() => {});
-		context.subscriptions.push(tagCache);
-		context.subscriptions.push(
-			vscode.languages.registerCompletionItemProvider(
-				{ language: 'markdown', scheme: 'file' },
-				new TagCompletionProvider(tagCache),
-				',', ' '
-			)
-		);
-
-		// Auto-classify on save in _drafts/
-		const draftsDir = path.join(workspaceFolders[0].uri.fsPath, '_drafts');
-		const autoClassify = new AutoClassifyWatcher(draftsDir, async (doc) => {
-			await classifyAndMoveNote(doc, workspaceFolders[0].uri.fsPath);
-		});
-		autoClassify.start();
-		context.subscriptions.push(autoClassify);
-
-		// Backlinks panel
-		const backlinksProvider = new BacklinksWebviewProvider(workspaceFolders[0].uri.fsPath);
-		backlinksProvider.initialize().catch(() => {});
-		context.subscriptions.push(
-			vscode.window.registerWebviewViewProvider(
-				BacklinksWebviewProvider.viewType,
-				backlinksProvider
-			)
-		);
-		context.subscriptions.push(backlinksProvider);
-
-		// Related notes panel
-		const relatedNotesProvider = new RelatedNotesWebviewProvider(workspaceFolders[0].uri.fsPath, tagCache);
-		relatedNotesProvider.initialize();
-		context.subscriptions.push(
-			vscode.window.registerWebviewViewProvider(
-				RelatedNotesWebviewProvider.viewType,
-				relatedNotesProvider
-			)
-		);
-		context.subscriptions.push(relatedNotesProvider);
-
-		// AI Chat panel
-		const chatProvider = new ChatWebviewProvider(workspaceFolders[0].uri.fsPath);
-		context.subscriptions.push(
-			vscode.window.registerWebviewViewProvider(
-				ChatWebviewProvider.viewType,
-				chatProvider
-			)
-		);
-	}
+	const notesByTagProvider = new NotesByTagWebviewProvider(vaults);
+	notesByTagProvider.onBulkReclassify = (paths) => {
+		bulkReclassifyNotes(paths, vaults);
+	};
+	notesByTagProvider.onMergeNotes = async (paths) => {
+		const vault = paths.length > 0 ? vaults.vaultFor(paths[0]) : undefined;
+		if (vault) {
+			await mergeNotesWithProgress(paths, vault.rootDir);
+		}
+	};
+	context.subscriptions.push(
+		vscode.window.registerWebviewViewProvider(
+			NotesByTagWebviewProvider.viewType,
+			notesByTagProvider
+		)
+	);
+
+	// Tag autocomplete, from the vault of the note being edited
+	context.subscriptions.push(
+		vscode.languages.registerCompletionItemProvider(
+			{ language: 'markdown', scheme: 'file' },
+			new TagCompletionProvider(vaults),
+			',', ' '
+		)
+	);
+
+	// Auto-classify on save in each vault's _drafts/
+	const autoClassify = new AutoClassifyWatcher(() => vaults.vaults().map(draftsDir), async (doc) => {
+		const vault = vaults.vaultFor(doc.uri.fsPath);
+		if (!vault) { return; }
+		try {
+			await classifyAndMoveNote(doc, vault.rootDir);
+		} catch (err: any) {
+			vscode.window.showErrorMessage(`AI categorization failed: ${err.message}`);
+		}
+	});
+	autoClassify.start();
+	context.subscriptions.push(autoClassify);
+
+	// Keep `updated` current in notes that carry it
+	context.subscriptions.push(vscode.workspace.onWillSaveTextDocument(e => {
+		if (e.document.languageId !== 'markdown' || !vaults.vaultFor(e.document.uri.fsPath)) { return; }
+		const text = e.document.getText();
+		const stamped = stampUpdatedDate(text, new Date());
+		if (stamped !== null) {
+			// Replace only the frontmatter so the cursor and undo stack in the body are untouched.
+			const block = stamped.slice(0, stamped.length - splitFrontmatter(stamped).body.length);
+			const range = new vscode.Range(0, 0, splitFrontmatter(text).bodyLine, 0);
+			e.waitUntil(Promise.resolve([vscode.TextEdit.replace(range, block)]));
+		}
+	}));
+
+	// Backlinks panel
+	const backlinksProvider = new BacklinksWebviewProvider(vaults);
+	backlinksProvider.initialize().catch(() => {});
+	context.subscriptions.push(
+		vscode.window.registerWebviewViewProvider(
+			BacklinksWebviewProvider.viewType,
+			backlinksProvider
+		)
+	);
+	context.subscriptions.push(backlinksProvider);
+
+	// Related notes panel
+	const relatedNotesProvider = new RelatedNotesWebviewProvider(vaults);
+	relatedNotesProvider.initialize();
+	context.subscriptions.push(
+		vscode.window.registerWebviewViewProvider(
+			RelatedNotesWebviewProvider.viewType,
+			relatedNotesProvider
+		)
+	);
+	context.subscriptions.push(relatedNotesProvider);
+
+	// AI Chat panel, about the selected vault
+	const chatProvider = new ChatWebviewProvider(vaults.selected?.rootDir ?? '');
+	const showChatVault = () => {
+		const vault = vaults.selected;
+		if (vault) {
+			chatProvider.switchVault(vault.rootDir, vaults.vaults().length > 1 ? vault.name : undefined);
+		}
+	};
+	showChatVault();
+	context.subscriptions.push(vaults.onDidChangeSelection(showChatVault));
+	context.subscriptions.push(vscode.workspace.onDidChangeWorkspaceFolders(showChatVault));
+	context.subscriptions.push(
+		vscode.window.registerWebviewViewProvider(
+			ChatWebviewProvider.viewType,
+			chatProvider
+		)
+	);
+
+	const switchVaultDisposable = vscode.commands.registerCommand('ai-notes.switchVault', async () => {
+		if (vaults.vaults().length === 0) {
+			vscode.window.showErrorMessage('No workspace folder open.');
+			return;
+		}
+		const vault = await vaults.choose(undefined, 'Show which vault in the AI Notes views?');
+		if (vault) {
+			vaults.select(vault);
+		}
+	});
+	context.subscriptions.push(switchVaultDisposable);
 
 	// Register the export to PDF command
 	const exportToPdfDisposable = vscode.commands.registerCommand('ai-notes.exportToPdf', async () => {
@@ -257,9 +315,13 @@ export function activate(context: vscode.ExtensionContext) {
 		}
 
 		const doc = editor.document;
+		const vault = vaults.vaultFor(doc.uri.fsPath);
+		if (!vault) {
+			vscode.window.showErrorMessage('This note is not inside a workspace folder.');
+			return;
+		}
 		const content = doc.getText();
-		const yamlRegex = /^---\n(?:.*\n)*?---\n/;
-		const cleanedContent = content.replace(yamlRegex, '');
+		const cleanedContent = stripFrontmatter(content);
 
 		if (cleanedContent.trim().length === 0) {
 			vscode.window.showErrorMessage('Note has no content to summarize.');
@@ -267,8 +329,8 @@ export function activate(context: vscode.ExtensionContext) {
 		}
 
 		try {
-			const summary = await generateSummary(cleanedContent);
-			await upsertFrontmatterKey(doc, 'summary', `"${summary}"`);
+			const summary = await generateSummary(cleanedContent, vault.rootDir);
+			await upsertFrontmatterKey(doc, 'summary', summary);
 			vscode.window.showInformationMessage(`Summary generated: ${summary}`);
 		} catch (err: any) {
 			vscode.window.showErrorMessage(`Summary generation failed: ${err.message}`);
@@ -277,68 +339,70 @@ export function activate(context: vscode.ExtensionContext) {
 	context.subscriptions.push(generateSummaryDisposable);
 
 	// Semantic search command
+	const searchResults = new SearchResultsPanel(vaults, context.workspaceState);
+	context.subscriptions.push(searchResults);
 	const semanticSearchDisposable = vscode.commands.registerCommand('ai-notes.semanticSearch', async () => {
-		const workspaceFolders = vscode.workspace.workspaceFolders;
-		if (!workspaceFolders) {
-			vscode.window.showErrorMessage('No workspace folder open.');
-			return;
-		}
+		const vault = await vaults.pick('Search which vault?');
+		if (!vault) { return; }
+
+		const defaultMode = searchModeSetting();
+		const modes = [...SEARCH_MODES].sort((a, b) => Number(b.mode === defaultMode) - Number(a.mode === defaultMode));
+		const pickedMode = await vscode.window.showQuickPick(
+			modes.map(m => ({ label: m.label, description: m.description, mode: m.mode })),
+			{ placeHolder: 'Search mode' }
+		);
+		if (!pickedMode) { return; }
 
 		const query = await vscode.window.showInputBox({
 			prompt: 'What are you looking for?',
-			placeHolder: 'Search your notes by meaning...',
+			placeHolder: 'Words, "an exact phrase", tag:name, path:folder/, after:2026-01-01, status:open, OR, -word',
 		});
 		if (!query) { return; }
 
-		const rootDir = workspaceFolders[0].uri.fsPath;
-
-		const results = await vscode.window.withProgress(
-			{ location: vscode.ProgressLocation.Notification, title: 'Searching notes...' },
-			async () => {
-				const notes = await gatherNotes(rootDir);
-				return searchNotes(query, notes);
-			}
-		);
-
-		if (results.length === 0) {
-			vscode.window.showInformationMessage('No matching notes found.');
-			return;
-		}
-
-		const items = results.map(filePath => ({
-			label: path.basename(filePath),
-			description: path.relative(rootDir, filePath),
-			detail: filePath,
-		}));
-
-		const selected = await vscode.window.showQuickPick(items, {
-			placeHolder: `Found ${items.length} matching notes`,
-		});
-		if (selected) {
-			const uri = vscode.Uri.file(selected.detail!);
-			await vscode.window.showTextDocument(uri);
-		}
+		await searchResults.search(vault, query, pickedMode.mode);
 	});
 	context.subscriptions.push(semanticSearchDisposable);
 
+    // Embeddings index command
+    const updateEmbeddingsDisposable = vscode.commands.registerCommand('ai-notes.updateEmbeddings', async () => {
+        const vault = await vaults.pick('Update the embeddings of which vault?');
+        if (!vault) { return; }
+
+        try {
+            const provider = await getEmbeddingProvider();
+            if (!provider) {
+                vscode.window.showWarningMessage("No embedding provider is configured. Set 'ai-notes.embeddingProvider' first.");
+                return;
+            }
+            await vscode.window.withProgress(
+                { location: vscode.ProgressLocation.Notification, title: 'Updating embeddings', cancellable: true },
+                (progress, token) => {
+                    let reported = 0;
+                    return getVectorIndex(vaults.index(vault)).update(provider, token, (done, total) => {
+                        progress.report({ message: `${done} of ${total} chunks`, increment: ((done - reported) / total) * 100 });
+                        reported = done;
+                    });
+                }
+            );
+            vscode.window.showInformationMessage('Embeddings index is up to date.');
+        } catch (err: any) {
+            if (err instanceof vscode.CancellationError) { return; }
+            vscode.window.showErrorMessage(`Updating embeddings failed: ${err.message}`);
+        }
+    });
+    context.subscriptions.push(updateEmbeddingsDisposable);
+
     // Smart collections command
     const smartCollectionsDisposable = vscode.commands.registerCommand('ai-notes.smartCollections', async () => {
-        const workspaceFolders = vscode.workspace.workspaceFolders;
-        if (!workspaceFolders) {
-            vscode.window.showErrorMessage('No workspace folder open.');
-            return;
-        }
-        const rootDir = workspaceFolders[0].uri.fsPath;
+        const vault = await vaults.pick('Use the collections of which vault?');
+        if (!vault) { return; }
+        const rootDir = vault.rootDir;
 
         const collections = await loadCollections(rootDir);
         const items: vscode.QuickPickItem[] = [
             ...collections.map(c => ({
                 label: c.name,
-                description: [
-                    c.tags ? `tags: ${c.tags.join(', ')}` : '',
-                    c.dateRange ? `last ${c.dateRange} days` : '',
-                    c.query ? `query: "${c.query}"` : '',
-                ].filter(Boolean).join(' | '),
+                description: describeCollection(c),
             })),
             { label: '$(add) New Collection...', description: 'Create a new saved collection' },
             ...(collections.length > 0 ? [{ label: '$(trash) Delete Collection...', description: 'Remove a saved collection' }] : []),
@@ -350,36 +414,7 @@ export function activate(context: vscode.ExtensionContext) {
         if (!picked) { return; }
 
         if (picked.label === '$(add) New Collection...') {
-            const name = await vscode.window.showInputBox({ prompt: 'Collection name' });
-            if (!name) { return; }
-
-            const tagsInput = await vscode.window.showInputBox({
-                prompt: 'Filter by tags (comma-separated, leave empty to skip)',
-                placeHolder: 'meeting, team',
-            });
-            const tags = tagsInput ? tagsInput.split(',').map(t => t.trim()).filter(Boolean) : null;
-
-            const dateInput = await vscode.window.showInputBox({
-                prompt: 'Filter by date range (number of days, leave empty to skip)',
-                placeHolder: '14',
-            });
-            const dateRange = dateInput ? parseInt(dateInput) : null;
-
-            const query = await vscode.window.showInputBox({
-                prompt: 'Semantic query (leave empty to skip)',
-                placeHolder: 'authentication and security',
-            });
-
-            const newCollection: Collection = {
-                name,
-                tags: tags && tags.length > 0 ? tags : null,
-                dateRange: dateRange && !isNaN(dateRange) ? dateRange : null,
-                query: query || null,
-            };
-
-            collections.push(newCollection);
-            await saveCollections(rootDir, collections);
-            vscode.window.showInformationMessage(`Collection "${name}" created.`);
+            await promptNewCollection(rootDir);
             return;
         }
 
@@ -399,10 +434,16 @@ export function activate(context: vscode.ExtensionContext) {
         const collection = collections.find(c => c.name === picked.label);
         if (!collection) { return; }
 
-        const results = await vscode.window.withProgress(
-            { location: vscode.ProgressLocation.Notification, title: `Running "${collection.name}"...` },
-            () => runCollection(collection, rootDir)
-        );
+        let results: string[];
+        try {
+            results = await vscode.window.withProgress(
+                { location: vscode.ProgressLocation.Notification, title: `Running "${collection.name}"...` },
+                () => runCollection(collection, rootDir)
+            );
+        } catch (err: any) {
+            vscode.window.showErrorMessage(`Running "${collection.name}" failed: ${err.message}`);
+            return;
+        }
 
         if (results.length === 0) {
             vscode.window.showInformationMessage('No notes match this collection.');
@@ -425,14 +466,58 @@ export function activate(context: vscode.ExtensionContext) {
     });
     context.subscriptions.push(smartCollectionsDisposable);
 
-    // Merge notes command
-    const mergeNotesDisposable = vscode.commands.registerCommand('ai-notes.mergeNotes', async () => {
-        const workspaceFolders = vscode.workspace.workspaceFolders;
-        if (!workspaceFolders) {
-            vscode.window.showErrorMessage('No workspace folder open.');
+    // Collections view, for the selected vault
+    const collectionsProvider = new CollectionsTreeProvider(vaults);
+    const collectionsView = vscode.window.createTreeView(CollectionsTreeProvider.viewType, {
+        treeDataProvider: collectionsProvider,
+        showCollapseAll: true,
+    });
+    collectionsProvider.initialize(collectionsView);
+    context.subscriptions.push(collectionsView, collectionsProvider);
+    context.subscriptions.push(
+        vscode.commands.registerCommand('ai-notes.newCollection', async () => {
+            const vault = vaults.selected;
+            if (!vault) {
+                vscode.window.showErrorMessage('No workspace folder open.');
+                return;
+            }
+            await promptNewCollection(vault.rootDir);
+        }),
+        vscode.commands.registerCommand('ai-notes.refreshCollections', () => collectionsProvider.reload()),
+        vscode.commands.registerCommand('ai-notes.editCollection', (node: CollectionsTreeNode) => collectionsProvider.edit(node)),
+        vscode.commands.registerCommand('ai-notes.duplicateCollection', (node: CollectionsTreeNode) => collectionsProvider.duplicate(node)),
+        vscode.commands.registerCommand('ai-notes.deleteCollection', (node: CollectionsTreeNode) => collectionsProvider.delete(node)),
+        vscode.commands.registerCommand('ai-notes.exportCollection', (node: CollectionsTreeNode) => collectionsProvider.export(node)),
+    );
+
+    // Collection digest, from the Collections view or the command palette
+    const collectionDigestDisposable = vscode.commands.registerCommand('ai-notes.collectionDigest', async (node?: CollectionsTreeNode) => {
+        if (node?.kind === 'collection') {
+            await writeCollectionDigest(node.collection, node.vault.rootDir);
+            return;
+        }
+        const vault = await vaults.pick('Write a digest of a collection in which vault?');
+        if (!vault) { return; }
+        const collections = await loadCollections(vault.rootDir);
+        if (collections.length === 0) {
+            vscode.window.showInformationMessage('This vault has no collections yet.');
             return;
         }
-        const rootDir = workspaceFolders[0].uri.fsPath;
+        const picked = await vscode.window.showQuickPick(
+            collections.map(c => ({ label: c.name, description: describeCollection(c), collection: c })),
+            { placeHolder: 'Write a digest of which collection?' }
+        );
+        if (picked) {
+            await writeCollectionDigest(picked.collection, vault.rootDir);
+        }
+    });
+    context.subscriptions.push(collectionDigestDisposable);
+
+    // Merge notes command
+    const mergeNotesDisposable = vscode.commands.registerCommand('ai-notes.mergeNotes', async () => {
+        const vault = await vaults.pick('Merge notes from which vault?');
+        if (!vault) { return; }
+        const rootDir = vault.rootDir;
 
         const notes = await gatherNotes(rootDir);
         const items = notes.map(n => ({
@@ -451,54 +536,39 @@ export function activate(context: vscode.ExtensionContext) {
             return;
         }
 
-        try {
-            const outputPath = await vscode.window.withProgress(
-                { location: vscode.ProgressLocation.Notification, title: 'Merging notes...' },
-                () => mergeNotes(selected.map(s => s.detail!), rootDir)
-            );
-            const uri = vscode.Uri.file(outputPath);
-            await vscode.window.showTextDocument(uri);
-            vscode.window.showInformationMessage(`Merged ${selected.length} notes into new draft.`);
-        } catch (err: any) {
-            if (err.message !== 'Merge cancelled by user.') {
-                vscode.window.showErrorMessage(`Merge failed: ${err.message}`);
-            }
-        }
+        await mergeNotesWithProgress(selected.map(s => s.detail!), rootDir);
     });
     context.subscriptions.push(mergeNotesDisposable);
 
     // Generate MOC command
     const generateMOCDisposable = vscode.commands.registerCommand('ai-notes.generateMOC', async () => {
-        const workspaceFolders = vscode.workspace.workspaceFolders;
-        if (!workspaceFolders) {
-            vscode.window.showErrorMessage('No workspace folder open.');
-            return;
-        }
+        const vault = await vaults.pick('Generate a Map of Content for which vault?');
+        if (!vault) { return; }
 
         try {
             const indexPath = await vscode.window.withProgress(
-                { location: vscode.ProgressLocation.Notification, title: 'Generating Map of Content...' },
-                () => generateMOC(workspaceFolders[0].uri.fsPath)
+                { location: vscode.ProgressLocation.Notification, title: 'Generating Map of Content...', cancellable: true },
+                (_progress, token) => generateMOC(vault.rootDir, token)
             );
             const uri = vscode.Uri.file(indexPath);
             await vscode.window.showTextDocument(uri);
             vscode.window.showInformationMessage('Map of Content generated.');
         } catch (err: any) {
+            if (err instanceof vscode.CancellationError) { return; }
             vscode.window.showErrorMessage(`MOC generation failed: ${err.message}`);
         }
     });
     context.subscriptions.push(generateMOCDisposable);
 
     // Knowledge graph command
-    let graphProvider: GraphWebviewProvider | undefined;
+    const graphProviders: Map<string, GraphWebviewProvider> = new Map();
     const showGraphDisposable = vscode.commands.registerCommand('ai-notes.showGraph', async () => {
-        const workspaceFolders = vscode.workspace.workspaceFolders;
-        if (!workspaceFolders) {
-            vscode.window.showErrorMessage('No workspace folder open.');
-            return;
-        }
+        const vault = await vaults.pick('Show the graph of which vault?');
+        if (!vault) { return; }
+        let graphProvider = graphProviders.get(vault.rootDir);
         if (!graphProvider) {
-            graphProvider = new GraphWebviewProvider(workspaceFolders[0].uri.fsPath, context.extensionPath);
+            graphProvider = new GraphWebviewProvider(vault.rootDir, context.extensionPath);
+            graphProviders.set(vault.rootDir, graphProvider);
         }
         await graphProvider.show();
     });
@@ -506,16 +576,13 @@ export function activate(context: vscode.ExtensionContext) {
 
     // Export static site command
     const exportSiteDisposable = vscode.commands.registerCommand('ai-notes.exportSite', async () => {
-        const workspaceFolders = vscode.workspace.workspaceFolders;
-        if (!workspaceFolders) {
-            vscode.window.showErrorMessage('No workspace folder open.');
-            return;
-        }
+        const vault = await vaults.pick('Export which vault?');
+        if (!vault) { return; }
 
         try {
             const siteDir = await vscode.window.withProgress(
                 { location: vscode.ProgressLocation.Notification, title: 'Exporting static site...' },
-                () => exportSite(workspaceFolders[0].uri.fsPath, context.extensionPath)
+                () => exportSite(vault.rootDir, context.extensionPath)
             );
             const indexUri = vscode.Uri.file(path.join(siteDir, 'index.html'));
             await vscode.window.showTextDocument(indexUri);
@@ -528,22 +595,275 @@ export function activate(context: vscode.ExtensionContext) {
 
     // Restructure vault command
     const restructureVaultDisposable = vscode.commands.registerCommand('ai-notes.restructureVault', async () => {
-        const workspaceFolders = vscode.workspace.workspaceFolders;
-        if (!workspaceFolders) {
-            vscode.window.showErrorMessage('No workspace folder open.');
-            return;
-        }
+        const vault = await vaults.pick('Restructure which vault?');
+        if (!vault) { return; }
         try {
-            await restructureVault(workspaceFolders[0].uri.fsPath);
+            await restructureVault(vault.rootDir);
         } catch (err: any) {
             vscode.window.showErrorMessage(`Restructure failed: ${err.message}`);
         }
     });
     context.subscriptions.push(restructureVaultDisposable);
+
+    // Clear AI response cache command
+    const clearAICacheDisposable = vscode.commands.registerCommand('ai-notes.clearAICache', async () => {
+        const folder = sharedStateFolderName();
+        if (!folder) {
+            vscode.window.showInformationMessage('Open a workspace folder to use the AI cache.');
+            return;
+        }
+        const cache = getAICache();
+        if (!cache) {
+            vscode.window.showInformationMessage('The AI cache is disabled (ai-notes.cacheEnabled).');
+            return;
+        }
+        const removed = await cache.clear();
+        vscode.window.showInformationMessage(`Cleared ${removed} cached AI response${removed === 1 ? '' : 's'} from the cache all vaults share, in "${folder}".`);
+    });
+    context.subscriptions.push(clearAICacheDisposable);
+
+    const showUsageReportDisposable = vscode.commands.registerCommand('ai-notes.showUsageReport', async () => {
+        const ledger = getUsageLedger();
+        if (!ledger) {
+            vscode.window.showInformationMessage('Open a workspace folder to track AI usage. Usage of all vaults is recorded in the first folder.');
+            return;
+        }
+        const budget = vscode.workspace.getConfiguration('ai-notes').get<number>('dailyTokenBudget', 0);
+        const report = formatUsageReport(await ledger.read(), budget);
+        const doc = await vscode.workspace.openTextDocument({ content: report, language: 'markdown' });
+        await vscode.window.showTextDocument(doc);
+    });
+    context.subscriptions.push(showUsageReportDisposable);
+
+    const listPromptsDisposable = vscode.commands.registerCommand('ai-notes.listPrompts', async () => {
+        const vault = await vaults.pick('List the prompt overrides of which vault?');
+        if (!vault) { return; }
+        const rootDir = vault.rootDir;
+        const prompts = await listPrompts(rootDir);
+
+        const items = prompts.map(p => ({
+            label: p.overridePath ? `$(edit) ${p.name}` : p.name,
+            description: !p.known ? 'unused file' : p.overridePath ? 'overridden' : 'default',
+            detail: p.unknownVariables.length > 0
+                ? `${p.description} (unknown placeholders: ${p.unknownVariables.map(v => `{{${v}}}`).join(', ')})`
+                : p.description,
+            prompt: p,
+        }));
+        const overridden = prompts.filter(p => p.known && p.overridePath).length;
+        const picked = await vscode.window.showQuickPick(items, {
+            placeHolder: `${overridden} of ${Object.keys(PROMPTS).length} prompts overridden in .ai-notes/prompts. Pick one to open or customize.`,
+        });
+        if (!picked) { return; }
+
+        if (picked.prompt.overridePath) {
+            await vscode.window.showTextDocument(vscode.Uri.file(picked.prompt.overridePath));
+            return;
+        }
+        if (!isPromptName(picked.prompt.name)) { return; }
+
+        // No override yet: seed one with the default template so it can be edited in place.
+        const filePath = path.join(promptsDir(rootDir), `${picked.prompt.name}.md`);
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        await fs.promises.writeFile(filePath, PROMPTS[picked.prompt.name].template + '\n', 'utf8');
+        await vscode.window.showTextDocument(vscode.Uri.file(filePath));
+        vscode.window.showInformationMessage(
+            `Created ${path.relative(rootDir, filePath)}. Available placeholders: ${PROMPTS[picked.prompt.name].variables.map(v => `{{${v}}}`).join(', ')}`
+        );
+    });
+    context.subscriptions.push(listPromptsDisposable);
+
+    const setCredentialDisposable = vscode.commands.registerCommand('ai-notes.setCredential', async () => {
+        const picked = await vscode.window.showQuickPick(
+            await Promise.all(CREDENTIALS.map(async c => ({
+                label: c.label,
+                description: (await getCredential(c.id)) ? 'set' : 'not set',
+                credential: c,
+            }))),
+            { placeHolder: 'Which credential do you want to set?' }
+        );
+        if (!picked) { return; }
+        const value = await vscode.window.showInputBox({
+            prompt: picked.credential.label,
+            placeHolder: picked.credential.placeholder,
+            password: true,
+            ignoreFocusOut: true,
+        });
+        if (!value || value.trim().length === 0) { return; }
+        await setCredential(picked.credential.id, value.trim());
+        vscode.window.showInformationMessage(`${picked.credential.label} saved to secure storage.`);
+    });
+    context.subscriptions.push(setCredentialDisposable);
+
+    const clearCredentialDisposable = vscode.commands.registerCommand('ai-notes.clearCredential', async () => {
+        const stored: Array<{ label: string; credential: CredentialInfo }> = [];
+        for (const c of CREDENTIALS) {
+            if (await getCredential(c.id)) { stored.push({ label: c.label, credential: c }); }
+        }
+        if (stored.length === 0) {
+            vscode.window.showInformationMessage('No provider credentials are stored.');
+            return;
+        }
+        const picked = await vscode.window.showQuickPick(stored, { placeHolder: 'Which credential do you want to clear?' });
+        if (!picked) { return; }
+        await clearCredential(picked.credential.id);
+        vscode.window.showInformationMessage(`${picked.credential.label} removed from secure storage.`);
+    });
+    context.subscriptions.push(clearCredentialDisposable);
     context.subscriptions.push({ dispose: disposeRestructureOutputChannel });
 }
 
-async function bulkReclassifyNotes(paths: string[], rootDir: string): Promise<void> {
+async function migrateCredentials(): Promise<void> {
+    try {
+        const migrated = await migratePlaintextCredentials();
+        if (migrated.length > 0) {
+            vscode.window.showInformationMessage(`Moved ${migrated.join(' and ')} from settings into secure storage.`);
+        }
+    } catch (err: any) {
+        vscode.window.showWarningMessage(`Could not migrate AI Notes credentials to secure storage: ${err.message}`);
+    }
+}
+
+/**
+ * Asks how to group and where to put a collection digest, then writes it as
+ * a note in the vault root or as a PDF there.
+ */
+async function writeCollectionDigest(collection: Collection, rootDir: string): Promise<void> {
+    const grouping = await vscode.window.showQuickPick(
+        [
+            { label: 'By tag', description: 'A section per tag', groupBy: 'tag' as DigestGrouping },
+            { label: 'By date', description: 'A section per day, newest first', groupBy: 'date' as DigestGrouping },
+        ],
+        { placeHolder: `Group the notes of "${collection.name}"` }
+    );
+    if (!grouping) { return; }
+    const overview = await vscode.window.showQuickPick(
+        [
+            { label: 'Without overview', overview: false },
+            { label: 'With AI overview', description: 'The model writes an opening summary', overview: true },
+        ],
+        { placeHolder: 'Start the digest with an AI-written overview?' }
+    );
+    if (!overview) { return; }
+    const destination = await vscode.window.showQuickPick(
+        [
+            { label: 'Save as a note', description: 'In the vault root', pdf: false },
+            { label: 'Export to PDF', description: 'In the vault root', pdf: true },
+        ],
+        { placeHolder: 'Where should the digest go?' }
+    );
+    if (!destination) { return; }
+
+    const date = new Date();
+    const base = renderFileName(fileNamePattern(), { name: `${collection.name} digest`, date });
+    let digest: { markdown: string; warnings: string[] };
+    try {
+        digest = await vscode.window.withProgress(
+            { location: vscode.ProgressLocation.Notification, title: `Writing the "${collection.name}" digest...`, cancellable: true },
+            (_progress, token) => buildDigest(collection, rootDir, { groupBy: grouping.groupBy, overview: overview.overview, date, fromDir: rootDir }, token)
+        );
+    } catch (err: any) {
+        if (err instanceof vscode.CancellationError) { return; }
+        vscode.window.showErrorMessage(`Digest of "${collection.name}" failed: ${err.message}`);
+        return;
+    }
+    digest.warnings.forEach(warning => vscode.window.showWarningMessage(warning));
+
+    if (!destination.pdf) {
+        const outputPath = uniqueNotePath(rootDir, base);
+        try {
+            await fs.promises.writeFile(outputPath, digest.markdown, 'utf8');
+            await vscode.window.showTextDocument(vscode.Uri.file(outputPath));
+        } catch (err: any) {
+            vscode.window.showErrorMessage(`Saving the "${collection.name}" digest failed: ${err.message}`);
+            return;
+        }
+        vscode.window.showInformationMessage(`Digest saved: ${path.relative(rootDir, outputPath)}`);
+        return;
+    }
+    let pdfPath = path.join(rootDir, `${base}.pdf`);
+    for (let n = 2; fs.existsSync(pdfPath); n++) {
+        pdfPath = path.join(rootDir, `${base}-${n}.pdf`);
+    }
+    let tmpDir: string | undefined;
+    try {
+        tmpDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'ai-notes-digest-'));
+        const mdPath = path.join(tmpDir, `${base}.md`);
+        await fs.promises.writeFile(mdPath, digest.markdown, 'utf8');
+        // The digest's links are relative to the vault root, where the PDF goes.
+        await exportMarkdownToPdf(mdPath, pdfPath, rootDir);
+    } catch (err: any) {
+        vscode.window.showErrorMessage(`Exporting the "${collection.name}" digest failed: ${err.message}`);
+    } finally {
+        if (tmpDir) { await fs.promises.rm(tmpDir, { recursive: true, force: true }); }
+    }
+}
+
+/**
+ * Asks for a new collection's name, tags, date range and query, and saves it.
+ */
+async function promptNewCollection(rootDir: string): Promise<void> {
+    const collections = await loadCollections(rootDir);
+    const name = await vscode.window.showInputBox({
+        prompt: 'Collection name',
+        validateInput: value => collections.some(c => c.name === value.trim()) ? 'A collection with this name already exists.' : null,
+    });
+    if (!name) { return; }
+
+    const tagsInput = await vscode.window.showInputBox({
+        prompt: 'Filter by tags (comma-separated, leave empty to skip)',
+        placeHolder: 'meeting, team',
+    });
+    const tags = tagsInput ? tagsInput.split(',').map(t => t.trim()).filter(Boolean) : null;
+
+    const dateInput = await vscode.window.showInputBox({
+        prompt: 'Filter by date range (number of days, leave empty to skip)',
+        placeHolder: '14',
+    });
+    const dateRange = dateInput ? parseInt(dateInput) : null;
+
+    const query = await vscode.window.showInputBox({
+        prompt: 'Search query, with filters such as tag:, path: or status: (leave empty to skip)',
+        placeHolder: 'authentication -tag:archived',
+        validateInput: value => {
+            try {
+                parseQuery(value);
+                return null;
+            } catch (err: any) {
+                return err.message;
+            }
+        },
+    });
+
+    const newCollection: Collection = {
+        name: name.trim(),
+        tags: tags && tags.length > 0 ? tags : null,
+        dateRange: dateRange && !isNaN(dateRange) ? dateRange : null,
+        query: query || null,
+    };
+
+    collections.push(newCollection);
+    await saveCollections(rootDir, collections);
+    vscode.window.showInformationMessage(`Collection "${newCollection.name}" created.`);
+}
+
+async function mergeNotesWithProgress(paths: string[], rootDir: string): Promise<void> {
+    try {
+        const outputPath = await vscode.window.withProgress(
+            { location: vscode.ProgressLocation.Notification, title: 'Merging notes...', cancellable: true },
+            (_progress, token) => mergeNotes(paths, rootDir, token)
+        );
+        const uri = vscode.Uri.file(outputPath);
+        await vscode.window.showTextDocument(uri);
+        vscode.window.showInformationMessage(`Merged ${paths.length} notes into new draft.`);
+    } catch (err: any) {
+        if (err instanceof vscode.CancellationError) { return; }
+        if (err.message !== 'Merge cancelled by user.') {
+            vscode.window.showErrorMessage(`Merge failed: ${err.message}`);
+        }
+    }
+}
+
+async function bulkReclassifyNotes(paths: string[], vaults: VaultManager): Promise<void> {
     await vscode.window.withProgress(
         {
             location: vscode.ProgressLocation.Notification,
@@ -561,8 +881,10 @@ async function bulkReclassifyNotes(paths: string[], rootDir: string): Promise<vo
                 });
 
                 try {
+                    const vault = vaults.vaultFor(notePath);
+                    if (!vault) { throw new Error('the note is not inside a workspace folder'); }
                     const doc = await vscode.workspace.openTextDocument(notePath);
-                    await classifyAndMoveNote(doc, rootDir);
+                    await classifyAndMoveNote(doc, vault.rootDir, { bypassCache: true });
                 } catch (err: any) {
                     const action = await vscode.window.showWarningMessage(
                         `Failed to classify ${path.basename(notePath)}: ${err.message}`,
@@ -576,13 +898,12 @@ async function bulkReclassifyNotes(paths: string[], rootDir: string): Promise<vo
     );
 }
 
-async function classifyAndMoveNote(doc: vscode.TextDocument, rootDir: string): Promise<void> {
+async function classifyAndMoveNote(doc: vscode.TextDocument, rootDir: string, options: CompletionOptions = {}): Promise<void> {
     const content = doc.getText();
-    const yamlRegex = /^---\n(?:.*\n)*?---\n/;
-    const cleanedContent = content.replace(yamlRegex, '');
+    const cleanedContent = stripFrontmatter(content);
 
     const existingFolders = await getAllFolders(rootDir, 3);
-    const metadata = await generateNoteMetadata(cleanedContent, existingFolders);
+    const metadata = await generateNoteMetadata(cleanedContent, existingFolders, rootDir, options);
 
     if (!metadata || !metadata.tags || !metadata.name || !metadata.path) {
         vscode.window.showErrorMessage('AI categorization failed, please try again.');
@@ -598,16 +919,28 @@ async function classifyAndMoveNote(doc: vscode.TextDocument, rootDir: string): P
         fs.mkdirSync(directory, { recursive: true });
     }
 
-    const formattedDate = formatDateDDMMYYYY(Date.now());
-    const newFileName = `${name}_${formattedDate}.md`;
-    const newFilePath = path.join(directory, newFileName);
+    const created = noteDate(parseFrontmatter(content).data, doc.uri.fsPath) ?? new Date();
+    const newFilePath = uniqueNotePath(directory, renderFileName(fileNamePattern(), { name, date: created }), doc.uri.fsPath);
     const newFileUri = vscode.Uri.file(newFilePath);
 
-    await upsertFrontmatterKey(doc, 'tags', tags);
-    await vscode.workspace.fs.rename(doc.uri, newFileUri, { overwrite: false });
+    await upsertFrontmatterKeys(doc, datedKeys(content, created, { tags }));
+    if (newFilePath !== doc.uri.fsPath) {
+        await vscode.workspace.fs.rename(doc.uri, newFileUri, { overwrite: false });
+    }
     await vscode.window.showTextDocument(newFileUri);
 }
 
+/**
+ * `keyValues` plus `updated` (today) and, when the note has none yet, `created`.
+ */
+function datedKeys(content: string, created: Date, keyValues: Record<string, FrontmatterValue>): Record<string, FrontmatterValue> {
+    const dated: Record<string, FrontmatterValue> = { ...keyValues, updated: isoDate(new Date()) };
+    if (parseFrontmatter(content).data.created === undefined) {
+        dated.created = isoDate(created);
+    }
+    return dated;
+}
+
 /**
  * Prompts the user for tags, directory, and name, using AI metadata as suggestions.
  * Returns { tags, directory, name } or undefined if cancelled.
@@ -664,13 +997,13 @@ async function promptUserForNoteMetadata(metadata: { tags: string[]; name: strin
 }
 
 /**
- * Remove empty directories up to the workspace root.
+ * Remove empty directories up to the vault root.
  * @param dir Directory to start from
+ * @param rootDir Vault root, never removed
  */
-async function removeEmptyDirsRecursively(dir: string) {
-	const workspaceFolder = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+async function removeEmptyDirsRecursively(dir: string, rootDir: string) {
 	let curr = dir;
-	while (curr !== workspaceFolder) {
+	while (curr !== rootDir && curr !== path.dirname(curr)) {
 		const entries = await fs.promises.readdir(curr);
 		if (entries.length === 0) {
 			await fs.promises.rmdir(curr);
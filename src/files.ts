@@ -1,7 +1,16 @@
 import * as fs from 'fs/promises';
 import * as path from 'path';
+import { ExclusionRules, loadExclusionRules } from './exclusions';
 
-export const getAllFolders = async (root: string, depth = 3, prefix = ''): Promise<string[]> => {
+/**
+ * Folders of the vault up to `depth` levels deep, relative to `root`, leaving
+ * out everything matched by the exclusion rules.
+ */
+export const getAllFolders = async (root: string, depth = 3): Promise<string[]> => {
+    return collectFolders(root, await loadExclusionRules(root), depth, '');
+};
+
+const collectFolders = async (root: string, rules: ExclusionRules, depth: number, prefix: string): Promise<string[]> => {
     if (depth === 0) { return []; }
     let result: string[] = [];
     try {
@@ -9,10 +18,11 @@ export const getAllFolders = async (root: string, depth = 3, prefix = ''): Promi
         for (const entry of entries) {
             if (entry.isDirectory()) {
                 const rel = path.join(prefix, entry.name);
+                if (rules.isExcluded(path.join(root, rel), true)) { continue; }
                 result.push(rel);
-                result = result.concat(await getAllFolders(root, depth - 1, rel));
+                result = result.concat(await collectFolders(root, rules, depth - 1, rel));
             }
         }
     } catch (e) {}
     return result;
-};
\ No newline at end of file
+};
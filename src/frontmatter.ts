@@ -1,4 +1,130 @@
 import * as vscode from 'vscode';
+import { parseDocument, isNode, isScalar, isSeq, ToStringOptions } from 'yaml';
+
+/**
+ * The one place YAML frontmatter is read and written. Parsing goes through a
+ * real YAML parser, so block lists, quoted values, multi-line strings and CRLF
+ * files work; writing edits the parsed document, so comments and key order
+ * survive.
+ */
+
+export type FrontmatterValue = string | number | boolean | string[];
+
+export interface FrontmatterBlock {
+    /** YAML between the fences with `\n` line endings, or null when the note has none. */
+    yaml: string | null;
+    /** Everything after the closing fence, line endings untouched. */
+    body: string;
+    /** Zero-based line on which the body starts. */
+    bodyLine: number;
+    eol: '\n' | '\r\n';
+}
+
+export interface Frontmatter {
+    data: Record<string, unknown>;
+    body: string;
+    bodyLine: number;
+    /** Set when the block is not valid YAML; `data` is then empty. */
+    error?: string;
+}
+
+const STRINGIFY_OPTIONS: ToStringOptions = { lineWidth: 0, flowCollectionPadding: false };
+
+export function splitFrontmatter(content: string): FrontmatterBlock {
+    const eol = content.includes('\r\n') ? '\r\n' : '\n';
+    const lines = content.split('\n');
+    if (lines[0].replace(/^\uFEFF/, '').trimEnd() !== '---') {
+        return { yaml: null, body: content, bodyLine: 0, eol };
+    }
+    for (let i = 1; i < lines.length; i++) {
+        const line = lines[i].trimEnd();
+        if (line === '---' || line === '...') {
+            return {
+                yaml: lines.slice(1, i).map(l => l.replace(/\r$/, '')).join('\n'),
+                body: lines.slice(i + 1).join('\n'),
+                bodyLine: i + 1,
+                eol,
+            };
+        }
+    }
+    // An opening fence without a closing one is a horizontal rule, not frontmatter.
+    return { yaml: null, body: content, bodyLine: 0, eol };
+}
+
+export function stripFrontmatter(content: string): string {
+    return splitFrontmatter(content).body;
+}
+
+export function parseFrontmatter(content: string): Frontmatter {
+    const { yaml, body, bodyLine } = splitFrontmatter(content);
+    if (yaml === null) { return { data: {}, body, bodyLine }; }
+    const doc = parseDocument(yaml);
+    if (doc.errors.length > 0) {
+        return { data: {}, body, bodyLine, error: doc.errors[0].message };
+    }
+    const value = doc.toJS();
+    const data = value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : {};
+    return { data, body, bodyLine };
+}
+
+/**
+ * A scalar value as trimmed text; null when missing, empty or not a scalar.
+ */
+export function frontmatterString(data: Record<string, unknown>, key: string): string | null {
+    const value = data[key];
+    if (value === null || value === undefined || typeof value === 'object') { return null; }
+    const text = String(value).trim();
+    return text.length > 0 ? text : null;
+}
+
+/**
+ * A list value. Accepts YAML lists (flow or block) and the legacy
+ * comma-separated form `tags: a, b`.
+ */
+export function frontmatterList(data: Record<string, unknown>, key: string): string[] {
+    const value = data[key];
+    const items = Array.isArray(value)
+        ? value
+        : typeof value === 'string' ? value.split(',') : [];
+    return items
+        .filter(item => item !== null && item !== undefined && typeof item !== 'object')
+        .map(item => String(item).trim())
+        .filter(item => item.length > 0);
+}
+
+/**
+ * Returns `content` with the given frontmatter keys set. Existing keys keep
+ * their position, comments and list/quote style; new keys are appended, and a
+ * frontmatter block is created when there is none. Throws when the existing
+ * block is not valid YAML rather than risk overwriting it.
+ */
+export function setFrontmatterKeys(content: string, keyValues: Record<string, FrontmatterValue>): string {
+    const { yaml, body, eol } = splitFrontmatter(content);
+    const doc = parseDocument(yaml ?? '');
+    if (doc.errors.length > 0) {
+        throw new Error(`Frontmatter is not valid YAML: ${doc.errors[0].message}`);
+    }
+
+    for (const [key, value] of Object.entries(keyValues)) {
+        const existing = doc.get(key, true);
+        const node = doc.createNode(value);
+        if (isSeq(node)) {
+            // Lists written by the extension default to `[a, b]`; keep block lists block.
+            node.flow = isSeq(existing) ? !!existing.flow : true;
+        }
+        if (isScalar(node) && isScalar(existing)) {
+            node.type = existing.type;
+        }
+        if (isNode(existing)) {
+            node.comment = existing.comment;
+        }
+        doc.set(key, node);
+    }
+
+    const newYaml = doc.toString(STRINGIFY_OPTIONS);
+    const block = `---\n${newYaml}---\n`;
+    return (eol === '\r\n' ? block.replace(/\n/g, '\r\n') : block) + body;
+}
 
 /**
  * Upserts a key-value pair in the YAML frontmatter of a Markdown document.
@@ -6,67 +132,22 @@ import * as vscode from 'vscode';
  * If the key exists, it will be updated. Otherwise, it will be added.
  *
  * @param doc The TextDocument to update
- * @param key The YAML key to upsert (string)
- * @param value The value to set (string, or string[] for array)
+ * @param key The YAML key to upsert
+ * @param value The value to set (string[] is written as a list)
  */
-export async function upsertFrontmatterKey(doc: vscode.TextDocument, key: string, value: string | string[]): Promise<void> {
+export async function upsertFrontmatterKey(doc: vscode.TextDocument, key: string, value: FrontmatterValue): Promise<void> {
     await upsertFrontmatterKeys(doc, { [key]: value });
 }
 
 /**
  * Upserts multiple key-value pairs in the YAML frontmatter of a Markdown document.
- * Accepts an object where each key is a YAML key and each value is a string or string[].
  * Only saves the document once after all changes are applied.
  *
  * @param doc The TextDocument to update
  * @param keyValues An object with key-value pairs to upsert
  */
-export async function upsertFrontmatterKeys(doc: vscode.TextDocument, keyValues: Record<string, string | string[]>): Promise<void> {
-    const content = doc.getText();
-    // Improved regex: match frontmatter even if empty (---\n--- or ---\n...\n---)
-    const yamlRegex = /^---\n([\s\S]*?)?---\n?/;
-    const existingYamlMatch = content.match(yamlRegex);
-    let newContent: string;
-
-    // Prepare new key lines
-    const newKeyLines: Record<string, string> = {};
-    for (const [key, value] of Object.entries(keyValues)) {
-        newKeyLines[key] = Array.isArray(value) ? `${key}: [${value.join(', ')}]` : `${key}: ${value}`;
-    }
-
-    if (existingYamlMatch) {
-        // Extract YAML block and the rest of the content
-        const yamlBlock = existingYamlMatch[0];
-        let yamlLines = yamlBlock.split('\n');
-        // Remove empty lines (handles empty frontmatter like '---\n---')
-        yamlLines = yamlLines.filter(line => line.trim() !== '' && line.trim() !== '---');
-        // Track which keys have been updated
-        const updatedKeys = new Set<string>();
-        yamlLines = yamlLines.map(line => {
-            const trimmed = line.trim();
-            const keyMatch = trimmed.match(/^([a-zA-Z0-9_-]+):/);
-            if (keyMatch && newKeyLines[keyMatch[1]]) {
-                updatedKeys.add(keyMatch[1]);
-                return newKeyLines[keyMatch[1]];
-            }
-            return line;
-        });
-        // Add any new keys that weren't present
-        for (const [key, line] of Object.entries(newKeyLines)) {
-            if (!updatedKeys.has(key)) {
-                yamlLines.push(line);
-            }
-        }
-        // If the original YAML was empty, avoid duplicating frontmatter
-        const newYaml = yamlLines.length > 0
-            ? `---\n${yamlLines.join('\n')}\n---\n`
-            : `---\n${Object.values(newKeyLines).join('\n')}\n---\n`;
-        newContent = newYaml + content.slice(existingYamlMatch[0].length);
-    } else {
-        // No YAML frontmatter, just add it
-        const newYaml = `---\n${Object.values(newKeyLines).join('\n')}\n---\n`;
-        newContent = newYaml + content;
-    }
+export async function upsertFrontmatterKeys(doc: vscode.TextDocument, keyValues: Record<string, FrontmatterValue>): Promise<void> {
+    const newContent = setFrontmatterKeys(doc.getText(), keyValues);
 
     const edit = new vscode.WorkspaceEdit();
     edit.replace(
@@ -0,0 +1,317 @@
+import { NoteIndex, IndexedNote } from './noteIndex';
+import { stem } from './stemmer';
+
+/**
+ * Offline keyword search: an inverted index over the title, tags, summary and
+ * body of every note, ranked with BM25. Words are lowercased and stemmed, so
+ * "meetings" finds "meeting"; `"quoted words"` only match notes containing
+ * them in that order.
+ * The index is built from the shared NoteIndex and re-reads only notes whose
+ * content hash changed.
+ */
+
+export interface SearchTerm {
+    /** Stemmed tokens; more than one for a phrase. */
+    tokens: string[];
+    phrase: boolean;
+}
+
+export interface KeywordHit {
+    filePath: string;
+    score: number;
+}
+
+export interface KeywordSearchOptions {
+    limit?: number;
+    /** Only these notes are ranked. */
+    within?: Set<string>;
+}
+
+export type MatchField = 'title' | 'tags' | 'summary' | 'body';
+
+export interface FieldMatch {
+    field: MatchField;
+    /** The note's words that matched, lowercased, without repeats. */
+    words: string[];
+}
+
+export interface Passage {
+    /** Zero-based line in the file. */
+    line: number;
+    /** The line, clipped around the first match when it is long. */
+    text: string;
+    /** `[start, end)` offsets in `text` of the words that matched. */
+    highlights: Array<[number, number]>;
+    /** `[start, end)` columns of the first match in the unclipped line. */
+    match: [number, number];
+}
+
+interface IndexedDoc {
+    hash: string;
+    length: number;
+    terms: string[];
+}
+
+/** BM25 parameters: term-frequency saturation and length normalization. */
+const K1 = 1.2;
+const B = 0.75;
+
+/** Position gap between fields, so a phrase never spans title and body. */
+const FIELD_GAP = 16;
+
+function words(text: string): string[] {
+    return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+}
+
+/**
+ * Lowercased, stemmed words of `text`.
+ */
+export function tokenize(text: string): string[] {
+    return words(text).map(word => stem(word));
+}
+
+/**
+ * Offsets of the words in `text` whose stems are in `tokens`.
+ */
+export function highlightRanges(text: string, tokens: Set<string>): Array<[number, number]> {
+    const ranges: Array<[number, number]> = [];
+    for (const match of text.matchAll(/[\p{L}\p{N}]+/gu)) {
+        if (tokens.has(stem(match[0].toLowerCase()))) {
+            ranges.push([match.index!, match.index! + match[0].length]);
+        }
+    }
+    return ranges;
+}
+
+/** Longest passage shown; longer lines are clipped around the first match. */
+const PASSAGE_CHARS = 200;
+
+/**
+ * The body lines of `note` that best match `query`: those with the most
+ * different query words, in file order.
+ */
+export function findPassages(note: IndexedNote, query: string | SearchTerm[], max = 3): Passage[] {
+    const terms = typeof query === 'string' ? parseSearchQuery(query) : query;
+    const tokens = new Set(terms.flatMap(t => t.tokens));
+    if (tokens.size === 0) { return []; }
+
+    const candidates: Array<Passage & { distinct: number }> = [];
+    note.body.split('\n').forEach((text, i) => {
+        const highlights = highlightRanges(text, tokens);
+        if (highlights.length === 0) { return; }
+        const distinct = new Set(highlights.map(([start, end]) => stem(text.slice(start, end).toLowerCase()))).size;
+        candidates.push({ ...clipPassage(text, highlights), line: note.bodyLine + i, match: highlights[0], distinct });
+    });
+    return candidates
+        .sort((a, b) => b.distinct - a.distinct || a.line - b.line)
+        .slice(0, max)
+        .sort((a, b) => a.line - b.line)
+        .map(({ distinct: _distinct, ...passage }) => passage);
+}
+
+/**
+ * Which parts of `note` contain words of `query`, and which words.
+ */
+export function explainMatch(note: IndexedNote, query: string | SearchTerm[]): FieldMatch[] {
+    const terms = typeof query === 'string' ? parseSearchQuery(query) : query;
+    const tokens = new Set(terms.flatMap(t => t.tokens));
+    const fields: Array<[MatchField, string]> = [
+        ['title', note.title], ['tags', note.tags.join(' ')], ['summary', note.summary ?? ''], ['body', note.body],
+    ];
+    const matches: FieldMatch[] = [];
+    for (const [field, text] of fields) {
+        const words = new Set(highlightRanges(text, tokens).map(([start, end]) => text.slice(start, end).toLowerCase()));
+        if (words.size > 0) { matches.push({ field, words: [...words] }); }
+    }
+    return matches;
+}
+
+function clipPassage(text: string, highlights: Array<[number, number]>): Pick<Passage, 'text' | 'highlights'> {
+    if (text.length <= PASSAGE_CHARS) { return { text, highlights }; }
+    const start = Math.max(0, highlights[0][0] - PASSAGE_CHARS / 4);
+    const end = Math.min(text.length, start + PASSAGE_CHARS);
+    const prefix = start > 0 ? '…' : '';
+    const suffix = end < text.length ? '…' : '';
+    const shift = prefix.length - start;
+    return {
+        text: prefix + text.slice(start, end) + suffix,
+        highlights: highlights
+            .filter(([s, e]) => s >= start && e <= end)
+            .map(([s, e]) => [s + shift, e + shift] as [number, number]),
+    };
+}
+
+/**
+ * Words too common to narrow a search down. They are still indexed, so
+ * phrases such as "state of the art" match exactly.
+ */
+const STOP_WORDS = new Set([
+    'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'how', 'i', 'in', 'is', 'it',
+    'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was', 'what', 'when', 'where', 'with',
+]);
+
+/**
+ * Splits a query into words and `"quoted phrases"`. An unclosed quote runs to
+ * the end of the query. Stop words outside phrases are dropped unless the
+ * query has nothing else.
+ */
+export function parseSearchQuery(query: string): SearchTerm[] {
+    const terms: SearchTerm[] = [];
+    const stopWords: SearchTerm[] = [];
+    const regex = /"([^"]*)"?|([^\s"]+)/g;
+    let match: RegExpExecArray | null;
+    while ((match = regex.exec(query)) !== null) {
+        if (match[1] !== undefined) {
+            const tokens = tokenize(match[1]);
+            if (tokens.length > 0) { terms.push({ tokens, phrase: tokens.length > 1 }); }
+        } else {
+            for (const word of words(match[2])) {
+                const term = { tokens: [stem(word)], phrase: false };
+                (STOP_WORDS.has(word) ? stopWords : terms).push(term);
+            }
+        }
+    }
+    return terms.length > 0 ? terms : stopWords;
+}
+
+export class FullTextIndex {
+    private docs: Map<string, IndexedDoc> = new Map();
+    /** term -> filePath -> token positions */
+    private postings: Map<string, Map<string, number[]>> = new Map();
+    private totalLength = 0;
+
+    constructor(readonly index: NoteIndex) {}
+
+    /**
+     * Brings the index in line with the notes, re-tokenizing only notes whose
+     * content changed. Drafts are indexed too; narrow searches with `within`.
+     */
+    async ready(): Promise<void> {
+        await this.index.ready();
+        const notes = this.index.all({ includeDrafts: true });
+        const seen = new Set<string>();
+        for (const note of notes) {
+            seen.add(note.filePath);
+            const existing = this.docs.get(note.filePath);
+            if (existing && existing.hash === note.hash) { continue; }
+            if (existing) { this.remove(note.filePath); }
+            this.add(note);
+        }
+        for (const filePath of [...this.docs.keys()]) {
+            if (!seen.has(filePath)) { this.remove(filePath); }
+        }
+    }
+
+    /**
+     * Notes matching `query`, best first. A note must contain every phrase and
+     * at least one word; more matching words and rarer words rank higher.
+     */
+    search(query: string | SearchTerm[], options: KeywordSearchOptions = {}): KeywordHit[] {
+        const terms = typeof query === 'string' ? parseSearchQuery(query) : query;
+        if (terms.length === 0 || this.docs.size === 0) { return []; }
+
+        const docCount = this.docs.size;
+        const avgLength = this.totalLength / docCount;
+        const scores: Map<string, number> = new Map();
+        const phrases = terms.filter(t => t.phrase);
+
+        for (const token of new Set(terms.flatMap(t => t.tokens))) {
+            const postings = this.postings.get(token);
+            if (!postings) { continue; }
+            const idf = Math.log(1 + (docCount - postings.size + 0.5) / (postings.size + 0.5));
+            for (const [filePath, positions] of postings) {
+                if (options.within && !options.within.has(filePath)) { continue; }
+                const length = this.docs.get(filePath)!.length;
+                const tf = positions.length;
+                const score = idf * (tf * (K1 + 1)) / (tf + K1 * (1 - B + B * length / avgLength));
+                scores.set(filePath, (scores.get(filePath) ?? 0) + score);
+            }
+        }
+
+        const hits: KeywordHit[] = [];
+        for (const [filePath, score] of scores) {
+            if (phrases.every(p => this.containsPhrase(filePath, p.tokens))) {
+                hits.push({ filePath, score });
+            }
+        }
+        hits.sort((a, b) => b.score - a.score || a.filePath.localeCompare(b.filePath));
+        return options.limit !== undefined ? hits.slice(0, options.limit) : hits;
+    }
+
+    /**
+     * Whether the note contains every word of `text`, or the words in that
+     * order for a phrase.
+     */
+    contains(filePath: string, text: string, phrase: boolean): boolean {
+        const tokens = tokenize(text);
+        if (tokens.length === 0) { return false; }
+        return phrase
+            ? this.containsPhrase(filePath, tokens)
+            : tokens.every(token => this.postings.get(token)?.has(filePath));
+    }
+
+    private containsPhrase(filePath: string, tokens: string[]): boolean {
+        const lists = tokens.map(token => this.postings.get(token)?.get(filePath));
+        if (lists.some(list => !list)) { return false; }
+        const rest = lists.slice(1).map(list => new Set(list));
+        return lists[0]!.some(start => rest.every((positions, i) => positions.has(start + i + 1)));
+    }
+
+    private add(note: IndexedNote): void {
+        // The title and tags count twice as much as a word in the summary or body.
+        const fields = [note.title, note.tags.join(' '), note.title, note.tags.join(' '), note.summary ?? '', note.body];
+        const termPositions: Map<string, number[]> = new Map();
+        let position = 0;
+        let length = 0;
+        for (const field of fields) {
+            for (const token of tokenize(field)) {
+                let positions = termPositions.get(token);
+                if (!positions) {
+                    positions = [];
+                    termPositions.set(token, positions);
+                }
+                positions.push(position++);
+                length++;
+            }
+            position += FIELD_GAP;
+        }
+
+        for (const [term, positions] of termPositions) {
+            let postings = this.postings.get(term);
+            if (!postings) {
+                postings = new Map();
+                this.postings.set(term, postings);
+            }
+            postings.set(note.filePath, positions);
+        }
+        this.docs.set(note.filePath, { hash: note.hash, length, terms: [...termPositions.keys()] });
+        this.totalLength += length;
+    }
+
+    private remove(filePath: string): void {
+        const doc = this.docs.get(filePath);
+        if (!doc) { return; }
+        for (const term of doc.terms) {
+            const postings = this.postings.get(term);
+            postings?.delete(filePath);
+            if (postings && postings.size === 0) { this.postings.delete(term); }
+        }
+        this.totalLength -= doc.length;
+        this.docs.delete(filePath);
+    }
+}
+
+const fullTextIndexes: Map<string, FullTextIndex> = new Map();
+
+/**
+ * The full-text index over `index`, created on first use. One per vault; a
+ * note index opened again for the same folder starts a fresh one.
+ */
+export function getFullTextIndex(index: NoteIndex): FullTextIndex {
+    let fullText = fullTextIndexes.get(index.rootDir);
+    if (!fullText || fullText.index !== index) {
+        fullText = new FullTextIndex(index);
+        fullTextIndexes.set(index.rootDir, fullText);
+    }
+    return fullText;
+}
@@ -1,8 +1,5 @@
-import * as fsp from 'fs/promises';
 import * as path from 'path';
-import { extractTagsFromContent } from './tagCache';
-import { extractMarkdownLinks } from './backlinksWebview';
-import { extractSummaryFromContent } from './summaries';
+import { getNoteIndex } from './noteIndex';
 
 export interface GraphNode {
     id: string;
@@ -75,34 +72,13 @@ export function buildGraphData(notes: NoteGraphInput[]): GraphData {
     return { nodes, edges };
 }
 
-const EXCLUDED_DIRS = new Set(['.git', 'node_modules', '.vscode', '.claude', '_drafts', '_site', '_moc']);
-
 export async function scanWorkspaceForGraph(workspaceRoot: string): Promise<NoteGraphInput[]> {
-    const notes: NoteGraphInput[] = [];
-    await walkForGraph(workspaceRoot, workspaceRoot, notes);
-    return notes;
-}
-
-async function walkForGraph(dir: string, workspaceRoot: string, notes: NoteGraphInput[]): Promise<void> {
-    let entries;
-    try {
-        entries = await fsp.readdir(dir, { withFileTypes: true });
-    } catch { return; }
-
-    for (const entry of entries) {
-        const fullPath = path.join(dir, entry.name);
-        if (entry.isDirectory()) {
-            if (EXCLUDED_DIRS.has(entry.name)) { continue; }
-            await walkForGraph(fullPath, workspaceRoot, notes);
-        } else if (entry.name.endsWith('.md')) {
-            try {
-                const content = await fsp.readFile(fullPath, 'utf8');
-                const tags = extractTagsFromContent(content);
-                const markdownLinks = extractMarkdownLinks(content);
-                const links = markdownLinks.map(l => path.resolve(path.dirname(fullPath), l.href));
-                const summary = extractSummaryFromContent(content);
-                notes.push({ filePath: fullPath, tags, links, summary });
-            } catch {}
-        }
-    }
+    const index = getNoteIndex(workspaceRoot);
+    await index.ready();
+    return index.all().map(note => ({
+        filePath: note.filePath,
+        tags: note.tags,
+        links: note.links.map(l => l.target),
+        summary: note.summary,
+    }));
 }
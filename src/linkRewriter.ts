@@ -180,6 +180,8 @@ export async function rewriteAllLinks(
     return { rewritten, failures };
 }
 
+// Deliberately ignores the vault's exclusion rules: links inside excluded notes
+// must not break when the notes they point at move.
 async function listMarkdownFiles(root: string): Promise<string[]> {
     const out: string[] = [];
     async function walk(dir: string): Promise<void> {
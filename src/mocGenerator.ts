@@ -1,7 +1,10 @@
+import * as vscode from 'vscode';
 import * as fsp from 'fs/promises';
 import * as fs from 'fs';
 import * as path from 'path';
-import { chatCompletionWithRetry } from './ai';
+import { chatCompletionStructured } from './ai';
+import { renderPrompt } from './prompts';
+import { schema, parseStructured } from './structuredOutput';
 import { gatherNotes, NoteInfo } from './semanticSearch';
 
 export interface NoteCluster {
@@ -19,23 +22,18 @@ export function slugify(text: string): string {
         .replace(/^-|-$/g, '');
 }
 
+const clustersSchema = schema.array(schema.object({
+    topic: schema.string(),
+    description: schema.string(),
+    noteIndices: schema.array(schema.number()),
+}), { minItems: 1 });
+
 export function parseClusterResponse(response: string): NoteCluster[] {
-    const match = response.match(/\[[\s\S]*\]/);
-    if (!match) { return []; }
-    try {
-        const arr = JSON.parse(match[0]);
-        if (Array.isArray(arr) && arr.every(item =>
-            typeof item.topic === 'string' &&
-            typeof item.description === 'string' &&
-            Array.isArray(item.noteIndices)
-        )) {
-            return arr;
-        }
-    } catch {}
-    return [];
+    const result = parseStructured(response, clustersSchema);
+    return result.ok ? result.value : [];
 }
 
-export async function generateMOC(workspaceRoot: string): Promise<string> {
+export async function generateMOC(workspaceRoot: string, token?: vscode.CancellationToken): Promise<string> {
     const notes = await gatherNotes(workspaceRoot);
 
     if (notes.length === 0) {
@@ -48,17 +46,9 @@ export async function generateMOC(workspaceRoot: string): Promise<string> {
         return `${i + 1}. ${name} — ${desc}`;
     }).join('\n');
 
-    const prompt = `Group these notes into 3-7 topic clusters based on their content and tags. Return ONLY a JSON array: [{ "topic": "Topic Name", "description": "One sentence description", "noteIndices": [1, 3, 5] }]
-
-Notes:
-${noteList}`;
+    const prompt = await renderPrompt('cluster-moc', { notes: noteList }, workspaceRoot);
 
-    const response = await chatCompletionWithRetry(prompt);
-    const clusters = parseClusterResponse(response);
-
-    if (clusters.length === 0) {
-        throw new Error('AI failed to generate topic clusters.');
-    }
+    const clusters = await chatCompletionStructured(prompt, clustersSchema, { token, feature: 'moc' });
 
     // Create _moc/ directory
     const mocDir = path.join(workspaceRoot, '_moc');
@@ -0,0 +1,37 @@
+import { AIFeature } from './usageLedger';
+
+/**
+ * The provider and model a completion is sent to.
+ */
+export interface ModelRoute {
+    provider: string;
+    model: string;
+}
+
+/**
+ * One entry of the `ai-notes.taskModels` setting. Either field may be left out;
+ * a missing provider means the default provider, a missing model means that
+ * provider's configured model.
+ */
+export interface TaskModelEntry {
+    provider?: string;
+    model?: string;
+}
+
+export type TaskModels = Partial<Record<AIFeature, TaskModelEntry>>;
+
+/**
+ * Picks the route for `feature` from `taskModels`, falling back to the default
+ * provider and `defaultModelFor(provider)` for anything the entry leaves out.
+ */
+export function resolveRoute(
+    feature: AIFeature | undefined,
+    taskModels: TaskModels,
+    defaultProvider: string,
+    defaultModelFor: (provider: string) => string
+): ModelRoute {
+    const entry = feature ? taskModels[feature] : undefined;
+    const provider = entry?.provider?.trim() || defaultProvider;
+    const model = entry?.model?.trim() || defaultModelFor(provider);
+    return { provider, model };
+}
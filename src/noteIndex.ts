@@ -0,0 +1,396 @@
+import * as vscode from 'vscode';
+import * as fsp from 'fs/promises';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { extractMarkdownLinks } from './backlinksWebview';
+import { summaryFromFrontmatter } from './summaries';
+import { parseFrontmatter, frontmatterList } from './frontmatter';
+import { ExclusionRules, IGNORE_FILE, loadExclusionRules } from './exclusions';
+
+/**
+ * One in-memory index of the vault's notes, shared by every feature. It is
+ * filled by a single scan and then kept current by one file watcher, so panels
+ * and commands query memory instead of re-reading every file.
+ */
+
+export interface NoteLink {
+    /** Absolute path of the linked note. */
+    target: string;
+    text: string;
+}
+
+export interface NoteHeading {
+    level: number;
+    text: string;
+    /** Zero-based line in the file, frontmatter included. */
+    line: number;
+}
+
+export interface IndexedNote {
+    filePath: string;
+    /** POSIX-style path relative to the index root. */
+    relPath: string;
+    /** File name without `.md`. */
+    title: string;
+    /** Parsed YAML frontmatter; empty when missing or invalid. */
+    frontmatter: Record<string, unknown>;
+    tags: string[];
+    links: NoteLink[];
+    headings: NoteHeading[];
+    summary: string | null;
+    /** Content after the frontmatter. */
+    body: string;
+    /** Zero-based line in the file on which `body` starts. */
+    bodyLine: number;
+    mtime: number;
+    size: number;
+    /** Content hash; lets a touched but unchanged file skip re-parsing. */
+    hash: string;
+}
+
+export interface NoteQuery {
+    /** Include notes under `_drafts/`. */
+    includeDrafts?: boolean;
+    /** Include generated pages under `_moc/`. */
+    includeGenerated?: boolean;
+}
+
+const DRAFTS_DIR = '_drafts';
+const GENERATED_DIR = '_moc';
+
+/** Bump whenever parseNote's output changes so old snapshots are re-parsed. */
+const SNAPSHOT_VERSION = 3;
+
+interface IndexSnapshot {
+    version: number;
+    rootDir: string;
+    notes: IndexedNote[];
+}
+
+export function contentHash(content: string): string {
+    return crypto.createHash('sha256').update(content).digest('hex').slice(0, 16);
+}
+
+export function extractHeadings(body: string, firstLine = 0): NoteHeading[] {
+    const headings: NoteHeading[] = [];
+    let inFence = false;
+    body.split('\n').forEach((line, i) => {
+        if (/^\s*(```|~~~)/.test(line)) {
+            inFence = !inFence;
+            return;
+        }
+        if (inFence) { return; }
+        const match = line.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/);
+        if (match) {
+            headings.push({ level: match[1].length, text: match[2], line: firstLine + i });
+        }
+    });
+    return headings;
+}
+
+export function parseNote(rootDir: string, filePath: string, content: string, mtime = 0, size = content.length): IndexedNote {
+    const { data, body, bodyLine } = parseFrontmatter(content);
+    return {
+        filePath,
+        relPath: path.relative(rootDir, filePath).split(path.sep).join('/'),
+        title: path.basename(filePath, '.md'),
+        frontmatter: data,
+        tags: frontmatterList(data, 'tags'),
+        links: extractMarkdownLinks(content).map(l => ({ target: path.resolve(path.dirname(filePath), l.href), text: l.text })),
+        headings: extractHeadings(body, bodyLine),
+        summary: summaryFromFrontmatter(data),
+        body,
+        bodyLine,
+        mtime,
+        size,
+        hash: contentHash(content),
+    };
+}
+
+/**
+ * Whether the note sits in a `_drafts` folder, waiting to be classified.
+ */
+export function isDraft(note: IndexedNote): boolean {
+    return note.relPath.split('/').slice(0, -1).includes(DRAFTS_DIR);
+}
+
+function matchesQuery(note: IndexedNote, query: NoteQuery): boolean {
+    if (!query.includeDrafts && isDraft(note)) { return false; }
+    if (!query.includeGenerated && note.relPath.split('/').slice(0, -1).includes(GENERATED_DIR)) { return false; }
+    return true;
+}
+
+export class NoteIndex implements vscode.Disposable {
+    private notes: Map<string, IndexedNote> = new Map();
+    private loaded = false;
+    private syncing?: Promise<void>;
+    private watcher?: vscode.FileSystemWatcher;
+    private storeDir?: string;
+    private rules?: ExclusionRules;
+    private dirty = false;
+    private saveTimer?: NodeJS.Timeout;
+    private changeEmitter = new vscode.EventEmitter<void>();
+    /** Fires after notes were added, changed or removed. */
+    readonly onDidChange = this.changeEmitter.event;
+
+    constructor(readonly rootDir: string) {}
+
+    /**
+     * Starts the file watcher. From then on the index is updated file by file
+     * and `ready()` no longer touches the disk once the first scan is done.
+     */
+    watch(): void {
+        if (this.watcher) { return; }
+        // Watch everything, not just *.md: renaming or deleting a folder only
+        // reports the folder itself.
+        const watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(this.rootDir, '**/*'));
+        watcher.onDidChange(uri => this.onFileEvent(uri.fsPath).catch(() => {}));
+        watcher.onDidCreate(uri => this.onFileEvent(uri.fsPath).catch(() => {}));
+        watcher.onDidDelete(uri => {
+            if (uri.fsPath === path.join(this.rootDir, IGNORE_FILE)) {
+                this.reloadExclusions().catch(() => {});
+            } else {
+                this.removePath(uri.fsPath);
+            }
+        });
+        this.watcher = watcher;
+    }
+
+    /**
+     * Keeps a snapshot of the parsed notes in `storeDir`. The first `ready()`
+     * starts from it and re-parses only files whose mtime or size changed.
+     */
+    persistTo(storeDir: string): void {
+        this.storeDir = storeDir;
+    }
+
+    /**
+     * Resolves once the index reflects the disk. Without a watcher every call
+     * re-checks file mtimes and re-parses only the files that changed.
+     */
+    async ready(): Promise<void> {
+        if (this.watcher && this.loaded) { return; }
+        if (!this.syncing) {
+            this.syncing = this.sync().finally(() => { this.syncing = undefined; });
+        }
+        await this.syncing;
+    }
+
+    /** Notes sorted by path. Drafts and generated MOC pages are left out unless asked for. */
+    all(query: NoteQuery = {}): IndexedNote[] {
+        return Array.from(this.notes.values())
+            .filter(note => matchesQuery(note, query))
+            .sort((a, b) => a.filePath.localeCompare(b.filePath));
+    }
+
+    get(filePath: string): IndexedNote | undefined {
+        return this.notes.get(filePath);
+    }
+
+    /** Every link pointing at `filePath`, from any note including drafts. */
+    backlinksTo(filePath: string): Array<{ fromFile: string; linkText: string }> {
+        const backlinks: Array<{ fromFile: string; linkText: string }> = [];
+        for (const note of this.all({ includeDrafts: true, includeGenerated: true })) {
+            for (const link of note.links) {
+                if (link.target === filePath) {
+                    backlinks.push({ fromFile: note.filePath, linkText: link.text });
+                }
+            }
+        }
+        return backlinks;
+    }
+
+    getTagsWithFrequency(): Array<{ tag: string; count: number }> {
+        const counts: Map<string, number> = new Map();
+        for (const note of this.notes.values()) {
+            for (const tag of note.tags) {
+                counts.set(tag, (counts.get(tag) || 0) + 1);
+            }
+        }
+        return Array.from(counts.entries())
+            .map(([tag, count]) => ({ tag, count }))
+            .sort((a, b) => b.count - a.count);
+    }
+
+    getAllTags(): string[] {
+        return this.getTagsWithFrequency().map(t => t.tag).sort();
+    }
+
+    dispose(): void {
+        if (this.saveTimer) {
+            clearTimeout(this.saveTimer);
+            this.saveTimer = undefined;
+            this.saveSnapshot().catch(() => {});
+        }
+        this.watcher?.dispose();
+        this.watcher = undefined;
+        this.changeEmitter.dispose();
+        if (indexes.get(this.rootDir) === this) { indexes.delete(this.rootDir); }
+    }
+
+    /**
+     * Re-reads `.ainotesignore` and `ai-notes.exclude` and rescans: notes that
+     * became excluded are dropped, notes that no longer are get indexed.
+     */
+    async reloadExclusions(): Promise<void> {
+        await this.rescan();
+    }
+
+    /** A full sync that waits for, rather than joins, one already running. */
+    private async rescan(): Promise<void> {
+        await this.syncing;
+        this.syncing = this.sync().finally(() => { this.syncing = undefined; });
+        await this.syncing;
+    }
+
+    private isIndexable(filePath: string, isDirectory = false): boolean {
+        const rel = path.relative(this.rootDir, filePath);
+        if (rel.startsWith('..') || path.isAbsolute(rel)) { return false; }
+        return !!this.rules && !this.rules.isExcluded(filePath, isDirectory);
+    }
+
+    private async sync(): Promise<void> {
+        if (!this.loaded) { await this.loadSnapshot(); }
+        this.rules = await loadExclusionRules(this.rootDir);
+        const seen = new Set<string>();
+        let changed = false;
+        const walk = async (dir: string): Promise<void> => {
+            let entries;
+            try {
+                entries = await fsp.readdir(dir, { withFileTypes: true });
+            } catch { return; }
+            for (const entry of entries) {
+                const fullPath = path.join(dir, entry.name);
+                if (!this.isIndexable(fullPath, entry.isDirectory())) { continue; }
+                if (entry.isDirectory()) {
+                    await walk(fullPath);
+                } else if (entry.isFile() && entry.name.endsWith('.md')) {
+                    seen.add(fullPath);
+                    if (await this.refreshFile(fullPath)) { changed = true; }
+                }
+            }
+        };
+        await walk(this.rootDir);
+        for (const filePath of Array.from(this.notes.keys())) {
+            if (!seen.has(filePath)) {
+                this.notes.delete(filePath);
+                changed = true;
+            }
+        }
+        this.loaded = true;
+        if (changed) { this.changeEmitter.fire(); }
+        if (changed || this.dirty) { await this.saveSnapshot(); }
+    }
+
+    private async loadSnapshot(): Promise<void> {
+        if (!this.storeDir) { return; }
+        try {
+            const snapshot: IndexSnapshot = JSON.parse(await fsp.readFile(path.join(this.storeDir, 'notes.json'), 'utf8'));
+            if (snapshot.version !== SNAPSHOT_VERSION || snapshot.rootDir !== this.rootDir) { return; }
+            for (const note of snapshot.notes) {
+                this.notes.set(note.filePath, note);
+            }
+        } catch {
+            // Missing or corrupt snapshot: the scan re-parses everything.
+        }
+    }
+
+    private async saveSnapshot(): Promise<void> {
+        if (!this.storeDir) { return; }
+        this.dirty = false;
+        const snapshot: IndexSnapshot = { version: SNAPSHOT_VERSION, rootDir: this.rootDir, notes: Array.from(this.notes.values()) };
+        const filePath = path.join(this.storeDir, 'notes.json');
+        try {
+            await fsp.mkdir(this.storeDir, { recursive: true });
+            // Write then rename so a crash never leaves a half-written snapshot.
+            await fsp.writeFile(filePath + '.tmp', JSON.stringify(snapshot), 'utf8');
+            await fsp.rename(filePath + '.tmp', filePath);
+        } catch (err: any) {
+            console.warn(`Could not save the note index: ${err.message}`);
+        }
+    }
+
+    private scheduleSave(): void {
+        if (!this.storeDir) { return; }
+        this.dirty = true;
+        if (this.saveTimer) { clearTimeout(this.saveTimer); }
+        this.saveTimer = setTimeout(() => {
+            this.saveTimer = undefined;
+            this.saveSnapshot().catch(() => {});
+        }, 2000);
+    }
+
+    /**
+     * Re-parses `filePath` if its mtime or size changed and its content hash
+     * differs. Returns whether the index changed.
+     */
+    private async refreshFile(filePath: string): Promise<boolean> {
+        let stat;
+        let content;
+        const existing = this.notes.get(filePath);
+        try {
+            stat = await fsp.stat(filePath);
+            if (existing && existing.mtime === stat.mtimeMs && existing.size === stat.size) { return false; }
+            content = await fsp.readFile(filePath, 'utf8');
+        } catch {
+            return this.notes.delete(filePath);
+        }
+        if (existing && existing.hash === contentHash(content)) {
+            existing.mtime = stat.mtimeMs;
+            existing.size = stat.size;
+            this.dirty = true;
+            return false;
+        }
+        this.notes.set(filePath, parseNote(this.rootDir, filePath, content, stat.mtimeMs, stat.size));
+        return true;
+    }
+
+    private async onFileEvent(filePath: string): Promise<void> {
+        if (filePath === path.join(this.rootDir, IGNORE_FILE)) {
+            await this.reloadExclusions();
+            return;
+        }
+        if (filePath.endsWith('.md')) {
+            if (!this.isIndexable(filePath)) { return; }
+            if (await this.refreshFile(filePath)) {
+                this.changeEmitter.fire();
+                this.scheduleSave();
+            }
+            return;
+        }
+        // A folder appeared (created, or renamed from elsewhere): pick up its notes.
+        try {
+            if ((await fsp.stat(filePath)).isDirectory() && this.isIndexable(filePath, true)) { await this.rescan(); }
+        } catch {}
+    }
+
+    private removePath(fsPath: string): void {
+        let changed = false;
+        for (const filePath of Array.from(this.notes.keys())) {
+            if (filePath === fsPath || filePath.startsWith(fsPath + path.sep)) {
+                this.notes.delete(filePath);
+                changed = true;
+            }
+        }
+        if (changed) {
+            this.changeEmitter.fire();
+            this.scheduleSave();
+        }
+    }
+}
+
+const indexes: Map<string, NoteIndex> = new Map();
+
+/**
+ * The shared index for `rootDir`. The extension starts its watcher on
+ * activation; callers should `await index.ready()` before querying.
+ */
+export function getNoteIndex(rootDir: string): NoteIndex {
+    const key = path.resolve(rootDir);
+    let index = indexes.get(key);
+    if (!index) {
+        index = new NoteIndex(key);
+        indexes.set(key, index);
+    }
+    return index;
+}
@@ -2,8 +2,12 @@ import * as vscode from 'vscode';
 import * as fsp from 'fs/promises';
 import * as fs from 'fs';
 import * as path from 'path';
-import { v4 as uuidv4 } from 'uuid';
 import { chatCompletionWithRetry } from './ai';
+import { renderPrompt } from './prompts';
+import { stripFrontmatter, setFrontmatterKeys } from './frontmatter';
+import { fileNamePattern, renderFileName, uniqueNotePath, isoDate } from './noteNaming';
+
+export { stripFrontmatter };
 
 export function countWords(text: string): number {
     const trimmed = text.trim();
@@ -11,11 +15,7 @@ export function countWords(text: string): number {
     return trimmed.split(/\s+/).length;
 }
 
-export function stripFrontmatter(content: string): string {
-    return content.replace(/^---\n(?:.*\n)*?---\n/, '');
-}
-
-export async function mergeNotes(notePaths: string[], workspaceRoot: string): Promise<string> {
+export async function mergeNotes(notePaths: string[], workspaceRoot: string, token?: vscode.CancellationToken): Promise<string> {
     const contents: string[] = [];
     let totalWords = 0;
 
@@ -38,13 +38,9 @@ export async function mergeNotes(notePaths: string[], workspaceRoot: string): Pr
     }
 
     const combined = contents.join('\n\n---\n\n');
-    const prompt = `Merge these notes into a single comprehensive document. Preserve all key information, remove redundancy, organize logically with clear headings. Output markdown only.
+    const prompt = await renderPrompt('merge-notes', { notes: combined }, workspaceRoot);
 
-Notes to merge:
-
-${combined}`;
-
-    const merged = await chatCompletionWithRetry(prompt);
+    const merged = await chatCompletionWithRetry(prompt, { token, feature: 'merge' });
 
     // Write to _drafts/
     const draftsDir = path.join(workspaceRoot, '_drafts');
@@ -53,12 +49,14 @@ ${combined}`;
     }
 
     const date = new Date();
-    const dd = String(date.getDate()).padStart(2, '0');
-    const mm = String(date.getMonth() + 1).padStart(2, '0');
-    const yyyy = date.getFullYear();
-    const fileName = `merged_${dd}-${mm}-${yyyy}_${uuidv4().slice(0, 8)}.md`;
-    const outputPath = path.join(draftsDir, fileName);
+    const outputPath = uniqueNotePath(draftsDir, renderFileName(fileNamePattern(), { name: 'merged', date }));
 
-    await fsp.writeFile(outputPath, merged, 'utf8');
+    let content = merged;
+    try {
+        content = setFrontmatterKeys(merged, { created: isoDate(date), updated: isoDate(date) });
+    } catch {
+        // The model wrote frontmatter that is not valid YAML; keep its text as is.
+    }
+    await fsp.writeFile(outputPath, content, 'utf8');
     return outputPath;
 }
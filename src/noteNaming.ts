@@ -0,0 +1,142 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { slugify } from './mocGenerator';
+import { frontmatterString, parseFrontmatter, setFrontmatterKeys } from './frontmatter';
+
+/**
+ * Note file names and dates. File names come from the `ai-notes.fileNamePattern`
+ * setting; a note's date is its `created` frontmatter key, falling back to a
+ * date in its file name for notes written before the key existed.
+ */
+
+export const DEFAULT_FILE_NAME_PATTERN = '{date:YYYY-MM-DD}_{slug}';
+
+export interface FileNameValues {
+    /** Human name of the note; slugified for `{slug}`. */
+    name: string;
+    date: Date;
+    /** Short random id for `{id}`; generated when not given. */
+    id?: string;
+}
+
+export function fileNamePattern(): string {
+    const configured = vscode.workspace.getConfiguration('ai-notes').get<string>('fileNamePattern', DEFAULT_FILE_NAME_PATTERN);
+    return typeof configured === 'string' && configured.trim().length > 0 ? configured.trim() : DEFAULT_FILE_NAME_PATTERN;
+}
+
+/**
+ * Formats `date` in local time. Supports `YYYY`, `YY`, `MM`, `DD`, `HH`, `mm`
+ * and `ss`; everything else is copied as is.
+ */
+export function formatDate(date: Date, format: string): string {
+    const pad = (n: number) => String(n).padStart(2, '0');
+    const parts: Record<string, string> = {
+        YYYY: String(date.getFullYear()),
+        YY: String(date.getFullYear()).slice(-2),
+        MM: pad(date.getMonth() + 1),
+        DD: pad(date.getDate()),
+        HH: pad(date.getHours()),
+        mm: pad(date.getMinutes()),
+        ss: pad(date.getSeconds()),
+    };
+    return format.replace(/YYYY|YY|MM|DD|HH|mm|ss/g, token => parts[token]);
+}
+
+/** The ISO date (`YYYY-MM-DD`) written to `created` and `updated`. */
+export function isoDate(date: Date): string {
+    return formatDate(date, 'YYYY-MM-DD');
+}
+
+/**
+ * Expands a file name pattern, without the `.md` extension. Tokens:
+ * `{date}` / `{date:FORMAT}` (default `YYYY-MM-DD`), `{time}` / `{time:FORMAT}`
+ * (default `HHmm`), `{slug}` and `{id}`. Unknown tokens are left as written;
+ * characters that are not allowed in file names are dropped.
+ */
+export function renderFileName(pattern: string, values: FileNameValues): string {
+    const slug = slugify(values.name) || 'note';
+    const id = values.id ?? uuidv4().slice(0, 8);
+    const rendered = pattern.replace(/\{(date|time|slug|id)(?::([^}]*))?\}/g, (_match, token: string, format?: string) => {
+        switch (token) {
+            case 'date': return formatDate(values.date, format || 'YYYY-MM-DD');
+            case 'time': return formatDate(values.date, format || 'HHmm');
+            case 'slug': return slug;
+            default: return id;
+        }
+    });
+    const safe = rendered.replace(/[<>:"/\\|?*\x00-\x1f]/g, '').trim().replace(/^\.+/, '');
+    return safe.length > 0 ? safe : slug;
+}
+
+/**
+ * `dir/<base>.md`, or `dir/<base>-2.md`, `-3`, ... when that file exists.
+ * `currentPath` is the note being renamed, which may keep its own name.
+ */
+export function uniqueNotePath(dir: string, base: string, currentPath?: string): string {
+    let candidate = path.join(dir, `${base}.md`);
+    for (let n = 2; candidate !== currentPath && fs.existsSync(candidate); n++) {
+        candidate = path.join(dir, `${base}-${n}.md`);
+    }
+    return candidate;
+}
+
+/**
+ * Reads a date from a file name: ISO `YYYY-MM-DD` and the older `DD-MM-YYYY`
+ * form.
+ */
+export function parseDateFromFilename(filename: string): Date | null {
+    const iso = filename.match(/(?<!\d)(\d{4})-(\d{2})-(\d{2})(?!\d)/);
+    if (iso) {
+        const date = toDate(iso[1], iso[2], iso[3]);
+        if (date) { return date; }
+    }
+    const legacy = filename.match(/(?<!\d)(\d{2})-(\d{2})-(\d{4})(?!\d)/);
+    return legacy ? toDate(legacy[3], legacy[2], legacy[1]) : null;
+}
+
+/**
+ * Reads a frontmatter date such as `2026-05-01` or `2026-05-01T09:30`.
+ */
+export function parseFrontmatterDate(value: string | null): Date | null {
+    if (!value) { return null; }
+    const match = value.match(/^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2}))?)?/);
+    if (!match) { return null; }
+    const date = toDate(match[1], match[2], match[3]);
+    if (date && match[4]) {
+        date.setHours(parseInt(match[4]), parseInt(match[5]), parseInt(match[6] ?? '0'));
+    }
+    return date;
+}
+
+/**
+ * When a note was created: its `created` frontmatter date, else a date in its
+ * file name, else null.
+ */
+export function noteDate(frontmatter: Record<string, unknown>, filePath: string): Date | null {
+    return parseFrontmatterDate(frontmatterString(frontmatter, 'created'))
+        ?? parseDateFromFilename(path.basename(filePath));
+}
+
+/**
+ * `content` with `updated` set to `today`, or null when nothing changes. Only
+ * notes that already carry an `updated` key are touched.
+ */
+export function stampUpdatedDate(content: string, today: Date): string | null {
+    const { data, error } = parseFrontmatter(content);
+    if (error || !('updated' in data)) { return null; }
+    const stamp = isoDate(today);
+    if (frontmatterString(data, 'updated') === stamp) { return null; }
+    return setFrontmatterKeys(content, { updated: stamp });
+}
+
+function toDate(yyyy: string, mm: string, dd: string): Date | null {
+    const year = parseInt(yyyy), month = parseInt(mm), day = parseInt(dd);
+    const date = new Date(year, month - 1, day);
+    // Reject rollovers such as 31-02 and numbers that are not dates at all.
+    if (isNaN(date.getTime()) || date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) {
+        return null;
+    }
+    return date;
+}
@@ -1,7 +1,8 @@
 import * as vscode from 'vscode';
-import * as fs from 'fs';
-import * as fsp from 'fs/promises';
 import * as path from 'path';
+import { VaultManager } from './vaults';
+import { getFullTextIndex } from './fullTextSearch';
+import { parseQuery, matchesFilters, QueryError } from './searchQuery';
 
 function escapeHtml(str: string): string {
     return str.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#039;');
@@ -13,7 +14,9 @@ export class NotesByTagWebviewProvider implements vscode.WebviewViewProvider {
     public onBulkReclassify?: (paths: string[]) => void;
     public onMergeNotes?: (paths: string[]) => void;
 
-    constructor(private workspaceRoot: string) {}
+    private filter = '';
+
+    constructor(private vaults: VaultManager) {}
 
     resolveWebviewView(
         webviewView: vscode.WebviewView,
@@ -26,6 +29,11 @@ export class NotesByTagWebviewProvider implements vscode.WebviewViewProvider {
         webviewView.webview.html = this.getHtmlForWebview({}, '');
         this.updateWebview(webviewView, '').catch(() => {});
 
+        const selectionListener = this.vaults.onDidChangeSelection(() => {
+            this.updateWebview(webviewView, this.filter).catch(() => {});
+        });
+        webviewView.onDidDispose(() => selectionListener.dispose());
+
         webviewView.webview.onDidReceiveMessage(async message => {
             if (message.command === 'filter') {
                 const filter = message.text.trim();
@@ -51,11 +59,18 @@ export class NotesByTagWebviewProvider implements vscode.WebviewViewProvider {
     }
 
     private async updateWebview(webviewView: vscode.WebviewView, filter: string): Promise<void> {
-        const notesByTag = await this.getNotesByTag(filter);
-        webviewView.webview.html = this.getHtmlForWebview(notesByTag, filter);
+        this.filter = filter;
+        webviewView.description = this.vaults.vaults().length > 1 ? this.vaults.selected?.name : undefined;
+        try {
+            const notesByTag = await this.getNotesByTag(filter);
+            webviewView.webview.html = this.getHtmlForWebview(notesByTag, filter);
+        } catch (err: any) {
+            if (!(err instanceof QueryError)) { throw err; }
+            webviewView.webview.html = this.getHtmlForWebview({}, filter, err.message);
+        }
     }
 
-    private getHtmlForWebview(notesByTag: Record<string, Array<{ path: string; summary: string | null }>>, filter: string): string {
+    private getHtmlForWebview(notesByTag: Record<string, Array<{ path: string; summary: string | null }>>, filter: string, error?: string): string {
         const tags = Object.keys(notesByTag).sort();
         return `
             <style>
@@ -186,7 +201,7 @@ export class NotesByTagWebviewProvider implements vscode.WebviewViewProvider {
             </style>
             <div class="filter-bar">
                 <span class="icon-search">&#128269;</span>
-                <input id="filter" type="text" placeholder="Filter tags..." value="${escapeHtml(filter)}" />
+                <input id="filter" type="text" placeholder="Filter tags, or tag:, path:, after:, status:..." value="${escapeHtml(filter)}" />
                 <button id="expandAll" title="Expand all tags" style="margin-left:8px;">expand</button>
                 <button id="collapseAll" title="Collapse all tags" style="margin-left:2px;">collapse</button>
                 <button id="refreshTags" title="Refresh tags" style="margin-left:8px;">&#10227;</button>
@@ -196,7 +211,7 @@ export class NotesByTagWebviewProvider implements vscode.WebviewViewProvider {
                 <button id="mergeSelected" title="Merge selected notes" style="margin-left:4px;">Merge Selected</button>
             </div>
             <div id="tags-list">
-                ${tags.length === 0 ? '<i>No tags found.</i>' : tags.map(tag => `
+                ${error ? `<i>${escapeHtml(error)}</i>` : tags.length === 0 ? '<i>No tags found.</i>' : tags.map(tag => `
                     <div class="tag collapsed" data-tag="${escapeHtml(tag)}"><span class="arrow">&#9660;</span>${escapeHtml(tag)}</div>
                     <div class="notes" data-tag-notes="${escapeHtml(tag)}" style="display:none;">
                         ${notesByTag[tag].map(note => `
@@ -335,55 +350,29 @@ export class NotesByTagWebviewProvider implements vscode.WebviewViewProvider {
         `;
     }
 
+    /**
+     * Notes grouped by tag. `filter` uses the search query language: its
+     * filters narrow the notes, and its free text narrows the tag names.
+     */
     private async getNotesByTag(filter: string): Promise<Record<string, Array<{ path: string; summary: string | null }>>> {
         const notesByTag: Record<string, Array<{ path: string; summary: string | null }>> = {};
-
-        const walk = async (dir: string): Promise<void> => {
-            let entries: fs.Dirent[];
-            try {
-                entries = await fsp.readdir(dir, { withFileTypes: true });
-            } catch {
-                return;
-            }
-            const excludedDirs = new Set(['.git', 'node_modules', '.vscode', '.claude']);
-            for (const entry of entries) {
-                const fullPath = path.join(dir, entry.name);
-                if (entry.isDirectory()) {
-                    if (!excludedDirs.has(entry.name)) { await walk(fullPath); }
-                } else if (entry.name.endsWith('.md')) {
-                    try {
-                        const content = await fsp.readFile(fullPath, 'utf8');
-                        const match = content.match(/^---\n([\s\S]*?)\n---/);
-                        if (match) {
-                            const yaml = match[1];
-                            const tagsLine = yaml.split('\n').find(line => line.trim().startsWith('tags:'));
-                            if (tagsLine) {
-                                const tagsMatch = tagsLine.match(/\[(.*?)\]/);
-                                if (tagsMatch) {
-                                    const tags = tagsMatch[1].split(',').map(t => t.trim()).filter(Boolean);
-                                    const summaryLine = yaml.split('\n').find(line => line.trim().startsWith('summary:'));
-                                    let summary: string | null = null;
-                                    if (summaryLine) {
-                                        const sMatch = summaryLine.match(/^summary:\s*"?([^"]*)"?\s*$/);
-                                        if (sMatch && sMatch[1]) { summary = sMatch[1].trim(); }
-                                    }
-                                    for (const tag of tags) {
-                                        if (!filter || tag.includes(filter)) {
-                                            if (!notesByTag[tag]) { notesByTag[tag] = []; }
-                                            notesByTag[tag].push({ path: fullPath, summary });
-                                        }
-                                    }
-                                }
-                            }
-                        }
-                    } catch {
-                        // skip unreadable files
-                    }
+        const query = parseQuery(filter);
+        const vault = this.vaults.selected;
+        if (!vault) { return notesByTag; }
+        const index = this.vaults.index(vault);
+        await index.ready();
+        const fullText = getFullTextIndex(index);
+        if (query.filters.length > 0) { await fullText.ready(); }
+        const tagFilter = query.text.replace(/"/g, '');
+        for (const note of index.all({ includeDrafts: true, includeGenerated: true })) {
+            if (!matchesFilters(note, query, (n, term) => fullText.contains(n.filePath, term.value, term.phrase))) { continue; }
+            for (const tag of note.tags) {
+                if (!tagFilter || tag.includes(tagFilter)) {
+                    if (!notesByTag[tag]) { notesByTag[tag] = []; }
+                    notesByTag[tag].push({ path: note.filePath, summary: note.summary });
                 }
             }
-        };
-
-        await walk(this.workspaceRoot);
+        }
         return notesByTag;
     }
 }
@@ -0,0 +1,184 @@
+import * as vscode from 'vscode';
+import { getCredential } from './credentials';
+import { ProviderHttpError } from './retryPolicy';
+
+export interface OpenAICompatibleOptions {
+    baseUrl: string;
+    model: string;
+    apiKey?: string;
+}
+
+/**
+ * Builds the chat completions URL from a base URL such as `http://localhost:11434/v1`.
+ */
+export function chatCompletionsUrl(baseUrl: string): string {
+    return `${baseUrl.trim().replace(/\/+$/, '')}/chat/completions`;
+}
+
+/**
+ * Endpoint settings for the OpenAI-compatible provider. The API key is read from
+ * SecretStorage, never from settings.
+ */
+export async function openAICompatibleOptionsFromConfig(): Promise<OpenAICompatibleOptions> {
+    return {
+        baseUrl: openAICompatibleBaseUrlFromConfig(),
+        model: openAICompatibleModelFromConfig(),
+        apiKey: await getCredential('openAICompatibleApiKey'),
+    };
+}
+
+function openAICompatibleBaseUrlFromConfig(): string {
+    return vscode.workspace.getConfiguration('ai-notes').get<string>('openAICompatibleBaseUrl') || 'http://localhost:11434/v1';
+}
+
+export function openAICompatibleModelFromConfig(): string {
+    const config = vscode.workspace.getConfiguration('ai-notes');
+    return config.get<string>('openAICompatibleModel') || config.get<string>('aiModel') || 'llama3.1';
+}
+
+/**
+ * Extracts the content deltas from complete server-sent-event lines of a streamed
+ * chat completion. Returns `done: true` once the `[DONE]` sentinel is seen.
+ */
+export function parseStreamLines(lines: string[]): { deltas: string[]; done: boolean } {
+    const deltas: string[] = [];
+    for (const line of lines) {
+        const trimmed = line.trim();
+        if (!trimmed.startsWith('data:')) { continue; }
+        const payload = trimmed.slice(5).trim();
+        if (payload === '[DONE]') { return { deltas, done: true }; }
+        try {
+            const delta = JSON.parse(payload)?.choices?.[0]?.delta?.content;
+            if (typeof delta === 'string' && delta.length > 0) {
+                deltas.push(delta);
+            }
+        } catch {
+            // ignore keep-alive comments and malformed events
+        }
+    }
+    return { deltas, done: false };
+}
+
+async function postChatCompletion(prompt: string, options: OpenAICompatibleOptions, stream: boolean, signal?: AbortSignal): Promise<Response> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (options.apiKey) {
+        headers['Authorization'] = `Bearer ${options.apiKey}`;
+    }
+
+    let response: Response;
+    try {
+        response = await fetch(chatCompletionsUrl(options.baseUrl), {
+            method: 'POST',
+            headers,
+            body: JSON.stringify({
+                model: options.model,
+                messages: [{ role: 'user', content: prompt }],
+                stream,
+            }),
+            signal,
+        });
+    } catch (err: any) {
+        if (signal?.aborted) { throw err; }
+        throw new Error(`Could not reach OpenAI-compatible endpoint at ${options.baseUrl}: ${err.message}`);
+    }
+
+    if (!response.ok) {
+        const body = await response.text().catch(() => '');
+        throw new ProviderHttpError(`OpenAI-compatible endpoint returned ${response.status}: ${body.slice(0, 200)}`, response.status);
+    }
+    return response;
+}
+
+/**
+ * Sends a single-turn chat completion to any server implementing the OpenAI
+ * `/v1/chat/completions` API (Ollama, llama.cpp, LM Studio, vLLM, ...).
+ */
+export async function openAICompatibleChatCompletion(prompt: string, options: OpenAICompatibleOptions, signal?: AbortSignal): Promise<string> {
+    const response = await postChatCompletion(prompt, options, false, signal);
+    const data: any = await response.json();
+    const content = data?.choices?.[0]?.message?.content;
+
+    if (typeof content !== 'string' || content.length === 0) {
+        throw new Error('AI response is empty or undefined.');
+    }
+
+    return content;
+}
+
+/**
+ * Streams a chat completion from an OpenAI-compatible endpoint, yielding content
+ * deltas as they arrive. Aborting `signal` stops the underlying request.
+ */
+export async function* openAICompatibleChatCompletionStream(prompt: string, options: OpenAICompatibleOptions, signal?: AbortSignal): AsyncGenerator<string> {
+    const response = await postChatCompletion(prompt, options, true, signal);
+    if (!response.body) {
+        throw new Error('AI response is empty or undefined.');
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    try {
+        while (true) {
+            const { value, done } = await reader.read();
+            if (done) { break; }
+            buffer += decoder.decode(value, { stream: true });
+            const lines = buffer.split('\n');
+            buffer = lines.pop() ?? '';
+            const parsed = parseStreamLines(lines);
+            yield* parsed.deltas;
+            if (parsed.done) { return; }
+        }
+        yield* parseStreamLines([buffer]).deltas;
+    } finally {
+        reader.releaseLock();
+    }
+}
+
+/**
+ * Builds the embeddings URL from a base URL such as `http://localhost:11434/v1`.
+ */
+export function embeddingsUrl(baseUrl: string): string {
+    return `${baseUrl.trim().replace(/\/+$/, '')}/embeddings`;
+}
+
+/**
+ * Embeds `texts` with an OpenAI-compatible `/v1/embeddings` endpoint (Ollama,
+ * llama.cpp, LM Studio, ...). Vectors come back in the order of `texts`.
+ */
+export async function openAICompatibleEmbeddings(texts: string[], options: OpenAICompatibleOptions, signal?: AbortSignal): Promise<number[][]> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (options.apiKey) {
+        headers['Authorization'] = `Bearer ${options.apiKey}`;
+    }
+
+    let response: Response;
+    try {
+        response = await fetch(embeddingsUrl(options.baseUrl), {
+            method: 'POST',
+            headers,
+            body: JSON.stringify({ model: options.model, input: texts }),
+            signal,
+        });
+    } catch (err: any) {
+        if (signal?.aborted) { throw err; }
+        throw new Error(`Could not reach OpenAI-compatible endpoint at ${options.baseUrl}: ${err.message}`);
+    }
+
+    if (!response.ok) {
+        const body = await response.text().catch(() => '');
+        throw new ProviderHttpError(`OpenAI-compatible endpoint returned ${response.status}: ${body.slice(0, 200)}`, response.status);
+    }
+
+    const data: any = await response.json();
+    const items: any[] = Array.isArray(data?.data) ? data.data : [];
+    const vectors: number[][] = new Array(texts.length);
+    items.forEach((item, i) => {
+        const index = typeof item?.index === 'number' ? item.index : i;
+        if (Array.isArray(item?.embedding)) { vectors[index] = item.embedding; }
+    });
+    for (let i = 0; i < texts.length; i++) {
+        if (!vectors[i]) { throw new Error(`Embeddings response is missing vector ${i}.`); }
+    }
+    return vectors;
+}
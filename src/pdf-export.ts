@@ -4,15 +4,17 @@ import * as fs from 'fs';
 import * as os from 'os';
 import { marked } from 'marked';
 import { execFile } from 'child_process';
+import { pathToFileURL } from 'url';
+import { stripFrontmatter } from './frontmatter';
 
-function embedImagesInMarkdown(mdContent: string, mdFilePath: string): string {
+function embedImagesInMarkdown(mdContent: string, baseDir: string): string {
     return mdContent.replace(/!\[(.*?)\]\((.*?)\)/g, (match, alt, imgPath) => {
         if (/^https?:\/\//.test(imgPath)) {
             return match;
         }
         const absPath = path.isAbsolute(imgPath)
             ? imgPath
-            : path.join(path.dirname(mdFilePath), imgPath);
+            : path.join(baseDir, imgPath);
         if (!fs.existsSync(absPath)) {
             return match;
         }
@@ -67,7 +69,12 @@ function findChromePath(): string | undefined {
     }
 }
 
-export async function exportMarkdownToPdf(mdFilePath: string): Promise<void> {
+/**
+ * Prints a markdown file to PDF with a local Chrome, Edge or Chromium. The PDF
+ * goes next to the file unless `pdfPath` says otherwise. Relative image paths
+ * and links are resolved against `baseDir`, the file's folder by default.
+ */
+export async function exportMarkdownToPdf(mdFilePath: string, pdfPath = mdFilePath.replace(/\.md$/, '.pdf'), baseDir = path.dirname(mdFilePath)): Promise<void> {
     const chromePath = findChromePath();
     if (!chromePath) {
         vscode.window.showErrorMessage(
@@ -77,13 +84,14 @@ export async function exportMarkdownToPdf(mdFilePath: string): Promise<void> {
     }
 
     const mdContent = fs.readFileSync(mdFilePath, 'utf8');
-    const mdContentNoFrontmatter = mdContent.replace(/^---\n[\s\S]*?---\n/, '');
-    const mdWithEmbeddedImages = embedImagesInMarkdown(mdContentNoFrontmatter, mdFilePath);
+    const mdContentNoFrontmatter = stripFrontmatter(mdContent);
+    const mdWithEmbeddedImages = embedImagesInMarkdown(mdContentNoFrontmatter, baseDir);
 
     const htmlContent = `<!DOCTYPE html>
 <html>
 <head>
     <meta charset="utf-8">
+    <base href="${pathToFileURL(baseDir + path.sep).href}">
     <style>
         @page { margin: 2cm; }
         img { max-width: 100%; height: auto; display: block; margin: 1em auto; }
@@ -96,7 +104,6 @@ export async function exportMarkdownToPdf(mdFilePath: string): Promise<void> {
 </html>`;
 
     const tmpHtml = path.join(os.tmpdir(), `vscode-ai-notes-export-${Date.now()}.html`);
-    const pdfPath = mdFilePath.replace(/\.md$/, '.pdf');
 
     fs.writeFileSync(tmpHtml, htmlContent, { encoding: 'utf8' });
 
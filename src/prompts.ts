@@ -0,0 +1,276 @@
+import * as path from 'path';
+import * as fsp from 'fs/promises';
+
+/**
+ * A named prompt. `template` uses `{{variable}}` placeholders; `variables` lists
+ * the ones callers must supply, which is also what an override may reference.
+ */
+export interface PromptDefinition<V extends string = string> {
+    description: string;
+    variables: readonly V[];
+    template: string;
+}
+
+function definePrompt<const V extends string>(definition: PromptDefinition<V>): PromptDefinition<V> {
+    return definition;
+}
+
+export const PROMPTS = {
+    'classify-note': definePrompt({
+        description: 'Tags, name and folder for a note (auto-classify, reclassify, bulk classify)',
+        variables: ['folders', 'content'],
+        template: `You are an AI assistant for note-taking.
+Given the following note content, do the following:
+1. Extract up to 5 relevant tags (single words, comma-separated, lowercase, no spaces).
+2. Suggest a concise, descriptive name for the note (lowercase, dash-separated, no special characters or spaces).
+3. Suggest the most appropriate folder path for this note from the following list: [{{folders}}]. If none are suitable, propose a new folder path (up to 3 levels deep, using lowercase letters and dashes).
+
+Respond in JSON format:
+{
+  "tags": ["tag1", "tag2", ...],
+  "name": "suggested-note-name",
+  "path": "suggested/folder/path"
+}
+
+Note content:
+"""{{content}}"""`,
+    }),
+
+    'generate-name': definePrompt({
+        description: 'Note name from a list of tags',
+        variables: ['tags'],
+        template: `You are an AI assistant for note-taking.
+Given the following tags, generate a concise and descriptive name for a note.
+The name should be lowercase, single line, dash-separated, and should not include any special characters or spaces.
+Output the name as a single line of text.
+
+Tags:
+{{tags}}`,
+    }),
+
+    'generate-tags': definePrompt({
+        description: 'Comma-separated tags for a note',
+        variables: ['content'],
+        template: `You are an AI assistant for note-taking.
+Given the following note content, extract up to 5 relevant tags (single words, comma-separated, lowercase, no spaces).
+Respond with only the tags.
+
+Note content:
+{{content}}`,
+    }),
+
+    'generate-path': definePrompt({
+        description: 'Folder for a note given its tags',
+        variables: ['tags', 'content', 'folders'],
+        template: `Given the following tags: {{tags}}, note content: """{{content}}""", and these existing folders: [{{folders}}]. Choose the most appropriate folder from the list for categorizing this note. If none are suitable, propose a new folder path (up to 3 levels deep, using lowercase letters and dashes). Output only the selected path.`,
+    }),
+
+    'summarize-note': definePrompt({
+        description: 'One-sentence summary stored in frontmatter',
+        variables: ['content'],
+        template: `Summarize this note in one concise sentence (max 15 words). Output only the summary, no quotes or extra formatting.
+
+Note content:
+"""{{content}}"""`,
+    }),
+
+    'search-notes': definePrompt({
+        description: 'Reranking of the top keyword search hits',
+        variables: ['query', 'notes'],
+        template: `You are a note search assistant. Given the search query and a list of notes with their summaries and tags, return the most relevant notes (up to 10), ranked by relevance, each with a short reason.
+
+Query: "{{query}}"
+
+Notes:
+{{notes}}
+
+Respond with ONLY a JSON array, e.g. [{"index": 3, "reason": "Its summary covers the Q3 budget review"}]. Keep each reason under 15 words and say whether it rests on the summary, the tags or the note text. No other text.`,
+    }),
+
+    'rank-related': definePrompt({
+        description: 'Related Notes ranking',
+        variables: ['summary', 'candidates'],
+        template: `Given this note summary: "{{summary}}"
+
+Rank these candidate notes by relevance (most related first). Return ONLY a JSON array of numbers, e.g. [2, 5, 1].
+
+{{candidates}}`,
+    }),
+
+    'chat': definePrompt({
+        description: 'Chat with Notes',
+        variables: ['notes', 'conversation'],
+        template: `You are a helpful assistant that answers questions about the user's notes. Cite referenced notes by filename in square brackets like [filename.md].
+
+Available notes:
+{{notes}}
+
+Conversation:
+{{conversation}}
+
+Answer the user's latest question based on the notes above.`,
+    }),
+
+    'merge-notes': definePrompt({
+        description: 'Merge selected notes into one draft',
+        variables: ['notes'],
+        template: `Merge these notes into a single comprehensive document. Preserve all key information, remove redundancy, organize logically with clear headings. Output markdown only.
+
+Notes to merge:
+
+{{notes}}`,
+    }),
+
+    'cluster-moc': definePrompt({
+        description: 'Topic clusters for Maps of Content',
+        variables: ['notes'],
+        template: `Group these notes into 3-7 topic clusters based on their content and tags. Return ONLY a JSON array: [{ "topic": "Topic Name", "description": "One sentence description", "noteIndices": [1, 3, 5] }]
+
+Notes:
+{{notes}}`,
+    }),
+
+    'digest-overview': definePrompt({
+        description: 'Overview paragraph of a collection digest',
+        variables: ['collection', 'notes'],
+        template: `Write a short overview (3-6 sentences) of the notes in the collection "{{collection}}" for a status report. Cover the main themes, progress and what is still open. Refer to notes by their titles. Output only the overview as markdown prose, no heading.
+
+Notes, with their summaries and open action items:
+{{notes}}`,
+    }),
+
+    'restructure-vault': definePrompt({
+        description: 'Folder restructuring plan',
+        variables: ['folders', 'notes'],
+        template: `You are reorganizing a markdown notes vault. Refine the existing folder structure conservatively.
+
+Rules:
+- Propose changes ONLY when they materially improve organization.
+- Do not invent folders for fewer than 2 notes.
+- Do not move a note that is already in a sensible folder.
+- Use a 'merge' operation, NOT 'rename', when the target folder already exists in the current folder list.
+- Output strict JSON matching the schema below — no prose outside the JSON.
+
+Allowed operation kinds:
+- {"kind":"rename","from":"<existing folder>","to":"<new folder>"}
+- {"kind":"merge","from":"<existing folder>","into":"<existing folder>"}
+- {"kind":"move","notePath":"<existing note path>","toFolder":"<destination folder>"}
+
+All paths are relative to the vault root and use forward slashes.
+
+Schema:
+{"operations":[...], "rationale":"<one-paragraph explanation>"}
+
+Current folders:
+{{folders}}
+
+Current notes:
+{{notes}}
+
+Respond with ONLY the JSON object.`,
+    }),
+};
+
+export type PromptName = keyof typeof PROMPTS;
+
+export type PromptVariables<N extends PromptName> = Record<(typeof PROMPTS)[N]['variables'][number], string>;
+
+export interface PromptInfo {
+    name: string;
+    description: string;
+    /** Path of the workspace override, when one exists. */
+    overridePath?: string;
+    /** Placeholders in the override that the prompt does not supply. */
+    unknownVariables: string[];
+    /** False for override files that do not match any prompt name. */
+    known: boolean;
+}
+
+const PLACEHOLDER = /\{\{\s*([A-Za-z][\w-]*)\s*\}\}/g;
+
+export function isPromptName(name: string): name is PromptName {
+    return Object.prototype.hasOwnProperty.call(PROMPTS, name);
+}
+
+export function promptsDir(workspaceRoot: string): string {
+    return path.join(workspaceRoot, '.ai-notes', 'prompts');
+}
+
+/**
+ * Substitutes `{{variable}}` placeholders in a single pass, so values that
+ * themselves contain `{{...}}` (note content, for example) are left untouched.
+ * Placeholders without a value are kept as written.
+ */
+export function renderTemplate(template: string, variables: Record<string, string>): string {
+    return template.replace(PLACEHOLDER, (match, name: string) =>
+        Object.prototype.hasOwnProperty.call(variables, name) ? variables[name] : match
+    );
+}
+
+export function templateVariables(template: string): string[] {
+    const names = new Set<string>();
+    for (const match of template.matchAll(PLACEHOLDER)) {
+        names.add(match[1]);
+    }
+    return Array.from(names);
+}
+
+/**
+ * Returns the template for `name`: the workspace override in
+ * `.ai-notes/prompts/<name>.md` if present, otherwise the built-in default.
+ */
+export async function loadPromptTemplate(name: PromptName, workspaceRoot?: string): Promise<string> {
+    if (workspaceRoot) {
+        try {
+            const override = await fsp.readFile(path.join(promptsDir(workspaceRoot), `${name}.md`), 'utf8');
+            if (override.trim().length > 0) {
+                return override.replace(/\r\n/g, '\n').trim();
+            }
+        } catch {}
+    }
+    return PROMPTS[name].template;
+}
+
+/**
+ * Renders the named prompt, honouring the overrides of the vault at
+ * `workspaceRoot`.
+ */
+export async function renderPrompt<N extends PromptName>(
+    name: N,
+    variables: PromptVariables<N>,
+    workspaceRoot: string
+): Promise<string> {
+    const template = await loadPromptTemplate(name, workspaceRoot);
+    return renderTemplate(template, variables);
+}
+
+/**
+ * Lists every prompt along with its override status, plus any stray files in
+ * the prompts folder that do not match a known prompt name.
+ */
+export async function listPrompts(workspaceRoot: string): Promise<PromptInfo[]> {
+    const dir = promptsDir(workspaceRoot);
+    let files: string[] = [];
+    try {
+        files = (await fsp.readdir(dir)).filter(f => f.endsWith('.md'));
+    } catch {}
+
+    const infos: PromptInfo[] = [];
+    for (const name of Object.keys(PROMPTS) as PromptName[]) {
+        const info: PromptInfo = { name, description: PROMPTS[name].description, unknownVariables: [], known: true };
+        if (files.includes(`${name}.md`)) {
+            info.overridePath = path.join(dir, `${name}.md`);
+            const allowed: readonly string[] = PROMPTS[name].variables;
+            const used = templateVariables(await fsp.readFile(info.overridePath, 'utf8'));
+            info.unknownVariables = used.filter(v => !allowed.includes(v));
+        }
+        infos.push(info);
+    }
+    for (const file of files) {
+        const name = path.basename(file, '.md');
+        if (!isPromptName(name)) {
+            infos.push({ name, description: 'Not a known prompt name; this file is ignored', overridePath: path.join(dir, file), unknownVariables: [], known: false });
+        }
+    }
+    return infos;
+}
@@ -1,9 +1,13 @@
 import * as vscode from 'vscode';
-import * as fsp from 'fs/promises';
 import * as path from 'path';
-import { extractTagsFromContent, TagCache } from './tagCache';
+import { extractTagsFromContent } from './tagCache';
 import { extractSummaryFromContent } from './summaries';
-import { chatCompletionWithRetry } from './ai';
+import { chatCompletionStructured } from './ai';
+import { renderPrompt } from './prompts';
+import { schema } from './structuredOutput';
+import { Vault, VaultManager } from './vaults';
+import { embeddingsEnabled } from './embeddings';
+import { getVectorIndex } from './vectorIndex';
 
 function escapeHtml(str: string): string {
     return str.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#039;');
@@ -21,10 +25,7 @@ export class RelatedNotesWebviewProvider implements vscode.WebviewViewProvider {
     private disposables: vscode.Disposable[] = [];
     private debounceTimer?: NodeJS.Timeout;
 
-    constructor(
-        private workspaceRoot: string,
-        private tagCache: TagCache
-    ) {}
+    constructor(private vaults: VaultManager) {}
 
     initialize(): void {
         vscode.window.onDidChangeActiveTextEditor(() => {
@@ -60,20 +61,23 @@ export class RelatedNotesWebviewProvider implements vscode.WebviewViewProvider {
         }
 
         const currentFile = editor.document.uri.fsPath;
+        const vault = this.vaults.vaultFor(currentFile);
+        if (!vault) {
+            this.view.webview.html = this.getHtml([]);
+            return;
+        }
         const content = editor.document.getText();
         const currentTags = extractTagsFromContent(content);
         const currentSummary = extractSummaryFromContent(content);
 
-        if (currentTags.length === 0) {
-            this.view.webview.html = this.getHtml([]);
-            return;
+        let candidates = embeddingsEnabled() ? await this.findByEmbedding(vault, currentFile) : [];
+        if (candidates.length === 0) {
+            candidates = currentTags.length > 0 ? await this.findByTagOverlap(vault, currentFile, currentTags) : [];
         }
 
-        const candidates = await this.findByTagOverlap(currentFile, currentTags);
-
         let ranked: RelatedNote[];
         if (currentSummary && candidates.some(c => c.summary !== null)) {
-            ranked = await this.aiRank(currentSummary, candidates);
+            ranked = await this.aiRank(vault, currentSummary, candidates);
         } else {
             ranked = candidates.slice(0, 5);
         }
@@ -81,72 +85,55 @@ export class RelatedNotesWebviewProvider implements vscode.WebviewViewProvider {
         this.view.webview.html = this.getHtml(ranked);
     }
 
-    private async findByTagOverlap(currentFile: string, currentTags: string[]): Promise<RelatedNote[]> {
-        const candidates: Map<string, RelatedNote> = new Map();
-        await this.walkForCandidates(this.workspaceRoot, currentFile, currentTags, candidates);
-
-        return Array.from(candidates.values())
-            .sort((a, b) => b.score - a.score)
-            .slice(0, 10);
+    /**
+     * Notes closest to the current one in the embeddings index; empty when the
+     * index has not been built or the provider fails.
+     */
+    private async findByEmbedding(vault: Vault, currentFile: string): Promise<RelatedNote[]> {
+        const index = this.vaults.index(vault);
+        try {
+            const hits = await getVectorIndex(index).similarNotes(currentFile, 10);
+            return hits.map(hit => ({ filePath: hit.filePath, summary: index.get(hit.filePath)?.summary ?? null, score: hit.score }));
+        } catch (err: any) {
+            console.warn(`Related notes by embedding failed: ${err.message}`);
+            return [];
+        }
     }
 
-    private static readonly EXCLUDED_DIRS = new Set(['.git', 'node_modules', '.vscode', '.claude', '_drafts']);
-
-    private async walkForCandidates(
-        dir: string,
-        currentFile: string,
-        currentTags: string[],
-        candidates: Map<string, RelatedNote>
-    ): Promise<void> {
-        let entries;
-        try {
-            entries = await fsp.readdir(dir, { withFileTypes: true });
-        } catch { return; }
-
-        for (const entry of entries) {
-            const fullPath = path.join(dir, entry.name);
-            if (entry.isDirectory()) {
-                if (RelatedNotesWebviewProvider.EXCLUDED_DIRS.has(entry.name)) { continue; }
-                await this.walkForCandidates(fullPath, currentFile, currentTags, candidates);
-            } else if (entry.name.endsWith('.md') && fullPath !== currentFile) {
-                try {
-                    const content = await fsp.readFile(fullPath, 'utf8');
-                    const tags = extractTagsFromContent(content);
-                    const overlap = tags.filter(t => currentTags.includes(t)).length;
-                    if (overlap > 0) {
-                        const summary = extractSummaryFromContent(content);
-                        candidates.set(fullPath, { filePath: fullPath, summary, score: overlap });
-                    }
-                } catch {}
+    private async findByTagOverlap(vault: Vault, currentFile: string, currentTags: string[]): Promise<RelatedNote[]> {
+        const index = this.vaults.index(vault);
+        await index.ready();
+        const candidates: RelatedNote[] = [];
+        for (const note of index.all()) {
+            if (note.filePath === currentFile) { continue; }
+            const overlap = note.tags.filter(t => currentTags.includes(t)).length;
+            if (overlap > 0) {
+                candidates.push({ filePath: note.filePath, summary: note.summary, score: overlap });
             }
         }
+
+        return candidates
+            .sort((a, b) => b.score - a.score)
+            .slice(0, 10);
     }
 
-    private async aiRank(currentSummary: string, candidates: RelatedNote[]): Promise<RelatedNote[]> {
+    private async aiRank(vault: Vault, currentSummary: string, candidates: RelatedNote[]): Promise<RelatedNote[]> {
         const candidateList = candidates.map((c, i) => {
             const desc = c.summary || path.basename(c.filePath);
             return `${i + 1}. "${desc}"`;
         }).join('\n');
 
-        const prompt = `Given this note summary: "${currentSummary}"
-
-Rank these candidate notes by relevance (most related first). Return ONLY a JSON array of numbers, e.g. [2, 5, 1].
-
-${candidateList}`;
+        const prompt = await renderPrompt('rank-related', { summary: currentSummary, candidates: candidateList }, vault.rootDir);
 
         try {
-            const response = await chatCompletionWithRetry(prompt);
-            const match = response.match(/\[[\d,\s]+\]/);
-            if (match) {
-                const indices: number[] = JSON.parse(match[0]);
-                const ranked: RelatedNote[] = [];
-                for (const idx of indices) {
-                    if (idx >= 1 && idx <= candidates.length && ranked.length < 5) {
-                        ranked.push(candidates[idx - 1]);
-                    }
+            const indices = await chatCompletionStructured(prompt, schema.array(schema.number()), { repairAttempts: 1, feature: 'related' });
+            const ranked: RelatedNote[] = [];
+            for (const idx of indices) {
+                if (idx >= 1 && idx <= candidates.length && ranked.length < 5) {
+                    ranked.push(candidates[idx - 1]);
                 }
-                return ranked;
             }
+            return ranked;
         } catch {}
 
         return candidates.slice(0, 5);
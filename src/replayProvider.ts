@@ -0,0 +1,142 @@
+import * as vscode from 'vscode';
+import * as fsp from 'fs/promises';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { sharedStateRoot } from './sharedState';
+
+/**
+ * A recorded prompt→response pair. Recorded fixtures carry the exact `prompt`;
+ * hand-written ones may instead list `match` substrings that must all appear in
+ * the prompt, which keeps them stable when unrelated parts of a prompt change.
+ */
+export interface Fixture {
+    prompt?: string;
+    match?: string[];
+    response: string;
+    provider?: string;
+    model?: string;
+    recordedAt?: string;
+}
+
+/**
+ * Anything that can answer a prompt. Used to swap the real providers for
+ * recorded or scripted responses.
+ */
+export interface CompletionProvider {
+    complete(prompt: string): Promise<string>;
+}
+
+export class ReplayMissError extends Error {
+    constructor(public readonly prompt: string) {
+        super(`No recorded response matches this prompt: "${prompt.slice(0, 120).replace(/\s+/g, ' ')}…". Record it with 'ai-notes.recordFixtures' or add a fixture file.`);
+        this.name = 'ReplayMissError';
+    }
+}
+
+export function fixtureKey(prompt: string): string {
+    return crypto.createHash('sha256').update(prompt).digest('hex').slice(0, 16);
+}
+
+/**
+ * Directory of fixture files, one JSON object (or array of objects) per file.
+ */
+export class FixtureStore {
+    constructor(private fixturesDir: string) {}
+
+    async load(): Promise<Fixture[]> {
+        let names: string[];
+        try {
+            names = (await fsp.readdir(this.fixturesDir)).filter(n => n.endsWith('.json')).sort();
+        } catch {
+            return [];
+        }
+        const fixtures: Fixture[] = [];
+        for (const name of names) {
+            try {
+                const parsed = JSON.parse(await fsp.readFile(path.join(this.fixturesDir, name), 'utf8'));
+                fixtures.push(...(Array.isArray(parsed) ? parsed : [parsed]));
+            } catch (err: any) {
+                console.warn(`Skipping unreadable fixture ${name}: ${err.message}`);
+            }
+        }
+        return fixtures;
+    }
+
+    /**
+     * Exact prompt matches win over `match` fixtures; among those, the first
+     * fixture (by file name) whose substrings all occur in the prompt is used.
+     */
+    async find(prompt: string): Promise<Fixture | undefined> {
+        const fixtures = await this.load();
+        return fixtures.find(f => f.prompt === prompt)
+            ?? fixtures.find(f => f.prompt === undefined && f.match !== undefined && f.match.every(m => prompt.includes(m)));
+    }
+
+    async record(prompt: string, response: string, provider: string, model: string): Promise<void> {
+        const fixture: Fixture = { prompt, response, provider, model, recordedAt: new Date().toISOString() };
+        await fsp.mkdir(this.fixturesDir, { recursive: true });
+        await fsp.writeFile(path.join(this.fixturesDir, `${fixtureKey(prompt)}.json`), JSON.stringify(fixture, null, 2) + '\n', 'utf8');
+    }
+}
+
+/**
+ * Answers prompts from a FixtureStore and throws ReplayMissError for anything
+ * that was never recorded. Keeps every prompt it saw, in order.
+ */
+export class ReplayProvider implements CompletionProvider {
+    readonly prompts: string[] = [];
+
+    constructor(private store: FixtureStore) {}
+
+    async complete(prompt: string): Promise<string> {
+        this.prompts.push(prompt);
+        const fixture = await this.store.find(prompt);
+        if (!fixture) {
+            throw new ReplayMissError(prompt);
+        }
+        return fixture.response;
+    }
+}
+
+/**
+ * Deterministic scripted provider: `respond` is called for each prompt. Returns
+ * the responses of `responses` in order when given an array.
+ */
+export class MockProvider implements CompletionProvider {
+    readonly prompts: string[] = [];
+    private respond: (prompt: string, call: number) => string;
+
+    constructor(responses: string[] | ((prompt: string, call: number) => string)) {
+        this.respond = Array.isArray(responses)
+            ? (_prompt, call) => {
+                if (call >= responses.length) { throw new Error(`MockProvider ran out of responses after ${responses.length} call(s).`); }
+                return responses[call];
+            }
+            : responses;
+    }
+
+    async complete(prompt: string): Promise<string> {
+        this.prompts.push(prompt);
+        return this.respond(prompt, this.prompts.length - 1);
+    }
+}
+
+/**
+ * Splits a response into word-sized fragments so replayed completions still
+ * exercise streaming consumers.
+ */
+export function splitIntoFragments(response: string): string[] {
+    return response.match(/\S+\s*|\s+/g) ?? [];
+}
+
+/**
+ * Fixture directory from `ai-notes.fixturesDir`, resolved against the folder
+ * holding the shared state (the first one) when relative. Undefined when it
+ * cannot be resolved.
+ */
+export function fixturesDirFromConfig(): string | undefined {
+    const configured = vscode.workspace.getConfiguration('ai-notes').get<string>('fixturesDir') || '.ai-notes/fixtures';
+    if (path.isAbsolute(configured)) { return configured; }
+    const workspaceRoot = sharedStateRoot();
+    return workspaceRoot ? path.join(workspaceRoot, configured) : undefined;
+}
@@ -1,9 +1,12 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs/promises';
-import { chatCompletionWithRetry } from './ai';
+import { chatCompletionStructured } from './ai';
+import { schema, parseStructured, StructuredOutputError } from './structuredOutput';
 import { getAllFolders } from './files';
 import { rewriteAllLinks } from './linkRewriter';
+import { PROMPTS, renderTemplate, loadPromptTemplate } from './prompts';
+import { getNoteIndex } from './noteIndex';
 
 // ---------- Types ----------
 
@@ -166,80 +169,46 @@ function simulateOp(state: VaultState, op: Operation): VaultState {
 // ---------- gatherNotes ----------
 
 export async function gatherNotes(rootDir: string, detailed: boolean): Promise<NoteEntry[]> {
-    const out: NoteEntry[] = [];
-    async function walk(dir: string): Promise<void> {
-        const entries = await fs.readdir(dir, { withFileTypes: true });
-        for (const entry of entries) {
-            if (entry.name.startsWith('.')) { continue; }
-            if (entry.name === 'node_modules') { continue; }
-            const full = path.join(dir, entry.name);
-            if (entry.isDirectory()) {
-                await walk(full);
-            } else if (entry.isFile() && entry.name.endsWith('.md')) {
-                const content = await fs.readFile(full, 'utf8');
-                const { tags, body } = parseFrontmatter(content);
-                const relPath = path.relative(rootDir, full).split(path.sep).join('/');
-                const title = entry.name.replace(/\.md$/, '');
-                const note: NoteEntry = { relPath, title, tags };
-                if (detailed) {
-                    note.preview = body.trim().slice(0, 200);
-                }
-                out.push(note);
-            }
+    const index = getNoteIndex(rootDir);
+    await index.ready();
+    return index.all({ includeDrafts: true, includeGenerated: true }).map(note => {
+        const entry: NoteEntry = { relPath: note.relPath, title: note.title, tags: note.tags };
+        if (detailed) {
+            entry.preview = note.body.trim().slice(0, 200);
         }
-    }
-    await walk(rootDir);
-    return out;
-}
-
-function parseFrontmatter(content: string): { tags: string[]; body: string } {
-    const m = content.match(/^---\n([\s\S]*?)\n---\n?([\s\S]*)$/);
-    if (!m) { return { tags: [], body: content }; }
-    const yaml = m[1];
-    const body = m[2];
-    const tagsLine = yaml.split('\n').find(l => /^tags\s*:/.test(l));
-    if (!tagsLine) { return { tags: [], body }; }
-    // Two supported forms: "tags: [a, b]" or "tags: a, b".
-    const valuePart = tagsLine.replace(/^tags\s*:\s*/, '').trim();
-    const stripped = valuePart.replace(/^\[|\]$/g, '');
-    const tags = stripped.split(',').map(t => t.trim()).filter(t => t.length > 0);
-    return { tags, body };
+        return entry;
+    });
 }
 
 // ---------- parsePlan ----------
 
+const operationSchema = schema.union<Operation>(
+    schema.object({ kind: schema.literal('rename'), from: schema.string(), to: schema.string() }),
+    schema.object({ kind: schema.literal('merge'), from: schema.string(), into: schema.string() }),
+    schema.object({ kind: schema.literal('move'), notePath: schema.string(), toFolder: schema.string() }),
+);
+
+// Operations with an unknown kind or missing fields are dropped rather than failing the plan.
+export const restructurePlanSchema = schema.object({
+    operations: schema.array(operationSchema, { dropInvalid: true }),
+    rationale: schema.optional(schema.string()),
+});
+
 export function parsePlan(response: string): RestructurePlan {
-    // Try direct JSON parse first; on failure, look for the first {...} block.
-    let raw: any;
-    try {
-        raw = JSON.parse(response);
-    } catch {
-        const m = response.match(/\{[\s\S]*\}/);
-        if (!m) { throw new Error('AI response contained no JSON object.'); }
-        raw = JSON.parse(m[0]);
-    }
-    if (!raw || !Array.isArray(raw.operations)) {
-        throw new Error('AI response missing operations array.');
-    }
-    const operations: Operation[] = [];
-    for (const op of raw.operations) {
-        if (!op || typeof op !== 'object') { continue; }
-        if (op.kind === 'rename' && typeof op.from === 'string' && typeof op.to === 'string') {
-            operations.push({ kind: 'rename', from: op.from, to: op.to });
-        } else if (op.kind === 'merge' && typeof op.from === 'string' && typeof op.into === 'string') {
-            operations.push({ kind: 'merge', from: op.from, into: op.into });
-        } else if (op.kind === 'move' && typeof op.notePath === 'string' && typeof op.toFolder === 'string') {
-            operations.push({ kind: 'move', notePath: op.notePath, toFolder: op.toFolder });
-        }
+    const result = parseStructured(response, restructurePlanSchema);
+    if (!result.ok) {
+        throw new Error(`AI response was not a valid plan: ${result.error}`);
     }
-    const plan: RestructurePlan = { operations };
-    if (typeof raw.rationale === 'string') { plan.rationale = raw.rationale; }
-    return plan;
+    return result.value;
 }
 
 // ---------- buildPrompt ----------
 
-export function buildPrompt(notes: NoteEntry[], folders: string[]): string {
+/**
+ * Renders the restructure prompt. `template` defaults to the built-in one; the
+ * orchestrator passes the workspace override from `.ai-notes/prompts` when present.
+ */
+export function buildPrompt(notes: NoteEntry[], folders: string[], template: string = PROMPTS['restructure-vault'].template): string {
     const noteLines = notes.map(n => {
         const tags = n.tags.length > 0 ? `tags=[${n.tags.join(', ')}]` : 'tags=[]';
         const preview = n.preview ? ` preview="${n.preview.replace(/\n/g, ' ').replace(/"/g, "'").slice(0, 200)}"` : '';
@@ -248,32 +217,7 @@ export function buildPrompt(notes: NoteEntry[], folders: string[]): string {
 
     const folderLines = folders.map(f => `- ${f}`).join('\n');
 
-    return `You are reorganizing a markdown notes vault. Refine the existing folder structure conservatively.
-
-Rules:
-- Propose changes ONLY when they materially improve organization.
-- Do not invent folders for fewer than 2 notes.
-- Do not move a note that is already in a sensible folder.
-- Use a 'merge' operation, NOT 'rename', when the target folder already exists in the current folder list.
-- Output strict JSON matching the schema below — no prose outside the JSON.
-
-Allowed operation kinds:
-- {"kind":"rename","from":"<existing folder>","to":"<new folder>"}
-- {"kind":"merge","from":"<existing folder>","into":"<existing folder>"}
-- {"kind":"move","notePath":"<existing note path>","toFolder":"<destination folder>"}
-
-All paths are relative to the vault root and use forward slashes.
-
-Schema:
-{"operations":[...], "rationale":"<one-paragraph explanation>"}
-
-Current folders:
-${folderLines}
-
-Current notes:
-${noteLines}
-
-Respond with ONLY the JSON object.`;
+    return renderTemplate(template, { folders: folderLines, notes: noteLines });
 }
 
 // ---------- buildPathMap ----------
@@ -409,6 +353,16 @@ function log(message: string): void {
     outputChannel.appendLine(`[${new Date().toISOString()}] ${message}`);
 }
 
+/**
+ * Builds the prompt for the gathered notes and folders and asks the LLM for a
+ * plan. Throws StructuredOutputError when no valid plan comes back.
+ */
+export async function requestPlan(rootDir: string, notes: NoteEntry[], folders: string[], token?: vscode.CancellationToken): Promise<RestructurePlan> {
+    const prompt = buildPrompt(notes, folders, await loadPromptTemplate('restructure-vault', rootDir));
+    log(`Prompt size: ${prompt.length} chars (truncated): ${prompt.slice(0, 1000)}`);
+    return chatCompletionStructured(prompt, restructurePlanSchema, { token, feature: 'restructure' });
+}
+
 export async function restructureVault(rootDir: string): Promise<void> {
     // 1. Strategy QuickPick.
     const strategy = await vscode.window.showQuickPick(
@@ -437,30 +391,24 @@ export async function restructureVault(rootDir: string): Promise<void> {
         log('Warning: getAllFolders returned no folders despite having multiple notes. Vault may be flat or partially inaccessible.');
     }
 
-    // 3. Build prompt and call LLM.
-    const prompt = buildPrompt(notes, folders);
-    log(`Prompt size: ${prompt.length} chars (truncated): ${prompt.slice(0, 1000)}`);
-
-    let response: string;
+    // 3. Ask the LLM for a plan (re-asked on invalid JSON).
+    let plan: RestructurePlan;
     try {
-        response = await vscode.window.withProgress(
-            { location: vscode.ProgressLocation.Notification, title: 'Restructure Vault: asking AI...' },
-            () => chatCompletionWithRetry(prompt)
+        plan = await vscode.window.withProgress(
+            { location: vscode.ProgressLocation.Notification, title: 'Restructure Vault: asking AI...', cancellable: true },
+            (_progress, token) => requestPlan(rootDir, notes, folders, token)
         );
     } catch (err: any) {
+        if (err instanceof vscode.CancellationError) {
+            log('AI request cancelled by user.');
+            return;
+        }
+        if (err instanceof StructuredOutputError) {
+            log(`Parse error: ${err.validationError}\nResponse (truncated): ${err.lastResponse.slice(0, 500)}`);
+        }
         vscode.window.showErrorMessage(`AI request failed: ${err.message}`);
         return;
     }
-
-    // 4. Parse and validate.
-    let plan: RestructurePlan;
-    try {
-        plan = parsePlan(response);
-    } catch (err: any) {
-        log(`Parse error: ${err.message}\nResponse (truncated): ${response.slice(0, 500)}`);
-        vscode.window.showErrorMessage(err.message);
-        return;
-    }
     log(`Parsed plan: ${JSON.stringify(plan)}`);
 
     if (plan.operations.length === 0) {
@@ -0,0 +1,122 @@
+/**
+ * How AI calls are retried: which errors are worth another attempt, how long to
+ * wait between attempts, and what the user sees once every attempt has failed.
+ */
+
+export type ErrorKind = 'retryable' | 'fatal';
+
+export interface ErrorClassification {
+    kind: ErrorKind;
+    /** Short, user-facing description of the failure. */
+    reason: string;
+}
+
+/**
+ * A provider answered with a non-success HTTP status.
+ */
+export class ProviderHttpError extends Error {
+    constructor(message: string, public readonly status: number) {
+        super(message);
+        this.name = 'ProviderHttpError';
+    }
+}
+
+/**
+ * A single attempt ran longer than the configured per-call timeout.
+ */
+export class AITimeoutError extends Error {
+    constructor(public readonly timeoutMs: number) {
+        super(`Request timed out after ${Math.round(timeoutMs / 1000)}s`);
+        this.name = 'AITimeoutError';
+    }
+}
+
+export interface FailedAttempt {
+    provider: string;
+    model: string;
+    reason: string;
+    kind: ErrorKind;
+}
+
+/**
+ * Thrown once retries (and the fallback provider, if any) are exhausted, or as
+ * soon as a fatal error occurs. The message names the provider and the actual cause.
+ */
+export class AIRequestError extends Error {
+    constructor(public readonly attempts: FailedAttempt[], public readonly cause?: unknown) {
+        super(describeFailure(attempts));
+        this.name = 'AIRequestError';
+    }
+}
+
+function describeFailure(attempts: FailedAttempt[]): string {
+    if (attempts.length === 0) { return 'AI request failed.'; }
+    const last = attempts[attempts.length - 1];
+    const routes = Array.from(new Set(attempts.map(a => `${a.provider} (${a.model})`)));
+    const tries = attempts.length === 1 ? '' : ` after ${attempts.length} attempts`;
+    return `AI request to ${routes.join(', then ')} failed${tries}: ${last.reason}`;
+}
+
+/**
+ * Best-effort HTTP status from errors thrown by fetch-based providers, the SAP
+ * AI SDK (axios-style `response.status`) or the VS Code LM API.
+ */
+export function errorStatus(err: any): number | undefined {
+    const candidates = [err?.status, err?.statusCode, err?.response?.status, err?.cause?.status, err?.cause?.response?.status];
+    for (const candidate of candidates) {
+        if (typeof candidate === 'number') { return candidate; }
+    }
+    const match = String(err?.message ?? '').match(/\b(?:returned|status(?: code)?)\s*:?\s*(\d{3})\b/i);
+    return match ? Number(match[1]) : undefined;
+}
+
+/**
+ * Sorts an error into retryable (rate limits, timeouts, overloaded or flaky
+ * servers, dropped connections) or fatal (bad credentials, unknown model,
+ * malformed request, configuration problems). Unknown errors are retried.
+ */
+export function classifyError(err: any): ErrorClassification {
+    const message = String(err?.message ?? err ?? 'Unknown error');
+    const status = errorStatus(err);
+    const code = String(err?.code ?? err?.cause?.code ?? '');
+
+    if (err instanceof AITimeoutError) {
+        return { kind: 'retryable', reason: message };
+    }
+    if (status === 429 || /rate.?limit|too many requests|quota/i.test(message)) {
+        return { kind: 'retryable', reason: `Rate limited by the provider (${status ?? 429}). ${message}` };
+    }
+    if (status === 408 || /ETIMEDOUT|ESOCKETTIMEDOUT/.test(code) || /timed? ?out/i.test(message)) {
+        return { kind: 'retryable', reason: `Request timed out. ${message}` };
+    }
+    if (status !== undefined && status >= 500) {
+        return { kind: 'retryable', reason: `Provider error ${status}. ${message}` };
+    }
+    if (/ECONNRESET|ECONNREFUSED|EAI_AGAIN|ENOTFOUND|EPIPE/.test(code) || /could not reach|fetch failed|socket hang up|network/i.test(message)) {
+        return { kind: 'retryable', reason: message };
+    }
+
+    if (status === 401 || status === 403 || /unauthori[sz]ed|forbidden|invalid (api )?key|authentication|service key/i.test(message)) {
+        return { kind: 'fatal', reason: `Authentication failed${status ? ` (${status})` : ''}. Check the provider credential. ${message}` };
+    }
+    if (status === 404 || /model.*not found|no suitable ai model|deployment.*not found|unknown model/i.test(message)) {
+        return { kind: 'fatal', reason: `Model not found${status ? ` (${status})` : ''}. Check the model name. ${message}` };
+    }
+    if (status !== undefined && status >= 400) {
+        return { kind: 'fatal', reason: `Request rejected (${status}). ${message}` };
+    }
+    if (/unsupported llm provider|not available|no recorded response/i.test(message) || err?.name === 'ReplayMissError') {
+        return { kind: 'fatal', reason: message };
+    }
+
+    return { kind: 'retryable', reason: message };
+}
+
+/**
+ * Exponential backoff with full jitter: a random delay between 0 and
+ * `baseMs * 2^attempt`, capped at `maxMs`. `attempt` is zero-based.
+ */
+export function backoffDelay(attempt: number, baseMs: number, maxMs: number, random: () => number = Math.random): number {
+    const ceiling = Math.min(maxMs, baseMs * Math.pow(2, attempt));
+    return Math.round(random() * ceiling);
+}
@@ -0,0 +1,172 @@
+import * as path from 'path';
+import { IndexedNote, isDraft } from './noteIndex';
+import { noteDate, parseFrontmatterDate } from './noteNaming';
+
+/**
+ * The query language shared by search, the Notes by Tag filter and smart
+ * collections. Free words and `"quoted phrases"` rank notes; filters narrow
+ * them down first:
+ *
+ *   tag:project  -tag:archived  path:work/  after:2026-01-01  before:2026-02-01
+ *   has:summary  is:draft  links-to:roadmap.md  status:open
+ *
+ * Terms are combined with AND; `OR` between two terms accepts either, and a
+ * leading `-` negates a term. Any other `name:value` matches the frontmatter
+ * key `name`.
+ */
+
+export interface QueryTerm {
+    /** `tag`, `path`, ... or a frontmatter key; undefined for free text. */
+    field?: string;
+    value: string;
+    /** Free text written in quotes. */
+    phrase: boolean;
+    negated: boolean;
+}
+
+export interface ParsedQuery {
+    /**
+     * Checked against each note before ranking. Every clause must match; a
+     * clause matches when any of its terms does.
+     */
+    filters: QueryTerm[][];
+    /** The free text that ranks the notes that pass, e.g. `meeting "next steps"`. */
+    text: string;
+    /** `is:draft` asks for notes in `_drafts`, which are skipped otherwise. */
+    includeDrafts: boolean;
+}
+
+export class QueryError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'QueryError';
+    }
+}
+
+/** Decides free-text terms that take part in filtering, usually with the full-text index. */
+export type TextMatcher = (note: IndexedNote, term: QueryTerm) => boolean;
+
+const HAS_VALUES = ['summary', 'tags', 'links'];
+const IS_VALUES = ['draft'];
+
+/**
+ * Parses a query. Throws QueryError for filters with an invalid value, such as
+ * `after:yesterday`.
+ */
+export function parseQuery(query: string): ParsedQuery {
+    const clauses: QueryTerm[][] = [];
+    let joinNext = false;
+    const regex = /(-?)(?:([A-Za-z_][\w-]*):(?=\S))?(?:"([^"]*)"?|(\S+))/g;
+    let match: RegExpExecArray | null;
+    while ((match = regex.exec(query)) !== null) {
+        const [, minus, field, quoted, bare] = match;
+        if (!field && !minus && bare === 'OR') {
+            joinNext = clauses.length > 0;
+            continue;
+        }
+        const value = (quoted ?? bare).trim();
+        if (value.length === 0) { continue; }
+        const term: QueryTerm = { field: field?.toLowerCase(), value, phrase: quoted !== undefined && !field, negated: minus === '-' };
+        validate(term);
+        if (joinNext) {
+            clauses[clauses.length - 1].push(term);
+        } else {
+            clauses.push([term]);
+        }
+        joinNext = false;
+    }
+
+    // A lone positive word or phrase ranks; everything else, including words
+    // joined by OR, filters.
+    const ranks = (clause: QueryTerm[]) => clause.length === 1 && !clause[0].field && !clause[0].negated;
+    return {
+        filters: clauses.filter(clause => !ranks(clause)),
+        text: clauses.filter(ranks).map(([t]) => t.phrase ? `"${t.value}"` : t.value).join(' '),
+        includeDrafts: clauses.some(clause => clause.some(t => t.field === 'is' && t.value.toLowerCase() === 'draft' && !t.negated)),
+    };
+}
+
+/**
+ * A term as it would be written in a query, e.g. `-tag:archived`.
+ */
+export function formatTerm(term: QueryTerm): string {
+    const value = term.phrase || /\s/.test(term.value) ? `"${term.value}"` : term.value;
+    return `${term.negated ? '-' : ''}${term.field ? `${term.field}:` : ''}${value}`;
+}
+
+function validate(term: QueryTerm): void {
+    const value = term.value.toLowerCase();
+    switch (term.field) {
+        case 'after':
+        case 'before':
+            if (!parseFrontmatterDate(term.value)) {
+                throw new QueryError(`${term.field}: needs a date like 2026-01-31, not "${term.value}".`);
+            }
+            break;
+        case 'has':
+            if (!HAS_VALUES.includes(value)) {
+                throw new QueryError(`has: accepts ${HAS_VALUES.join(', ')}, not "${term.value}".`);
+            }
+            break;
+        case 'is':
+            if (!IS_VALUES.includes(value)) {
+                throw new QueryError(`is: accepts ${IS_VALUES.join(', ')}, not "${term.value}".`);
+            }
+            break;
+    }
+}
+
+/**
+ * Whether `filePath` is the note `ref` names: a file name or a path relative
+ * to the vault, with or without `.md`, ignoring case.
+ */
+export function notePathMatches(filePath: string, ref: string): boolean {
+    const value = ref.trim().toLowerCase().replace(/^\.?\//, '');
+    const target = '/' + (value.endsWith('.md') ? value : value + '.md');
+    return filePath.split(path.sep).join('/').toLowerCase().endsWith(target);
+}
+
+/**
+ * Whether `note` passes every filter of `query`. Free-text terms inside
+ * filters (negated words, words joined by OR) are decided by `matchText`.
+ */
+export function matchesFilters(note: IndexedNote, query: ParsedQuery, matchText: TextMatcher): boolean {
+    return query.filters.every(clause => clause.some(term => matchesTerm(note, term, matchText) !== term.negated));
+}
+
+function matchesTerm(note: IndexedNote, term: QueryTerm, matchText: TextMatcher): boolean {
+    const value = term.value.toLowerCase();
+    switch (term.field) {
+        case undefined:
+            return matchText(note, term);
+        case 'tag': {
+            const tag = value.replace(/^#/, '');
+            return note.tags.some(t => t.toLowerCase() === tag || t.toLowerCase().startsWith(tag + '/'));
+        }
+        case 'path':
+            return note.relPath.toLowerCase().startsWith(value.replace(/^\.?\//, ''));
+        case 'after': {
+            const date = noteDate(note.frontmatter, note.filePath);
+            return !!date && date >= parseFrontmatterDate(term.value)!;
+        }
+        case 'before': {
+            const date = noteDate(note.frontmatter, note.filePath);
+            return !!date && date < parseFrontmatterDate(term.value)!;
+        }
+        case 'has':
+            return value === 'summary' ? !!note.summary
+                : value === 'tags' ? note.tags.length > 0
+                : note.links.length > 0;
+        case 'is':
+            return isDraft(note);
+        case 'links-to':
+            return note.links.some(link => notePathMatches(link.target, term.value));
+        default: {
+            const key = Object.keys(note.frontmatter).find(k => k.toLowerCase() === term.field);
+            if (key === undefined) { return false; }
+            const field = note.frontmatter[key];
+            const values = Array.isArray(field) ? field : [field];
+            return values.some(v => v !== null && v !== undefined && typeof v !== 'object' && String(v).trim().toLowerCase() === value);
+        }
+    }
+}
@@ -0,0 +1,311 @@
+import * as vscode from 'vscode';
+import { SearchHit, SearchMode, SEARCH_MODES, MatchReason, MatchSource, searchVault } from './semanticSearch';
+import { findPassages, Passage } from './fullTextSearch';
+import { parseQuery, QueryError } from './searchQuery';
+import { Vault, VaultManager } from './vaults';
+
+function escapeHtml(str: string): string {
+    return str.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#039;');
+}
+
+export interface SearchHistoryEntry {
+    query: string;
+    mode: SearchMode;
+    rootDir: string;
+}
+
+export interface SearchResult {
+    filePath: string;
+    title: string;
+    relPath: string;
+    tags: string[];
+    summary: string | null;
+    passages: Passage[];
+    reason: MatchReason;
+}
+
+const SOURCE_LABELS: Record<MatchSource, string> = {
+    keyword: 'keyword',
+    semantic: 'semantic',
+    ai: 'AI',
+    filters: 'filters',
+};
+
+const HISTORY_KEY = 'ai-notes.searchHistory';
+const HISTORY_SIZE = 20;
+
+/**
+ * `history` with `entry` moved to the front, without duplicates and capped at
+ * HISTORY_SIZE.
+ */
+export function recordSearch(history: SearchHistoryEntry[], entry: SearchHistoryEntry): SearchHistoryEntry[] {
+    const same = (e: SearchHistoryEntry) => e.query === entry.query && e.mode === entry.mode && e.rootDir === entry.rootDir;
+    return [entry, ...history.filter(e => !same(e))].slice(0, HISTORY_SIZE);
+}
+
+/**
+ * `text` as HTML with the highlighted ranges wrapped in `<mark>`.
+ */
+export function renderHighlights(text: string, highlights: Array<[number, number]>): string {
+    let html = '';
+    let pos = 0;
+    for (const [start, end] of highlights) {
+        html += escapeHtml(text.slice(pos, start)) + `<mark>${escapeHtml(text.slice(start, end))}</mark>`;
+        pos = end;
+    }
+    return html + escapeHtml(text.slice(pos));
+}
+
+/**
+ * The editor panel that shows search results: each note's title, path, tags,
+ * summary and matching lines, with the recent queries of this workspace.
+ */
+export class SearchResultsPanel implements vscode.Disposable {
+    private panel?: vscode.WebviewPanel;
+    private current?: { entry: SearchHistoryEntry; vaultName: string; results: SearchResult[]; notice?: string };
+    private running?: vscode.CancellationTokenSource;
+
+    constructor(private vaults: VaultManager, private state: vscode.Memento) {}
+
+    get history(): SearchHistoryEntry[] {
+        return this.state.get<SearchHistoryEntry[]>(HISTORY_KEY, []);
+    }
+
+    /**
+     * Runs `query` and shows the results. A failed `ai`, `semantic` or
+     * `hybrid` search falls back to keyword results with a notice; a failed
+     * keyword search is reported as an error.
+     */
+    async search(vault: Vault, query: string, mode: SearchMode): Promise<void> {
+        this.running?.cancel();
+        const cts = new vscode.CancellationTokenSource();
+        this.running = cts;
+        const entry: SearchHistoryEntry = { query, mode, rootDir: vault.rootDir };
+        this.show();
+
+        let notice: string | undefined;
+        let hits: SearchHit[];
+        try {
+            hits = await vscode.window.withProgress(
+                { location: vscode.ProgressLocation.Notification, title: 'Searching notes...', cancellable: true },
+                (_progress, token) => {
+                    const forward = token.onCancellationRequested(() => cts.cancel());
+                    return searchVault(vault.rootDir, query, mode, { token: cts.token }).finally(() => forward.dispose());
+                }
+            );
+        } catch (err: any) {
+            if (err instanceof vscode.CancellationError) { return; }
+            if (err instanceof QueryError) {
+                vscode.window.showErrorMessage(`Invalid search: ${err.message}`);
+                return;
+            }
+            if (mode === 'keyword') {
+                vscode.window.showErrorMessage(`Search failed: ${err.message}`);
+                return;
+            }
+            const label = SEARCH_MODES.find(m => m.mode === mode)?.label ?? mode;
+            notice = `${label} search failed (${err.message}); showing keyword results.`;
+            try {
+                hits = await searchVault(vault.rootDir, query, 'keyword');
+            } catch (fallbackErr: any) {
+                vscode.window.showErrorMessage(`Search failed: ${fallbackErr.message}`);
+                return;
+            }
+        } finally {
+            cts.dispose();
+            if (this.running === cts) { this.running = undefined; }
+        }
+
+        await this.state.update(HISTORY_KEY, recordSearch(this.history, entry));
+        this.current = { entry, vaultName: vault.name, results: this.describe(vault, query, hits), notice };
+        this.render();
+    }
+
+    private describe(vault: Vault, query: string, hits: SearchHit[]): SearchResult[] {
+        const index = this.vaults.index(vault);
+        const text = parseQuery(query).text;
+        const results: SearchResult[] = [];
+        for (const hit of hits) {
+            const note = index.get(hit.filePath);
+            if (!note) { continue; }
+            const passages = findPassages(note, text);
+            results.push({
+                filePath: hit.filePath,
+                title: note.title,
+                relPath: note.relPath,
+                tags: note.tags,
+                summary: note.summary,
+                passages: passages.length > 0 || !hit.reason.passage ? passages : [hit.reason.passage],
+                reason: hit.reason,
+            });
+        }
+        return results;
+    }
+
+    private show(): void {
+        if (this.panel) {
+            this.panel.reveal(undefined, true);
+            return;
+        }
+        this.panel = vscode.window.createWebviewPanel(
+            'aiNotesSearchResults',
+            'Search Results',
+            { viewColumn: vscode.ViewColumn.Active, preserveFocus: true },
+            { enableScripts: true, retainContextWhenHidden: true }
+        );
+        this.panel.onDidDispose(() => { this.panel = undefined; });
+        this.panel.webview.onDidReceiveMessage(message => {
+            this.onMessage(message).catch(err => vscode.window.showErrorMessage(`Search results: ${err.message}`));
+        });
+        this.render();
+    }
+
+    private async onMessage(message: any): Promise<void> {
+        if (message.command === 'search') {
+            const vault = this.current
+                ? this.vaults.vaults().find(v => v.rootDir === this.current!.entry.rootDir)
+                : this.vaults.selected;
+            const query = String(message.text ?? '').trim();
+            const mode = SEARCH_MODES.find(m => m.mode === message.mode)?.mode ?? 'hybrid';
+            if (vault && query) {
+                await this.search(vault, query, mode);
+            }
+        }
+        if (message.command === 'rerun') {
+            const entry = this.history[message.index];
+            const vault = entry && this.vaults.vaults().find(v => v.rootDir === entry.rootDir);
+            if (vault) {
+                await this.search(vault, entry.query, entry.mode);
+            } else if (entry) {
+                vscode.window.showWarningMessage('That search was made in a folder that is no longer open.');
+            }
+        }
+        if (message.command === 'clearHistory') {
+            await this.state.update(HISTORY_KEY, []);
+            this.render();
+        }
+        if (message.command === 'openNote') {
+            const line = typeof message.line === 'number' ? message.line : undefined;
+            const selection = line !== undefined
+                ? new vscode.Range(line, message.start ?? 0, line, message.end ?? 0)
+                : undefined;
+            await vscode.window.showTextDocument(vscode.Uri.file(message.path), { selection, viewColumn: vscode.ViewColumn.Beside });
+        }
+    }
+
+    private render(): void {
+        if (!this.panel) { return; }
+        this.panel.title = this.current ? `Search: ${this.current.entry.query}` : 'Search Results';
+        this.panel.webview.html = this.getHtml();
+    }
+
+    private getHtml(): string {
+        const current = this.current;
+        const multipleVaults = this.vaults.vaults().length > 1;
+        const modeOptions = SEARCH_MODES.map(m =>
+            `<option value="${m.mode}"${current?.entry.mode === m.mode ? ' selected' : ''}>${escapeHtml(m.label)}</option>`
+        ).join('');
+
+        const results = !current ? ''
+            : current.results.length === 0 ? '<p><i>No matching notes found.</i></p>'
+            : current.results.map(r => {
+                const tags = r.tags.map(t => `<span class="tag">${escapeHtml(t)}</span>`).join('');
+                const passages = r.passages.map(p => `
+                    <div class="passage" data-path="${escapeHtml(r.filePath)}" data-line="${p.line}" data-start="${p.match[0]}" data-end="${p.match[1]}">
+                        <span class="line">${p.line + 1}</span><span class="text">${renderHighlights(p.text, p.highlights)}</span>
+                    </div>`).join('');
+                const badges = [
+                    ...r.reason.sources.map(source => `<span class="badge">${escapeHtml(SOURCE_LABELS[source])}</span>`),
+                    ...(r.reason.fields.length > 0 ? [`<span class="fields">in ${escapeHtml(r.reason.fields.join(', '))}</span>`] : []),
+                ].join('');
+                return `<div class="result">
+                    <div class="title" data-path="${escapeHtml(r.filePath)}">${escapeHtml(r.title)}</div>
+                    <div class="path">${escapeHtml(r.relPath)}${tags}</div>
+                    ${r.summary ? `<div class="summary">${escapeHtml(r.summary)}</div>` : ''}
+                    <div class="reason">${badges}${r.reason.rationale ? ` ${escapeHtml(r.reason.rationale)}` : ''}</div>
+                    ${passages}
+                </div>`;
+            }).join('');
+
+        const history = this.history.map((h, i) => {
+            const vaultName = multipleVaults ? ` · ${escapeHtml(this.vaults.vaults().find(v => v.rootDir === h.rootDir)?.name ?? '?')}` : '';
+            return `<li class="history-entry" data-index="${i}">${escapeHtml(h.query)} <span class="mode">${escapeHtml(h.mode)}${vaultName}</span></li>`;
+        }).join('');
+
+        return `<!DOCTYPE html>
+<html>
+<head>
+<style>
+    body { font-family: var(--vscode-font-family); color: var(--vscode-editor-foreground); padding: 12px 20px; }
+    #search-bar { display: flex; gap: 6px; margin-bottom: 12px; }
+    #query { flex: 1; padding: 6px 10px; border-radius: 4px; border: 1px solid var(--vscode-input-border); background: var(--vscode-input-background); color: var(--vscode-input-foreground); }
+    select, button { background: var(--vscode-button-background); color: var(--vscode-button-foreground); border: none; border-radius: 4px; padding: 4px 10px; cursor: pointer; }
+    #layout { display: flex; gap: 24px; }
+    #results { flex: 3; }
+    #history { flex: 1; font-size: 0.9em; }
+    #history ul { list-style: none; padding: 0; }
+    .history-entry { cursor: pointer; padding: 3px 4px; border-radius: 3px; }
+    .history-entry:hover, .passage:hover { background: var(--vscode-list-hoverBackground); }
+    .mode { opacity: 0.6; font-size: 0.85em; }
+    .notice { color: var(--vscode-editorWarning-foreground); margin-bottom: 8px; }
+    .result { margin-bottom: 16px; }
+    .title { color: var(--vscode-textLink-foreground); font-weight: bold; cursor: pointer; }
+    .path { opacity: 0.7; font-size: 0.85em; margin: 2px 0; }
+    .tag { margin-left: 6px; padding: 0 6px; border-radius: 8px; background: var(--vscode-badge-background); color: var(--vscode-badge-foreground); }
+    .summary { font-style: italic; margin: 2px 0 4px; }
+    .reason { font-size: 0.85em; margin: 2px 0 4px; opacity: 0.85; }
+    .badge { margin-right: 4px; padding: 0 5px; border-radius: 3px; border: 1px solid var(--vscode-badge-background); text-transform: uppercase; font-size: 0.8em; }
+    .fields { margin-right: 4px; opacity: 0.7; }
+    .passage { cursor: pointer; font-family: var(--vscode-editor-font-family); font-size: 0.9em; padding: 1px 4px; border-radius: 3px; white-space: pre-wrap; }
+    .line { display: inline-block; min-width: 3em; opacity: 0.6; }
+    mark { background: var(--vscode-editor-findMatchHighlightBackground); color: inherit; }
+</style>
+</head>
+<body>
+    <div id="search-bar">
+        <input id="query" type="text" value="${escapeHtml(current?.entry.query ?? '')}" placeholder='Words, "a phrase", tag:name, path:folder/, after:2026-01-01' />
+        <select id="mode">${modeOptions}</select>
+        <button id="searchBtn">Search</button>
+    </div>
+    ${current ? `<div class="path">${current.results.length} notes${multipleVaults ? ` in ${escapeHtml(current.vaultName)}` : ''}</div>` : ''}
+    ${current?.notice ? `<div class="notice">${escapeHtml(current.notice)}</div>` : ''}
+    <div id="layout">
+        <div id="results">${results}</div>
+        <div id="history">
+            <strong>Recent searches</strong>${history ? ' <button id="clearHistory">Clear</button>' : ''}
+            <ul>${history || '<li><i>None yet.</i></li>'}</ul>
+        </div>
+    </div>
+    <script>
+        const vscode = acquireVsCodeApi();
+        function search() {
+            vscode.postMessage({ command: 'search', text: document.getElementById('query').value, mode: document.getElementById('mode').value });
+        }
+        document.getElementById('searchBtn').addEventListener('click', search);
+        document.getElementById('query').addEventListener('keydown', e => { if (e.key === 'Enter') { search(); } });
+        document.getElementById('clearHistory')?.addEventListener('click', () => vscode.postMessage({ command: 'clearHistory' }));
+        document.querySelectorAll('.history-entry').forEach(el => {
+            el.addEventListener('click', () => vscode.postMessage({ command: 'rerun', index: Number(el.getAttribute('data-index')) }));
+        });
+        document.querySelectorAll('.title').forEach(el => {
+            el.addEventListener('click', () => vscode.postMessage({ command: 'openNote', path: el.getAttribute('data-path') }));
+        });
+        document.querySelectorAll('.passage').forEach(el => {
+            el.addEventListener('click', () => vscode.postMessage({
+                command: 'openNote',
+                path: el.getAttribute('data-path'),
+                line: Number(el.getAttribute('data-line')),
+                start: Number(el.getAttribute('data-start')),
+                end: Number(el.getAttribute('data-end')),
+            }));
+        });
+    </script>
+</body>
+</html>`;
+    }
+
+    dispose(): void {
+        this.running?.cancel();
+        this.panel?.dispose();
+    }
+}
@@ -1,24 +1,45 @@
-import * as fsp from 'fs/promises';
+import * as vscode from 'vscode';
 import * as path from 'path';
-import { chatCompletionWithRetry } from './ai';
-import { extractSummaryFromContent } from './summaries';
+import { chatCompletionStructured } from './ai';
+import { renderPrompt } from './prompts';
+import { schema, parseStructured } from './structuredOutput';
+import { getNoteIndex, IndexedNote } from './noteIndex';
+import { getFullTextIndex, explainMatch, findPassages, MatchField, Passage } from './fullTextSearch';
+import { embeddingsEnabled } from './embeddings';
+import { getVectorIndex, ChunkHit } from './vectorIndex';
+import { parseQuery, matchesFilters, formatTerm } from './searchQuery';
+import { noteDate } from './noteNaming';
 
 export interface NoteInfo {
     filePath: string;
     summary: string | null;
     snippet: string;
+    tags?: string[];
 }
 
+/** A note the model picked: its 1-based index in the list, and why. */
+interface RankedEntry {
+    index: number;
+    reason?: string;
+}
+
+/** Also accepts a bare index, as older custom prompts ask for. */
+const rankedEntrySchema = schema.union<RankedEntry>(
+    schema.object({ index: schema.number(), reason: schema.optional(schema.string()) }),
+    {
+        description: 'number',
+        parse: (value, path) => {
+            const result = schema.number().parse(value, path);
+            return result.ok ? { ok: true, value: { index: result.value } } : result;
+        },
+    },
+);
+
+const searchResultsSchema = schema.array(rankedEntrySchema);
+
 export function parseSearchResults(response: string): number[] {
-    const match = response.match(/\[[\d,\s]+\]/);
-    if (!match) { return []; }
-    try {
-        const arr = JSON.parse(match[0]);
-        if (Array.isArray(arr) && arr.every(n => typeof n === 'number')) {
-            return arr;
-        }
-    } catch {}
-    return [];
+    const result = parseStructured(response, searchResultsSchema);
+    return result.ok ? result.value.map(entry => entry.index) : [];
 }
 
 export function buildNoteEntry(filePath: string, summary: string | null, content?: string): string {
@@ -31,69 +52,240 @@ export function buildNoteEntry(filePath: string, summary: string | null, content
 }
 
 export async function gatherNotes(workspaceRoot: string): Promise<NoteInfo[]> {
-    const notes: NoteInfo[] = [];
-    await walk(workspaceRoot, notes);
-    return notes;
+    const index = getNoteIndex(workspaceRoot);
+    await index.ready();
+    return index.all().map(note => ({
+        filePath: note.filePath,
+        summary: note.summary,
+        snippet: note.body.slice(0, 100),
+    }));
 }
 
-const EXCLUDED_DIRS = new Set(['.git', 'node_modules', '.vscode', '.claude', '_drafts']);
+export type SearchMode = 'keyword' | 'semantic' | 'ai' | 'hybrid';
 
-async function walk(dir: string, notes: NoteInfo[]): Promise<void> {
-    let entries;
-    try {
-        entries = await fsp.readdir(dir, { withFileTypes: true });
-    } catch { return; }
-    for (const entry of entries) {
-        const fullPath = path.join(dir, entry.name);
-        if (entry.isDirectory()) {
-            if (EXCLUDED_DIRS.has(entry.name)) { continue; }
-            await walk(fullPath, notes);
-        } else if (entry.name.endsWith('.md')) {
-            try {
-                const content = await fsp.readFile(fullPath, 'utf8');
-                const yamlRegex = /^---\n(?:.*\n)*?---\n/;
-                const cleanedContent = content.replace(yamlRegex, '');
-                const summary = extractSummaryFromContent(content);
-                notes.push({
-                    filePath: fullPath,
-                    summary,
-                    snippet: cleanedContent.slice(0, 100),
-                });
-            } catch {}
-        }
-    }
+export const SEARCH_MODES: Array<{ mode: SearchMode; label: string; description: string }> = [
+    { mode: 'hybrid', label: 'Hybrid', description: 'Keyword and embedding hits, reordered with the model\'s ranking' },
+    { mode: 'keyword', label: 'Keyword', description: 'Offline full-text search, no model needed' },
+    { mode: 'semantic', label: 'Semantic', description: 'Notes closest in meaning, using the embeddings index' },
+    { mode: 'ai', label: 'AI', description: 'Only the keyword hits the model judges relevant' },
+];
+
+export interface ScoredNote {
+    filePath: string;
+    score: number;
 }
 
-export async function searchNotes(query: string, notes: NoteInfo[]): Promise<string[]> {
-    const BATCH_SIZE = 50;
-    const allIndices: Array<{ index: number; batchOffset: number }> = [];
+export type MatchSource = 'keyword' | 'semantic' | 'ai' | 'filters';
 
-    for (let i = 0; i < notes.length; i += BATCH_SIZE) {
-        const batch = notes.slice(i, i + BATCH_SIZE);
-        const noteList = batch.map((n, idx) => {
-            const display = buildNoteEntry(n.filePath, n.summary, n.snippet);
-            return `${idx + 1}. ${display}`;
-        }).join('\n');
+/**
+ * Why a note was returned, for showing next to the hit.
+ */
+export interface MatchReason {
+    /** What found the note. `filters` means the query had no words to rank by. */
+    sources: MatchSource[];
+    /** Parts of the note the query words were found in. */
+    fields: MatchField[];
+    /** One or two short sentences, e.g. `Matches "budget" in the summary and body.` */
+    rationale: string;
+    /** The passage that best supports the match: the best keyword line, else the closest chunk. */
+    passage?: Passage;
+}
 
-        const prompt = `You are a note search assistant. Given the search query and a list of notes with their summaries, return the indices of the most relevant notes (up to 10), ranked by relevance.
+export interface SearchHit extends ScoredNote {
+    reason: MatchReason;
+}
+
+export interface SearchOptions {
+    /** Results returned; defaults to 20. */
+    limit?: number;
+    /** Only these notes are searched. */
+    within?: Set<string>;
+    token?: vscode.CancellationToken;
+}
+
+/** How many of the best keyword hits the model is asked to rerank. */
+const RERANK_POOL = 30;
+
+/** Reciprocal rank fusion constant; damps the gap between the first few ranks. */
+const RRF_K = 60;
+
+export function searchModeSetting(): SearchMode {
+    const mode = vscode.workspace.getConfiguration('ai-notes').get<string>('searchMode', 'hybrid');
+    return SEARCH_MODES.some(m => m.mode === mode) ? mode as SearchMode : 'hybrid';
+}
 
-Query: "${query}"
+/**
+ * Searches the notes of a vault. The query's filters (`tag:`, `path:`,
+ * `after:`, ...; see searchQuery.ts) are applied to the note metadata first,
+ * and its free text ranks the notes that pass; a query of only filters returns
+ * every match, newest first.
+ *
+ * `keyword` is the offline ranking over the full note text and `semantic` the
+ * nearest notes in the embeddings index. `ai` keeps only the top candidates the
+ * model picks, in its order, and `hybrid` fuses every ranking. Candidates come
+ * from keyword search plus, when an embedding provider is configured, the
+ * embeddings index. `hybrid` falls back to the rankings it has when embeddings
+ * or the model fail; `semantic` and `ai` throw. Throws QueryError for an
+ * invalid query.
+ */
+export async function searchVault(workspaceRoot: string, query: string, mode: SearchMode, options: SearchOptions = {}): Promise<SearchHit[]> {
+    const parsed = parseQuery(query);
+    const index = getNoteIndex(workspaceRoot);
+    const fullText = getFullTextIndex(index);
+    await fullText.ready();
 
-Notes:
-${noteList}
+    const limit = options.limit ?? 20;
+    const matching = index.all({ includeDrafts: parsed.includeDrafts }).filter(note =>
+        (!options.within || options.within.has(note.filePath))
+        && matchesFilters(note, parsed, (n, term) => fullText.contains(n.filePath, term.value, term.phrase))
+    );
+    if (!parsed.text) {
+        const rationale = parsed.filters.length > 0
+            ? `Matches ${parsed.filters.map(clause => clause.map(formatTerm).join(' OR ')).join(', ')}.`
+            : 'Listed by date; the query has no words or filters.';
+        return matching
+            .map(note => ({ filePath: note.filePath, time: noteDate(note.frontmatter, note.filePath)?.getTime() ?? 0 }))
+            .sort((a, b) => b.time - a.time || a.filePath.localeCompare(b.filePath))
+            .slice(0, limit)
+            .map(({ filePath }) => ({ filePath, score: 0, reason: { sources: ['filters'], fields: [], rationale } }));
+    }
 
-Respond with ONLY a JSON array of indices, e.g. [3, 7, 1]. No other text.`;
+    const within = new Set(matching.map(note => note.filePath));
+    const keywordHits = within.size > 0 ? fullText.search(parsed.text, { within }) : [];
+    const evidence: Evidence = { keyword: new Set(keywordHits.map(h => h.filePath)), chunks: new Map(), ai: new Map() };
+    const explain = (hits: ScoredNote[]) => hits.map(hit => ({ ...hit, reason: explainHit(index.get(hit.filePath), parsed.text, evidence) }));
+    if (mode === 'keyword' || within.size === 0) {
+        return explain(keywordHits.slice(0, limit));
+    }
 
+    const rankings = [keywordHits.map(h => h.filePath)];
+    if (mode === 'semantic' || embeddingsEnabled()) {
         try {
-            const response = await chatCompletionWithRetry(prompt);
-            const indices = parseSearchResults(response);
-            for (const idx of indices) {
-                if (idx >= 1 && idx <= batch.length) {
-                    allIndices.push({ index: idx - 1 + i, batchOffset: allIndices.length });
-                }
+            const vectorHits = await getVectorIndex(index).searchNotes(parsed.text, mode === 'semantic' ? limit : RERANK_POOL, { within, token: options.token });
+            vectorHits.forEach(hit => evidence.chunks.set(hit.filePath, hit));
+            if (mode === 'semantic') {
+                evidence.keyword.clear();
+                return explain(vectorHits);
             }
-        } catch {}
+            rankings.push(vectorHits.map(hit => hit.filePath));
+        } catch (err: any) {
+            if (mode === 'semantic' || err instanceof vscode.CancellationError) { throw err; }
+            console.warn(`Embeddings search failed, using keyword hits only: ${err.message}`);
+        }
+    }
+
+    const candidates = rankings.length > 1 ? fuseRankings(rankings) : keywordHits;
+    if (candidates.length === 0) { return []; }
+    const pool = candidates.slice(0, RERANK_POOL).map(hit => {
+        const note = index.get(hit.filePath);
+        return { filePath: hit.filePath, summary: note?.summary ?? null, snippet: note?.body.slice(0, 100) ?? '', tags: note?.tags };
+    });
+    let picked: Array<{ index: number; reason: string | null }>;
+    try {
+        picked = await rerankWithAI(parsed.text, pool, workspaceRoot, options.token);
+    } catch (err) {
+        if (mode === 'ai' || err instanceof vscode.CancellationError) { throw err; }
+        return explain(candidates.slice(0, limit));
+    }
+
+    picked.forEach(p => evidence.ai.set(pool[p.index].filePath, p.reason));
+    const aiRanking = picked.map(p => pool[p.index].filePath);
+    if (mode === 'ai') {
+        return explain(aiRanking.slice(0, limit).map((filePath, rank) => ({ filePath, score: aiRanking.length - rank })));
     }
+    return explain(fuseRankings([...rankings, aiRanking]).slice(0, limit));
+}
+
+/** What each ranking said about the notes it returned. */
+interface Evidence {
+    keyword: Set<string>;
+    chunks: Map<string, ChunkHit>;
+    /** The model's reason, or null when it gave none. */
+    ai: Map<string, string | null>;
+}
+
+function explainHit(note: IndexedNote | undefined, text: string, evidence: Evidence): MatchReason {
+    const filePath = note?.filePath ?? '';
+    const sources: MatchSource[] = [];
+    const fields: MatchField[] = [];
+    const sentences: string[] = [];
+    let passage: Passage | undefined;
+
+    const aiReason = evidence.ai.get(filePath);
+    if (evidence.ai.has(filePath)) {
+        sources.push('ai');
+        sentences.push(aiReason ? sentence(aiReason) : 'Picked by the model.');
+    }
+    if (note && evidence.keyword.has(filePath)) {
+        sources.push('keyword');
+        const matches = explainMatch(note, text);
+        fields.push(...matches.map(m => m.field));
+        const words = [...new Set(matches.flatMap(m => m.words))].slice(0, 5).map(w => `"${w}"`);
+        if (words.length > 0) {
+            sentences.push(`Matches ${joinList(words)} in the ${joinList(matches.map(m => m.field))}.`);
+        }
+        passage = findPassages(note, text, 1)[0];
+    }
+    const chunk = evidence.chunks.get(filePath);
+    if (chunk) {
+        sources.push('semantic');
+        if (!fields.includes('body')) { fields.push('body'); }
+        sentences.push(`Close in meaning to ${chunk.heading ? `the section "${chunk.heading}"` : 'its text'} (similarity ${chunk.score.toFixed(2)}).`);
+        passage ??= chunkPassage(chunk);
+    }
+    return { sources, fields, rationale: sentences.join(' '), passage };
+}
 
-    return allIndices.slice(0, 10).map(item => notes[item.index].filePath);
+/** The first lines of a chunk, without the title and heading it was prefixed with for embedding. */
+function chunkPassage(chunk: ChunkHit): Passage {
+    const content = chunk.text.split('\n\n').slice(1).join(' ').replace(/\s+/g, ' ').trim();
+    const text = content.length > 200 ? content.slice(0, 200) + '…' : content;
+    return { line: chunk.line, text, highlights: [], match: [0, 0] };
+}
+
+function sentence(text: string): string {
+    const trimmed = text.trim();
+    const capitalized = trimmed.charAt(0).toUpperCase() + trimmed.slice(1);
+    return /[.!?]$/.test(capitalized) ? capitalized : capitalized + '.';
+}
+
+function joinList(items: string[]): string {
+    return items.length <= 1 ? items.join('') : `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}`;
+}
+
+/**
+ * Reciprocal rank fusion: a note scores `1 / (k + rank)` in every ranking it
+ * appears in, so notes ranked well by both come first.
+ */
+export function fuseRankings(rankings: string[][]): ScoredNote[] {
+    const scores: Map<string, number> = new Map();
+    for (const ranking of rankings) {
+        ranking.forEach((filePath, rank) => {
+            scores.set(filePath, (scores.get(filePath) ?? 0) + 1 / (RRF_K + rank + 1));
+        });
+    }
+    return [...scores.entries()]
+        .map(([filePath, score]) => ({ filePath, score }))
+        .sort((a, b) => b.score - a.score || a.filePath.localeCompare(b.filePath));
+}
+
+/**
+ * Asks the model which of `notes` match `query`. Returns zero-based indices,
+ * most relevant first, with the model's reason for each when it gave one.
+ */
+export async function rerankWithAI(query: string, notes: NoteInfo[], rootDir: string, token?: vscode.CancellationToken): Promise<Array<{ index: number; reason: string | null }>> {
+    const noteList = notes.map((n, idx) => {
+        const tags = n.tags && n.tags.length > 0 ? ` [tags: ${n.tags.join(', ')}]` : '';
+        return `${idx + 1}. ${buildNoteEntry(n.filePath, n.summary, n.snippet)}${tags}`;
+    }).join('\n');
+    const prompt = await renderPrompt('search-notes', { query, notes: noteList }, rootDir);
+    const entries = await chatCompletionStructured(prompt, searchResultsSchema, { feature: 'search', token });
+    const picked: Map<number, string | null> = new Map();
+    for (const entry of entries) {
+        const idx = entry.index;
+        if (Number.isInteger(idx) && idx >= 1 && idx <= notes.length && !picked.has(idx - 1)) {
+            picked.set(idx - 1, entry.reason?.trim() || null);
+        }
+    }
+    return [...picked.entries()].map(([index, reason]) => ({ index, reason }));
 }
@@ -0,0 +1,19 @@
+import * as vscode from 'vscode';
+
+/**
+ * Where state shared by every vault lives. The AI cache, the usage ledger
+ * (and with it the daily token budget) and recorded fixtures are about the
+ * AI provider, not about any one vault's notes, so a multi-root workspace
+ * keeps one of each, in the `.ai-notes` folder of its first folder. Vault
+ * state (indexes, collections, prompt overrides) stays in each vault.
+ */
+
+/** The first workspace folder, or undefined when none is open. */
+export function sharedStateRoot(): string | undefined {
+    return vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+}
+
+/** Name of the folder that holds the shared state, for messages. */
+export function sharedStateFolderName(): string | undefined {
+    return vscode.workspace.workspaceFolders?.[0]?.name;
+}
@@ -2,10 +2,8 @@ import * as fsp from 'fs/promises';
 import * as fs from 'fs';
 import * as path from 'path';
 import { marked } from 'marked';
-import { extractTagsFromContent } from './tagCache';
-import { extractSummaryFromContent } from './summaries';
-import { extractMarkdownLinks } from './backlinksWebview';
 import { scanWorkspaceForGraph, buildGraphData } from './graphData';
+import { getNoteIndex, NoteIndex } from './noteIndex';
 
 interface SiteNote {
     filePath: string;
@@ -169,11 +167,13 @@ export async function exportSite(workspaceRoot: string, extensionPath: string):
     const prismAutoSrc = path.join(extensionPath, 'resources', 'site-template', 'prism-autoloader.min.js');
     await fsp.copyFile(prismAutoSrc, path.join(siteDir, 'js', 'prism-autoloader.min.js'));
 
-    const notes = await gatherSiteNotes(workspaceRoot);
+    const index = getNoteIndex(workspaceRoot);
+    await index.ready();
+    const notes = gatherSiteNotes(index);
     const allTags = collectTags(notes);
 
     for (const note of notes) {
-        note.backlinks = findBacklinks(note, notes);
+        note.backlinks = findBacklinks(note, notes, index);
     }
 
     // Render HTML content for each note
@@ -228,33 +228,17 @@ export async function exportSite(workspaceRoot: string, extensionPath: string):
     return siteDir;
 }
 
-const EXCLUDED_DIRS = new Set(['.git', 'node_modules', '.vscode', '.claude', '_drafts', '_site', '_moc', '.ai-notes', '.templates']);
-
-async function gatherSiteNotes(workspaceRoot: string): Promise<SiteNote[]> {
-    const notes: SiteNote[] = [];
-    await walkSite(workspaceRoot, notes);
-    return notes;
-}
-
-async function walkSite(dir: string, notes: SiteNote[]): Promise<void> {
-    let entries;
-    try { entries = await fsp.readdir(dir, { withFileTypes: true }); } catch { return; }
-    for (const entry of entries) {
-        const fullPath = path.join(dir, entry.name);
-        if (entry.isDirectory()) {
-            if (EXCLUDED_DIRS.has(entry.name)) { continue; }
-            await walkSite(fullPath, notes);
-        } else if (entry.name.endsWith('.md')) {
-            try {
-                const raw = await fsp.readFile(fullPath, 'utf8');
-                const tags = extractTagsFromContent(raw);
-                const summary = extractSummaryFromContent(raw);
-                const content = raw.replace(/^---\n(?:.*\n)*?---\n/, '');
-                const slug = path.basename(fullPath, '.md');
-                notes.push({ filePath: fullPath, fileName: entry.name, slug, tags, summary, content, htmlContent: '', backlinks: [] });
-            } catch { /* skip unreadable files */ }
-        }
-    }
+function gatherSiteNotes(index: NoteIndex): SiteNote[] {
+    return index.all().map(note => ({
+        filePath: note.filePath,
+        fileName: path.basename(note.filePath),
+        slug: note.title,
+        tags: note.tags,
+        summary: note.summary,
+        content: note.body,
+        htmlContent: '',
+        backlinks: [],
+    }));
 }
 
 function collectTags(notes: SiteNote[]): Record<string, SiteNote[]> {
@@ -268,17 +252,13 @@ function collectTags(notes: SiteNote[]): Record<string, SiteNote[]> {
     return tags;
 }
 
-function findBacklinks(target: SiteNote, allNotes: SiteNote[]): string[] {
+function findBacklinks(target: SiteNote, allNotes: SiteNote[], index: NoteIndex): string[] {
+    const slugs = new Map(allNotes.map(n => [n.filePath, n.slug]));
     const backlinks: string[] = [];
-    for (const note of allNotes) {
-        if (note.filePath === target.filePath) { continue; }
-        const links = extractMarkdownLinks(note.content);
-        for (const link of links) {
-            const resolved = path.resolve(path.dirname(note.filePath), link.href);
-            if (resolved === target.filePath) {
-                backlinks.push(note.slug);
-                break;
-            }
+    for (const { fromFile } of index.backlinksTo(target.filePath)) {
+        const slug = slugs.get(fromFile);
+        if (slug && fromFile !== target.filePath && !backlinks.includes(slug)) {
+            backlinks.push(slug);
         }
     }
     return backlinks;
@@ -1,16 +1,64 @@
 import * as fsp from 'fs/promises';
 import * as fs from 'fs';
 import * as path from 'path';
-import { extractTagsFromContent } from './tagCache';
-import { searchNotes, gatherNotes } from './semanticSearch';
+import { searchVault } from './semanticSearch';
+import { getNoteIndex } from './noteIndex';
+import { noteDate, parseFrontmatterDate, isoDate } from './noteNaming';
+import { frontmatterString } from './frontmatter';
+import { notePathMatches } from './searchQuery';
 
+export { parseDateFromFilename } from './noteNaming';
+
+/**
+ * A saved set of notes. `tags`, `dateRange` and `query` are the original
+ * fields and still apply; `filter` adds nested AND/OR/NOT conditions on top,
+ * and `sort` / `limit` shape the result. Collections written before `filter`
+ * existed load unchanged.
+ */
 export interface Collection {
     name: string;
+    /** Notes must have every one of these tags. */
     tags: string[] | null;
+    /** Only notes dated within the last N days. */
     dateRange: number | null;
+    /** Search query ranking the notes that pass the filters. */
     query: string | null;
+    filter?: CollectionFilter;
+    sort?: CollectionSort;
+    order?: 'asc' | 'desc';
+    /** Most notes returned. */
+    limit?: number;
 }
 
+export type CollectionSort = 'relevance' | 'date' | 'modified' | 'title' | 'words';
+
+type Scalar = string | number | boolean;
+
+/**
+ * One condition, or a group of them, as written in `collections.json`:
+ *
+ *   { "and": [{ "tag": "project" }, { "not": { "field": "status", "equals": "done" } }] }
+ */
+export type CollectionFilter =
+    | { and: CollectionFilter[] }
+    | { or: CollectionFilter[] }
+    | { not: CollectionFilter }
+    /** Has the tag, or a nested tag under it. */
+    | { tag: string }
+    /** Path relative to the vault starts with this folder. */
+    | { folder: string }
+    /** Frontmatter key equals one of the values (any list item counts), or exists at all. */
+    | { field: string; equals?: Scalar | Scalar[]; exists?: boolean }
+    /** Links to, or is linked from, the named note. */
+    | { linksTo: string }
+    | { linkedFrom: string }
+    | { words: { min?: number; max?: number } }
+    /** Note date (`key` in frontmatter, default the created date) on or after `after` and before `before`. */
+    | { date: { after?: string; before?: string; lastDays?: number; key?: string } };
+
+/** The keys that make a filter node; each node has exactly one. */
+const FILTER_CONDITIONS = ['and', 'or', 'not', 'tag', 'folder', 'field', 'linksTo', 'linkedFrom', 'words', 'date'];
+
 interface CollectionsFile {
     collections: Collection[];
 }
@@ -19,16 +67,18 @@ export interface NoteForFilter {
     tags: string[];
     date: Date | null;
     filePath: string;
+    /** Path relative to the vault, with `/` separators. */
+    relPath?: string;
+    frontmatter?: Record<string, unknown>;
+    /** Notes this note links to. */
+    links?: string[];
+    /** Notes that link to this note. */
+    backlinks?: string[];
+    wordCount?: number;
+    mtime?: number;
 }
 
-export function parseDateFromFilename(filename: string): Date | null {
-    const match = filename.match(/(\d{2})-(\d{2})-(\d{4})/);
-    if (!match) { return null; }
-    const [, dd, mm, yyyy] = match;
-    const date = new Date(parseInt(yyyy), parseInt(mm) - 1, parseInt(dd));
-    if (isNaN(date.getTime())) { return null; }
-    return date;
-}
+const SORTS: CollectionSort[] = ['relevance', 'date', 'modified', 'title', 'words'];
 
 export function matchesCollection(note: NoteForFilter, collection: Collection): boolean {
     if (collection.tags && collection.tags.length > 0) {
@@ -43,7 +93,169 @@ export function matchesCollection(note: NoteForFilter, collection: Collection):
         if (note.date < cutoff) { return false; }
     }
 
-    return true;
+    return collection.filter ? matchesFilter(note, collection.filter) : true;
+}
+
+/**
+ * Evaluates one filter node. Call collectionFilterError first: malformed
+ * nodes do not match anything.
+ */
+export function matchesFilter(note: NoteForFilter, filter: CollectionFilter): boolean {
+    if ('and' in filter) { return filter.and.every(f => matchesFilter(note, f)); }
+    if ('or' in filter) { return filter.or.some(f => matchesFilter(note, f)); }
+    if ('not' in filter) { return !matchesFilter(note, filter.not); }
+    if ('tag' in filter) {
+        const tag = filter.tag.toLowerCase().replace(/^#/, '');
+        return note.tags.some(t => t.toLowerCase() === tag || t.toLowerCase().startsWith(tag + '/'));
+    }
+    if ('folder' in filter) {
+        const folder = filter.folder.toLowerCase().replace(/^\.?\//, '').replace(/\/?$/, '/');
+        return (note.relPath ?? '').toLowerCase().startsWith(folder);
+    }
+    if ('field' in filter) { return matchesField(note.frontmatter ?? {}, filter); }
+    if ('linksTo' in filter) { return (note.links ?? []).some(target => notePathMatches(target, filter.linksTo)); }
+    if ('linkedFrom' in filter) { return (note.backlinks ?? []).some(source => notePathMatches(source, filter.linkedFrom)); }
+    if ('words' in filter) {
+        const count = note.wordCount ?? 0;
+        return count >= (filter.words.min ?? 0) && count <= (filter.words.max ?? Infinity);
+    }
+    if ('date' in filter) {
+        const { after, before, lastDays, key } = filter.date;
+        const date = key ? parseFrontmatterDate(frontmatterString(note.frontmatter ?? {}, key)) : note.date;
+        if (!date) { return false; }
+        if (after && date < parseFrontmatterDate(after)!) { return false; }
+        if (before && date >= parseFrontmatterDate(before)!) { return false; }
+        if (lastDays !== undefined) {
+            const cutoff = new Date();
+            cutoff.setDate(cutoff.getDate() - lastDays);
+            if (date < cutoff) { return false; }
+        }
+        return true;
+    }
+    return false;
+}
+
+function matchesField(frontmatter: Record<string, unknown>, filter: { field: string; equals?: Scalar | Scalar[]; exists?: boolean }): boolean {
+    const key = Object.keys(frontmatter).find(k => k.toLowerCase() === filter.field.toLowerCase());
+    const value = key !== undefined ? frontmatter[key] : undefined;
+    const present = value !== undefined && value !== null && value !== '';
+    if (filter.exists !== undefined && filter.exists !== present) { return false; }
+    if (filter.equals === undefined) { return filter.exists !== undefined || present; }
+    const wanted = (Array.isArray(filter.equals) ? filter.equals : [filter.equals]).map(v => String(v).toLowerCase());
+    const values = Array.isArray(value) ? value : [value];
+    return values.some(v => v !== null && v !== undefined && typeof v !== 'object' && wanted.includes(String(v).trim().toLowerCase()));
+}
+
+/**
+ * The first problem in a filter, with its JSON path, or null when it is valid.
+ */
+export function collectionFilterError(filter: unknown, at = 'filter'): string | null {
+    if (!isPlainObject(filter)) {
+        return `${at}: expected an object`;
+    }
+    const node = filter as Record<string, any>;
+    const conditions = Object.keys(node).filter(key => FILTER_CONDITIONS.includes(key));
+    if (conditions.length === 0) {
+        const keys = Object.keys(node);
+        return `${at}: unknown condition ${keys.length > 0 ? `"${keys[0]}"` : '{}'}; use and, or, not, tag, folder, field, linksTo, linkedFrom, words or date`;
+    }
+    if (conditions.length > 1) {
+        return `${at}: one condition per object, found ${conditions.map(c => `"${c}"`).join(' and ')}; combine them with and or or`;
+    }
+    const [condition] = conditions;
+    const value = node[condition];
+    if (condition === 'and' || condition === 'or') {
+        if (!Array.isArray(value)) { return `${at}.${condition}: expected a list`; }
+        for (let i = 0; i < value.length; i++) {
+            const error = collectionFilterError(value[i], `${at}.${condition}[${i}]`);
+            if (error) { return error; }
+        }
+        return null;
+    }
+    if (condition === 'not') { return collectionFilterError(value, `${at}.not`); }
+    if (condition !== 'words' && condition !== 'date' && (typeof value !== 'string' || !value.trim())) {
+        return `${at}.${condition}: expected a non-empty string`;
+    }
+    if (condition === 'field') {
+        const { equals, exists } = node;
+        const isScalar = (v: unknown) => typeof v === 'string' || typeof v === 'number' || typeof v === 'boolean';
+        if (equals !== undefined && !isScalar(equals) && !(Array.isArray(equals) && equals.every(isScalar))) {
+            return `${at}.equals: expected a string, number or boolean, or a list of them`;
+        }
+        if (exists !== undefined && typeof exists !== 'boolean') {
+            return `${at}.exists: expected true or false`;
+        }
+        return null;
+    }
+    if (condition === 'words') {
+        if (!isPlainObject(value)) { return `${at}.words: expected an object like { "min": 100 }`; }
+        for (const bound of ['min', 'max']) {
+            if (value[bound] !== undefined && !Number.isFinite(value[bound])) {
+                return `${at}.words.${bound}: expected a number`;
+            }
+        }
+        return null;
+    }
+    if (condition === 'date') {
+        if (!isPlainObject(value)) { return `${at}.date: expected an object like { "lastDays": 7 }`; }
+        for (const bound of ['after', 'before']) {
+            if (value[bound] !== undefined && (typeof value[bound] !== 'string' || !parseFrontmatterDate(value[bound]))) {
+                return `${at}.date.${bound}: expected a date like 2026-01-31, got ${JSON.stringify(value[bound])}`;
+            }
+        }
+        if (value.lastDays !== undefined && !Number.isFinite(value.lastDays)) {
+            return `${at}.date.lastDays: expected a number`;
+        }
+        if (value.key !== undefined && (typeof value.key !== 'string' || !value.key.trim())) {
+            return `${at}.date.key: expected a non-empty string`;
+        }
+        return null;
+    }
+    return null;
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * A one-line description of a filter, e.g. `tag:project AND NOT status=done`.
+ */
+export function describeFilter(filter: CollectionFilter): string {
+    const group = (items: CollectionFilter[], op: string) =>
+        items.length === 1 ? describeFilter(items[0]) : `(${items.map(describeFilter).join(` ${op} `)})`;
+    if ('and' in filter) { return group(filter.and, 'AND'); }
+    if ('or' in filter) { return group(filter.or, 'OR'); }
+    if ('not' in filter) { return `NOT ${describeFilter(filter.not)}`; }
+    if ('tag' in filter) { return `tag:${filter.tag}`; }
+    if ('folder' in filter) { return `folder:${filter.folder}`; }
+    if ('field' in filter) {
+        if (filter.equals === undefined) { return filter.exists === false ? `no ${filter.field}` : `has ${filter.field}`; }
+        return `${filter.field}=${[filter.equals].flat().join('|')}`;
+    }
+    if ('linksTo' in filter) { return `links to ${filter.linksTo}`; }
+    if ('linkedFrom' in filter) { return `linked from ${filter.linkedFrom}`; }
+    if ('words' in filter) { return `${filter.words.min ?? 0}-${filter.words.max ?? '∞'} words`; }
+    if ('date' in filter) {
+        const { after, before, lastDays, key } = filter.date;
+        const parts = [after && `from ${after}`, before && `before ${before}`, lastDays !== undefined && `last ${lastDays} days`].filter(Boolean);
+        return `${key ?? 'date'} ${parts.join(', ')}`;
+    }
+    return '?';
+}
+
+/**
+ * Everything that defines a collection, for QuickPick descriptions and tooltips.
+ */
+export function describeCollection(collection: Collection): string {
+    return [
+        collection.tags && collection.tags.length > 0 ? `tags: ${collection.tags.join(', ')}` : '',
+        collection.dateRange ? `last ${collection.dateRange} days` : '',
+        collection.query ? `query: "${collection.query}"` : '',
+        collection.filter ? describeFilter(collection.filter) : '',
+        collection.sort ? `by ${collection.sort}${collection.order ? ` ${collection.order}` : ''}` : '',
+        collection.limit ? `top ${collection.limit}` : '',
+    ].filter(Boolean).join(' | ');
 }
 
 export async function loadCollections(workspaceRoot: string): Promise<Collection[]> {
@@ -67,49 +279,154 @@ export async function saveCollections(workspaceRoot: string, collections: Collec
     await fsp.writeFile(filePath, JSON.stringify(data, null, 2), 'utf8');
 }
 
+/**
+ * The notes that pass a collection's tags, date range and filter, before its
+ * query ranks them. Offline and cheap enough to re-run on every change.
+ * `notes`, from gatherNotesForFilter, saves gathering them again when several
+ * collections are evaluated together. Throws when the filter or sort is
+ * malformed.
+ */
+export async function filterCollection(collection: Collection, workspaceRoot: string, notes?: NoteForFilter[]): Promise<NoteForFilter[]> {
+    const filterError = collection.filter !== undefined ? collectionFilterError(collection.filter) : null;
+    if (filterError) {
+        throw new Error(`Invalid filter in "${collection.name}": ${filterError}`);
+    }
+    if (collection.sort !== undefined && !SORTS.includes(collection.sort)) {
+        throw new Error(`Invalid sort in "${collection.name}": use one of ${SORTS.join(', ')}`);
+    }
+
+    const allNotes = notes ?? await gatherNotesForFilter(workspaceRoot, filterUsesBacklinks(collection.filter));
+    return allNotes.filter(note => matchesCollection(note, collection));
+}
+
+/**
+ * The notes of a collection, in its sort order. Throws when its filter is
+ * malformed. `notes` is passed on to filterCollection.
+ */
 export async function runCollection(
     collection: Collection,
-    workspaceRoot: string
+    workspaceRoot: string,
+    notes?: NoteForFilter[]
 ): Promise<string[]> {
-    const allNotes = await gatherNotesForFilter(workspaceRoot);
-
-    let filtered = allNotes.filter(note => matchesCollection(note, collection));
+    let filtered = await filterCollection(collection, workspaceRoot, notes);
 
     if (collection.query && filtered.length > 0) {
-        const noteInfos = await gatherNotes(workspaceRoot);
         const filteredPaths = new Set(filtered.map(n => n.filePath));
-        const relevantNotes = noteInfos.filter(n => filteredPaths.has(n.filePath));
-        return searchNotes(collection.query, relevantNotes);
+        const hits = await searchVault(workspaceRoot, collection.query, 'hybrid', { within: filteredPaths, limit: filteredPaths.size });
+        const byPath = new Map(filtered.map(n => [n.filePath, n]));
+        filtered = hits.map(hit => byPath.get(hit.filePath)).filter((n): n is NoteForFilter => n !== undefined);
     }
 
-    return filtered.map(n => n.filePath);
+    const sorted = sortNotes(filtered, collection.sort, collection.order);
+    return (collection.limit && collection.limit > 0 ? sorted.slice(0, collection.limit) : sorted).map(n => n.filePath);
 }
 
-const EXCLUDED_DIRS = new Set(['.git', 'node_modules', '.vscode', '.claude', '_drafts']);
+/**
+ * `base`, or `base 2`, `base 3`, ... when a collection already has that name.
+ */
+export function uniqueCollectionName(collections: Collection[], base: string): string {
+    const taken = new Set(collections.map(c => c.name));
+    let name = base;
+    for (let n = 2; taken.has(name); n++) {
+        name = `${base} ${n}`;
+    }
+    return name;
+}
 
-async function gatherNotesForFilter(workspaceRoot: string): Promise<NoteForFilter[]> {
-    const notes: NoteForFilter[] = [];
-    await walkForFilter(workspaceRoot, notes);
-    return notes;
+/**
+ * `filePath` relative to `fromDir` as a markdown link target, in angle
+ * brackets when it has spaces or parentheses that would end the link.
+ */
+export function markdownLinkTarget(fromDir: string, filePath: string): string {
+    const relativePath = path.relative(fromDir, filePath).split(path.sep).join('/');
+    return /[\s()]/.test(relativePath) ? `<${relativePath}>` : relativePath;
 }
 
-async function walkForFilter(dir: string, notes: NoteForFilter[]): Promise<void> {
-    let entries;
-    try {
-        entries = await fsp.readdir(dir, { withFileTypes: true });
-    } catch { return; }
-    for (const entry of entries) {
-        const fullPath = path.join(dir, entry.name);
-        if (entry.isDirectory()) {
-            if (EXCLUDED_DIRS.has(entry.name)) { continue; }
-            await walkForFilter(fullPath, notes);
-        } else if (entry.name.endsWith('.md')) {
-            try {
-                const content = await fsp.readFile(fullPath, 'utf8');
-                const tags = extractTagsFromContent(content);
-                const date = parseDateFromFilename(entry.name);
-                notes.push({ tags, date, filePath: fullPath });
-            } catch {}
+/**
+ * A note listing a collection's members as links relative to `fromDir`, for
+ * exporting the collection into the vault.
+ */
+export function collectionToMarkdown(collection: Collection, filePaths: string[], fromDir: string, date: Date): string {
+    const description = describeCollection(collection);
+    const links = filePaths.map(filePath => `- [${path.basename(filePath, '.md')}](${markdownLinkTarget(fromDir, filePath)})`);
+    return [
+        '---',
+        `created: ${isoDate(date)}`,
+        '---',
+        `# ${collection.name}`,
+        '',
+        ...(description ? [`> ${description}`, ''] : []),
+        ...(links.length > 0 ? links : ['No notes match this collection.']),
+        '',
+    ].join('\n');
+}
+
+/**
+ * `notes` in the given order. `relevance` (and no sort at all) keeps the
+ * order they come in; dates and sizes default to descending, titles to
+ * ascending.
+ */
+export function sortNotes(notes: NoteForFilter[], sort?: CollectionSort, order?: 'asc' | 'desc'): NoteForFilter[] {
+    if (!sort || sort === 'relevance') { return order === 'asc' ? [...notes].reverse() : notes; }
+    const key = (n: NoteForFilter): number | string => {
+        switch (sort) {
+            case 'date': return n.date?.getTime() ?? 0;
+            case 'modified': return n.mtime ?? 0;
+            case 'words': return n.wordCount ?? 0;
+            case 'title': return path.basename(n.filePath, '.md').toLowerCase();
+        }
+    };
+    const direction = (order ?? (sort === 'title' ? 'asc' : 'desc')) === 'asc' ? 1 : -1;
+    return [...notes].sort((a, b) => {
+        const ka = key(a), kb = key(b);
+        const cmp = typeof ka === 'string' ? ka.localeCompare(kb as string) : ka - (kb as number);
+        return cmp * direction || a.filePath.localeCompare(b.filePath);
+    });
+}
+
+/**
+ * Whether a filter has a `linkedFrom` condition, the only one that needs
+ * backlinks.
+ */
+export function filterUsesBacklinks(filter: CollectionFilter | undefined): boolean {
+    if (!filter) { return false; }
+    if ('and' in filter) { return filter.and.some(filterUsesBacklinks); }
+    if ('or' in filter) { return filter.or.some(filterUsesBacklinks); }
+    if ('not' in filter) { return filterUsesBacklinks(filter.not); }
+    return 'linkedFrom' in filter;
+}
+
+/**
+ * Every note as the filters see it. Backlinks are worked out, from one
+ * pass over the links of the vault, only when `withBacklinks` is set.
+ */
+export async function gatherNotesForFilter(workspaceRoot: string, withBacklinks: boolean): Promise<NoteForFilter[]> {
+    const index = getNoteIndex(workspaceRoot);
+    await index.ready();
+    let backlinks: Map<string, string[]> | undefined;
+    if (withBacklinks) {
+        backlinks = new Map();
+        for (const source of index.all({ includeDrafts: true, includeGenerated: true })) {
+            for (const link of source.links) {
+                const sources = backlinks.get(link.target) ?? [];
+                sources.push(source.filePath);
+                backlinks.set(link.target, sources);
+            }
         }
     }
+    return index.all().map(note => ({
+        tags: note.tags,
+        date: noteDate(note.frontmatter, note.filePath),
+        filePath: note.filePath,
+        relPath: note.relPath,
+        frontmatter: note.frontmatter,
+        links: note.links.map(l => l.target),
+        backlinks: backlinks ? backlinks.get(note.filePath) ?? [] : undefined,
+        wordCount: countWords(note.body),
+        mtime: note.mtime,
+    }));
+}
+
+export function countWords(text: string): number {
+    return (text.match(/[\p{L}\p{N}]+(?:['’-][\p{L}\p{N}]+)*/gu) ?? []).length;
 }
@@ -0,0 +1,100 @@
+/**
+ * The Porter stemmer (M.F. Porter, 1980), used so that "running", "runs" and
+ * "run" find each other in full-text search. Expects a lowercase English word;
+ * anything shorter than three letters or containing non a-z characters is
+ * returned unchanged.
+ */
+
+const STEP2: Record<string, string> = {
+    ational: 'ate', tional: 'tion', enci: 'ence', anci: 'ance', izer: 'ize', bli: 'ble',
+    alli: 'al', entli: 'ent', eli: 'e', ousli: 'ous', ization: 'ize', ation: 'ate',
+    ator: 'ate', alism: 'al', iveness: 'ive', fulness: 'ful', ousness: 'ous', aliti: 'al',
+    iviti: 'ive', biliti: 'ble', logi: 'log',
+};
+
+const STEP3: Record<string, string> = {
+    icate: 'ic', ative: '', alize: 'al', iciti: 'ic', ical: 'ic', ful: '', ness: '',
+};
+
+const c = '[^aeiou]';
+const v = '[aeiouy]';
+const C = `${c}[^aeiouy]*`;
+const V = `${v}[aeiou]*`;
+
+/** Measure m > 0. */
+const MGR0 = new RegExp(`^(${C})?${V}${C}`);
+/** Measure m == 1. */
+const MEQ1 = new RegExp(`^(${C})?${V}${C}(${V})?$`);
+/** Measure m > 1. */
+const MGR1 = new RegExp(`^(${C})?${V}${C}${V}${C}`);
+/** Stem contains a vowel. */
+const HAS_VOWEL = new RegExp(`^(${C})?${v}`);
+/** Ends consonant-vowel-consonant, the last not w, x or y. */
+const CVC = new RegExp(`^${C}${v}[^aeiouwxy]$`);
+
+export function stem(word: string): string {
+    if (word.length < 3 || !/^[a-z]+$/.test(word)) { return word; }
+
+    // A leading y is a consonant; mark it so the vowel patterns skip it.
+    const leadingY = word[0] === 'y';
+    let w = leadingY ? 'Y' + word.slice(1) : word;
+    let match: RegExpExecArray | null;
+
+    // Step 1a: plurals.
+    if ((match = /^(.+?)(ss|i)es$/.exec(w))) {
+        w = match[1] + match[2];
+    } else if ((match = /^(.+?)([^s])s$/.exec(w))) {
+        w = match[1] + match[2];
+    }
+
+    // Step 1b: -eed, -ed, -ing.
+    if ((match = /^(.+?)eed$/.exec(w))) {
+        if (MGR0.test(match[1])) { w = w.slice(0, -1); }
+    } else if ((match = /^(.+?)(ed|ing)$/.exec(w))) {
+        const stemmed = match[1];
+        if (HAS_VOWEL.test(stemmed)) {
+            w = stemmed;
+            if (/(at|bl|iz)$/.test(w)) {
+                w += 'e';
+            } else if (/([^aeiouylsz])\1$/.test(w)) {
+                w = w.slice(0, -1);
+            } else if (CVC.test(w)) {
+                w += 'e';
+            }
+        }
+    }
+
+    // Step 1c: y -> i.
+    if ((match = /^(.+?)y$/.exec(w)) && HAS_VOWEL.test(match[1])) {
+        w = match[1] + 'i';
+    }
+
+    // Step 2: double suffixes.
+    if ((match = /^(.+?)(ational|tional|enci|anci|izer|bli|alli|entli|eli|ousli|ization|ation|ator|alism|iveness|fulness|ousness|aliti|iviti|biliti|logi)$/.exec(w))) {
+        if (MGR0.test(match[1])) { w = match[1] + STEP2[match[2]]; }
+    }
+
+    // Step 3: -ic-, -full, -ness, ...
+    if ((match = /^(.+?)(icate|ative|alize|iciti|ical|ful|ness)$/.exec(w))) {
+        if (MGR0.test(match[1])) { w = match[1] + STEP3[match[2]]; }
+    }
+
+    // Step 4: -ant, -ence, ...
+    if ((match = /^(.+?)(al|ance|ence|er|ic|able|ible|ant|ement|ment|ent|ou|ism|ate|iti|ous|ive|ize)$/.exec(w))) {
+        if (MGR1.test(match[1])) { w = match[1]; }
+    } else if ((match = /^(.+?)(s|t)(ion)$/.exec(w))) {
+        const stemmed = match[1] + match[2];
+        if (MGR1.test(stemmed)) { w = stemmed; }
+    }
+
+    // Step 5: tidy up -e and -ll.
+    if ((match = /^(.+?)e$/.exec(w))) {
+        const stemmed = match[1];
+        if (MGR1.test(stemmed) || (MEQ1.test(stemmed) && !CVC.test(stemmed))) { w = stemmed; }
+    }
+    if (/ll$/.test(w) && MGR1.test(w)) {
+        w = w.slice(0, -1);
+    }
+
+    return leadingY ? 'y' + w.slice(1) : w;
+}
@@ -0,0 +1,193 @@
+/**
+ * Minimal schema layer for JSON the model is asked to produce. Schemas validate
+ * an already-parsed value, report the first problem with a JSON path, and can
+ * describe their own shape so a failed response can be re-asked with a precise hint.
+ */
+
+export type SchemaResult<T> = { ok: true; value: T } | { ok: false; error: string };
+
+export interface Schema<T> {
+    /** Compact TypeScript-like description of the expected shape, shown to the model. */
+    readonly description: string;
+    parse(value: unknown, path?: string): SchemaResult<T>;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+type Shape = Record<string, Schema<any>>;
+
+type OptionalKeys<S extends Shape> = { [K in keyof S]: undefined extends Infer<S[K]> ? K : never }[keyof S];
+type RequiredKeys<S extends Shape> = Exclude<keyof S, OptionalKeys<S>>;
+type ObjectOf<S extends Shape> =
+    { [K in RequiredKeys<S>]: Infer<S[K]> } &
+    { [K in OptionalKeys<S>]?: Exclude<Infer<S[K]>, undefined> };
+
+function describeValue(value: unknown): string {
+    if (value === null) { return 'null'; }
+    if (Array.isArray(value)) { return 'array'; }
+    return typeof value;
+}
+
+function fail(path: string, expected: string, value: unknown): { ok: false; error: string } {
+    return { ok: false, error: `${path}: expected ${expected}, got ${describeValue(value)}` };
+}
+
+export const schema = {
+    string(): Schema<string> {
+        return {
+            description: 'string',
+            parse: (value, path = '$') => typeof value === 'string' ? { ok: true, value } : fail(path, 'string', value),
+        };
+    },
+
+    number(): Schema<number> {
+        return {
+            description: 'number',
+            parse: (value, path = '$') => typeof value === 'number' && !isNaN(value) ? { ok: true, value } : fail(path, 'number', value),
+        };
+    },
+
+    literal<L extends string>(literal: L): Schema<L> {
+        return {
+            description: JSON.stringify(literal),
+            parse: (value, path = '$') => value === literal ? { ok: true, value: literal } : fail(path, JSON.stringify(literal), value),
+        };
+    },
+
+    optional<T>(inner: Schema<T>): Schema<T | undefined> {
+        return {
+            description: inner.description,
+            parse: (value, path = '$') => value === undefined || value === null ? { ok: true, value: undefined } : inner.parse(value, path),
+        };
+    },
+
+    /**
+     * An array of `item`. With `dropInvalid`, elements that fail validation are
+     * skipped instead of failing the whole array (useful when partial output is still useful).
+     */
+    array<T>(item: Schema<T>, options: { minItems?: number; dropInvalid?: boolean } = {}): Schema<T[]> {
+        return {
+            description: `${item.description.includes(' ') ? `(${item.description})` : item.description}[]`,
+            parse: (value, path = '$') => {
+                if (!Array.isArray(value)) { return fail(path, 'array', value); }
+                const out: T[] = [];
+                for (let i = 0; i < value.length; i++) {
+                    const result = item.parse(value[i], `${path}[${i}]`);
+                    if (result.ok) {
+                        out.push(result.value);
+                    } else if (!options.dropInvalid) {
+                        return result;
+                    }
+                }
+                if (options.minItems !== undefined && out.length < options.minItems) {
+                    return { ok: false, error: `${path}: expected at least ${options.minItems} valid item(s), got ${out.length}` };
+                }
+                return { ok: true, value: out };
+            },
+        };
+    },
+
+    object<S extends Shape>(shape: S): Schema<ObjectOf<S>> {
+        const fields = Object.entries(shape).map(([key, s]) => `"${key}": ${s.description}`);
+        return {
+            description: `{ ${fields.join(', ')} }`,
+            parse: (value, path = '$') => {
+                if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+                    return fail(path, 'object', value);
+                }
+                const out: Record<string, unknown> = {};
+                for (const [key, fieldSchema] of Object.entries(shape)) {
+                    const result = fieldSchema.parse((value as Record<string, unknown>)[key], `${path}.${key}`);
+                    if (!result.ok) { return result; }
+                    if (result.value !== undefined) { out[key] = result.value; }
+                }
+                return { ok: true, value: out as ObjectOf<S> };
+            },
+        };
+    },
+
+    /** The first alternative that accepts the value wins. */
+    union<T>(...alternatives: Schema<T>[]): Schema<T> {
+        return {
+            description: alternatives.map(a => a.description).join(' | '),
+            parse: (value, path = '$') => {
+                for (const alternative of alternatives) {
+                    const result = alternative.parse(value, path);
+                    if (result.ok) { return result; }
+                }
+                return { ok: false, error: `${path}: expected one of ${alternatives.map(a => a.description).join(' | ')}` };
+            },
+        };
+    },
+};
+
+/**
+ * Pulls a JSON value out of free-form model output: the whole response, a fenced
+ * ```json block, or the outermost {...} / [...] span, in that order.
+ * Throws when none of them parse.
+ */
+export function extractJson(response: string): unknown {
+    const candidates: string[] = [response.trim()];
+
+    const fenced = response.match(/```(?:json)?\s*\n?([\s\S]*?)```/);
+    if (fenced) { candidates.push(fenced[1].trim()); }
+
+    const objectStart = response.indexOf('{');
+    const arrayStart = response.indexOf('[');
+    const objectSpan = response.match(/\{[\s\S]*\}/);
+    const arraySpan = response.match(/\[[\s\S]*\]/);
+    const spans = objectStart !== -1 && (arrayStart === -1 || objectStart < arrayStart)
+        ? [objectSpan, arraySpan]
+        : [arraySpan, objectSpan];
+    for (const span of spans) {
+        if (span) { candidates.push(span[0]); }
+    }
+
+    for (const candidate of candidates) {
+        try {
+            return JSON.parse(candidate);
+        } catch {
+            // try the next candidate
+        }
+    }
+    throw new Error('response contained no valid JSON.');
+}
+
+/**
+ * Extracts and validates JSON from `response` against `target`.
+ */
+export function parseStructured<T>(response: string, target: Schema<T>): SchemaResult<T> {
+    let json: unknown;
+    try {
+        json = extractJson(response);
+    } catch (err: any) {
+        return { ok: false, error: err.message };
+    }
+    return target.parse(json);
+}
+
+/**
+ * Builds the follow-up prompt sent when a response failed validation.
+ */
+export function buildRepairPrompt(originalPrompt: string, previousResponse: string, error: string, target: Schema<unknown>): string {
+    return `${originalPrompt}
+
+Your previous response could not be used:
+"""${previousResponse.slice(0, 2000)}"""
+
+Problem: ${error}
+
+Respond again with ONLY valid JSON matching this shape, with no other text:
+${target.description}`;
+}
+
+export class StructuredOutputError extends Error {
+    constructor(
+        message: string,
+        public readonly validationError: string,
+        public readonly lastResponse: string
+    ) {
+        super(message);
+        this.name = 'StructuredOutputError';
+    }
+}
@@ -1,23 +1,20 @@
 import { chatCompletionWithRetry } from './ai';
+import { renderPrompt } from './prompts';
+import { parseFrontmatter, frontmatterString } from './frontmatter';
 
 export function extractSummaryFromContent(content: string): string | null {
-    const match = content.match(/^---\n([\s\S]*?)\n---/);
-    if (!match) { return null; }
-    const yaml = match[1];
-    const summaryLine = yaml.split('\n').find(line => line.trim().startsWith('summary:'));
-    if (!summaryLine) { return null; }
-    const valueMatch = summaryLine.match(/^summary:\s*"?([^"]*)"?\s*$/);
-    if (!valueMatch || !valueMatch[1]) { return null; }
-    const raw = valueMatch[1].trim();
-    return raw.length > 80 ? raw.slice(0, 80) : raw;
+    return summaryFromFrontmatter(parseFrontmatter(content).data);
 }
 
-export async function generateSummary(content: string): Promise<string> {
-    const prompt = `Summarize this note in one concise sentence (max 15 words). Output only the summary, no quotes or extra formatting.
+export function summaryFromFrontmatter(data: Record<string, unknown>): string | null {
+    const raw = frontmatterString(data, 'summary');
+    if (!raw) { return null; }
+    return raw.length > 80 ? raw.slice(0, 80) : raw;
+}
 
-Note content:
-"""${content}"""`;
+export async function generateSummary(content: string, rootDir: string): Promise<string> {
+    const prompt = await renderPrompt('summarize-note', { content }, rootDir);
 
-    const response = await chatCompletionWithRetry(prompt);
+    const response = await chatCompletionWithRetry(prompt, { feature: 'summarize' });
     return response.trim().replace(/^["']|["']$/g, '');
 }
@@ -1,8 +1,9 @@
 import * as vscode from 'vscode';
-import { TagCache } from './tagCache';
+import { VaultManager } from './vaults';
+import { splitFrontmatter } from './frontmatter';
 
 export class TagCompletionProvider implements vscode.CompletionItemProvider {
-    constructor(private tagCache: TagCache) {}
+    constructor(private vaults: VaultManager) {}
 
     provideCompletionItems(
         document: vscode.TextDocument,
@@ -12,7 +13,12 @@ export class TagCompletionProvider implements vscode.CompletionItemProvider {
             return undefined;
         }
 
-        const tagsWithFrequency = this.tagCache.getTagsWithFrequency();
+        const index = this.vaults.indexFor(document.uri.fsPath);
+        if (!index) {
+            return undefined;
+        }
+
+        const tagsWithFrequency = index.getTagsWithFrequency();
         return tagsWithFrequency.map(({ tag, count }) => {
             const item = new vscode.CompletionItem(tag, vscode.CompletionItemKind.Value);
             item.detail = `used ${count} time${count !== 1 ? 's' : ''}`;
@@ -22,18 +28,21 @@ export class TagCompletionProvider implements vscode.CompletionItemProvider {
     }
 
     private isInsideTagsField(document: vscode.TextDocument, position: vscode.Position): boolean {
-        const text = document.getText();
-        const frontmatterMatch = text.match(/^---\n([\s\S]*?)\n---/);
-        if (!frontmatterMatch) { return false; }
+        const { yaml, bodyLine } = splitFrontmatter(document.getText());
+        if (yaml === null) { return false; }
 
-        const frontmatterEnd = text.indexOf('\n---', 4);
-        const frontmatterEndLine = document.positionAt(frontmatterEnd + 4).line;
-
-        if (position.line < 1 || position.line > frontmatterEndLine) {
+        // Lines 1 .. bodyLine - 2 lie between the fences.
+        if (position.line < 1 || position.line > bodyLine - 2) {
             return false;
         }
 
-        const line = document.lineAt(position.line).text;
-        return /^\s*tags\s*:/.test(line) || /^\s*tags\s*:\s*\[/.test(line);
+        // Either the `tags:` line itself or an item of its block list (`  - tag`).
+        for (let line = position.line; line >= 1; line--) {
+            const text = document.lineAt(line).text;
+            if (/^\s*tags\s*:/.test(text)) { return true; }
+            const isListItem = /^\s*-(\s|$)/.test(text) || (line === position.line && text.trim() === '');
+            if (!isListItem) { return false; }
+        }
+        return false;
     }
 }
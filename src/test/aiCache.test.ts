@@ -0,0 +1,71 @@
+import * as assert from 'assert';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import { AICache, cacheKey } from '../aiCache';
+
+suite('AICache', () => {
+    test('cacheKey depends on prompt, provider and model', () => {
+        const base = cacheKey('prompt', 'openai-compatible', 'llama3.1');
+        assert.strictEqual(base, cacheKey('prompt', 'openai-compatible', 'llama3.1'));
+        assert.notStrictEqual(base, cacheKey('prompt 2', 'openai-compatible', 'llama3.1'));
+        assert.notStrictEqual(base, cacheKey('prompt', 'sap-ai-core', 'llama3.1'));
+        assert.notStrictEqual(base, cacheKey('prompt', 'openai-compatible', 'qwen2.5'));
+    });
+
+    test('returns a stored response', async () => {
+        const tmp = await fs.mkdtemp(path.join(os.tmpdir(), 'aint-cache-'));
+        try {
+            const cache = new AICache(tmp, 60_000, 1024 * 1024);
+            await cache.set('k1', { provider: 'p', model: 'm', response: 'hello' });
+            assert.strictEqual(await cache.get('k1'), 'hello');
+            assert.strictEqual(await cache.get('missing'), undefined);
+        } finally {
+            await fs.rm(tmp, { recursive: true, force: true });
+        }
+    });
+
+    test('treats entries older than the TTL as missing', async () => {
+        const tmp = await fs.mkdtemp(path.join(os.tmpdir(), 'aint-cache-'));
+        try {
+            let now = 1_000;
+            const cache = new AICache(tmp, 500, 1024 * 1024, () => now);
+            await cache.set('k1', { provider: 'p', model: 'm', response: 'hello' });
+            now = 1_400;
+            assert.strictEqual(await cache.get('k1'), 'hello');
+            now = 1_600;
+            assert.strictEqual(await cache.get('k1'), undefined);
+        } finally {
+            await fs.rm(tmp, { recursive: true, force: true });
+        }
+    });
+
+    test('evicts the oldest entries beyond the size cap', async () => {
+        const tmp = await fs.mkdtemp(path.join(os.tmpdir(), 'aint-cache-'));
+        try {
+            const cache = new AICache(tmp, 60_000, 250);
+            await cache.set('old', { provider: 'p', model: 'm', response: 'a'.repeat(100) });
+            // Make the first entry unambiguously older than the second.
+            const past = new Date(Date.now() - 10_000);
+            await fs.utimes(path.join(tmp, 'old.json'), past, past);
+            await cache.set('new', { provider: 'p', model: 'm', response: 'b'.repeat(100) });
+            assert.strictEqual(await cache.get('old'), undefined);
+            assert.strictEqual(await cache.get('new'), 'b'.repeat(100));
+        } finally {
+            await fs.rm(tmp, { recursive: true, force: true });
+        }
+    });
+
+    test('clear removes every entry', async () => {
+        const tmp = await fs.mkdtemp(path.join(os.tmpdir(), 'aint-cache-'));
+        try {
+            const cache = new AICache(tmp, 60_000, 1024 * 1024);
+            await cache.set('a', { provider: 'p', model: 'm', response: '1' });
+            await cache.set('b', { provider: 'p', model: 'm', response: '2' });
+            assert.strictEqual(await cache.clear(), 2);
+            assert.strictEqual(await cache.get('a'), undefined);
+        } finally {
+            await fs.rm(tmp, { recursive: true, force: true });
+        }
+    });
+});
@@ -0,0 +1,188 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import { generateNoteMetadata, setCompletionProviderOverride } from '../ai';
+import { FixtureStore, ReplayProvider, ReplayMissError, MockProvider, splitIntoFragments } from '../replayProvider';
+import { mergeNotes } from '../noteMerger';
+import { isoDate } from '../noteNaming';
+import { generateMOC } from '../mocGenerator';
+import { ChatWebviewProvider } from '../chatWebview';
+import { gatherNotes, requestPlan, validatePlan, applyPlan } from '../restructureVault';
+import { getAllFolders } from '../files';
+
+// Compiled tests live in out/test; the fixtures stay next to the sources.
+const FIXTURES_DIR = path.resolve(__dirname, '..', '..', 'src', 'test', 'fixtures', 'llm');
+/** A vault root without prompt overrides. */
+const PLAIN_VAULT = path.join(os.tmpdir(), 'aint-no-overrides');
+
+async function makeVault(files: Record<string, string>): Promise<string> {
+    const root = await fs.mkdtemp(path.join(os.tmpdir(), 'aint-replay-'));
+    for (const [rel, content] of Object.entries(files)) {
+        await fs.mkdir(path.dirname(path.join(root, rel)), { recursive: true });
+        await fs.writeFile(path.join(root, rel), content);
+    }
+    return root;
+}
+
+suite('Replay provider', () => {
+    test('record then replay returns the same response for the same prompt', async () => {
+        const tmp = await fs.mkdtemp(path.join(os.tmpdir(), 'aint-fixtures-'));
+        try {
+            const store = new FixtureStore(tmp);
+            await store.record('exact prompt', 'recorded answer', 'openai-compatible', 'llama3.1');
+            const replay = new ReplayProvider(store);
+            assert.strictEqual(await replay.complete('exact prompt'), 'recorded answer');
+            await assert.rejects(replay.complete('exact prompt, edited'), ReplayMissError);
+        } finally {
+            await fs.rm(tmp, { recursive: true, force: true });
+        }
+    });
+
+    test('exact prompt fixtures win over substring fixtures', async () => {
+        const tmp = await fs.mkdtemp(path.join(os.tmpdir(), 'aint-fixtures-'));
+        try {
+            await fs.writeFile(path.join(tmp, 'a.json'), JSON.stringify({ match: ['hello'], response: 'loose' }));
+            await fs.writeFile(path.join(tmp, 'b.json'), JSON.stringify([{ prompt: 'hello world', response: 'exact' }]));
+            const replay = new ReplayProvider(new FixtureStore(tmp));
+            assert.strictEqual(await replay.complete('hello world'), 'exact');
+            assert.strictEqual(await replay.complete('hello there'), 'loose');
+        } finally {
+            await fs.rm(tmp, { recursive: true, force: true });
+        }
+    });
+
+    test('MockProvider answers in order and fails when exhausted', async () => {
+        const mock = new MockProvider(['one', 'two']);
+        assert.strictEqual(await mock.complete('a'), 'one');
+        assert.strictEqual(await mock.complete('b'), 'two');
+        await assert.rejects(mock.complete('c'), /ran out of responses/);
+        assert.deepStrictEqual(mock.prompts, ['a', 'b', 'c']);
+    });
+
+    test('splitIntoFragments keeps the text intact', () => {
+        const text = 'You baked  sourdough\nbread.';
+        assert.strictEqual(splitIntoFragments(text).join(''), text);
+        assert.ok(splitIntoFragments(text).length > 1);
+    });
+});
+
+suite('AI features against recorded fixtures', () => {
+    let replay: ReplayProvider;
+
+    setup(() => {
+        replay = new ReplayProvider(new FixtureStore(FIXTURES_DIR));
+        setCompletionProviderOverride(replay);
+    });
+
+    teardown(() => {
+        setCompletionProviderOverride(undefined);
+    });
+
+    test('classification parses and trims the metadata', async () => {
+        const metadata = await generateNoteMetadata('Feeding my sourdough starter twice a day.', ['cooking', 'work'], PLAIN_VAULT);
+        assert.deepStrictEqual(metadata, { tags: ['baking', 'bread'], name: 'sourdough-starter', path: 'cooking/baking' });
+        assert.ok(replay.prompts[0].includes('[cooking, work]'));
+    });
+
+    test('classification re-asks after an invalid response', async () => {
+        const metadata = await generateNoteMetadata('Second batch of kombucha is fizzy.', [], PLAIN_VAULT);
+        assert.deepStrictEqual(metadata, { tags: ['fermentation'], name: 'kombucha-log', path: 'cooking/fermentation' });
+        assert.strictEqual(replay.prompts.length, 2);
+        assert.ok(replay.prompts[1].includes('Your previous response could not be used'));
+    });
+
+    test('merge writes the merged draft', async () => {
+        const root = await makeVault({
+            'a.md': '---\ntags: [x]\n---\nAlpha body',
+            'b.md': 'Beta body',
+        });
+        try {
+            const output = await mergeNotes([path.join(root, 'a.md'), path.join(root, 'b.md')], root);
+            assert.strictEqual(path.dirname(output), path.join(root, '_drafts'));
+            assert.match(path.basename(output), /^\d{4}-\d{2}-\d{2}_merged\.md$/);
+            const today = isoDate(new Date());
+            assert.strictEqual(await fs.readFile(output, 'utf8'),
+                `---\ncreated: ${today}\nupdated: ${today}\n---\n# Alpha and Beta\n\nAlpha body and beta body, merged.\n`);
+            assert.ok(!replay.prompts[0].includes('tags: [x]'), 'frontmatter is stripped before merging');
+        } finally {
+            await fs.rm(root, { recursive: true, force: true });
+        }
+    });
+
+    test('MOC writes an index and one page per cluster', async () => {
+        const root = await makeVault({
+            'bread.md': 'Sourdough loaf.',
+            'trip.md': 'Weekend in Lisbon.',
+        });
+        try {
+            const indexPath = await generateMOC(root);
+            const index = await fs.readFile(indexPath, 'utf8');
+            assert.ok(index.includes('- [Everything](everything.md) — Baking and travel notes.'));
+            const topic = await fs.readFile(path.join(root, '_moc', 'everything.md'), 'utf8');
+            assert.ok(topic.includes('[bread.md](../bread.md)'));
+            assert.ok(topic.includes('[trip.md](../trip.md)'));
+        } finally {
+            await fs.rm(root, { recursive: true, force: true });
+        }
+    });
+
+    test('chat streams the answer into the view', async () => {
+        const root = await makeVault({ 'bread.md': 'Sourdough loaf.' });
+        try {
+            const posted: any[] = [];
+            let onMessage: ((message: any) => Promise<void>) | undefined;
+            const view = {
+                webview: {
+                    options: {},
+                    html: '',
+                    onDidReceiveMessage: (listener: (message: any) => Promise<void>) => {
+                        onMessage = listener;
+                        return { dispose() {} };
+                    },
+                    postMessage: async (message: any) => { posted.push(message); return true; },
+                },
+            };
+            const provider = new ChatWebviewProvider(root);
+            provider.resolveWebviewView(view as unknown as vscode.WebviewView, {} as vscode.WebviewViewResolveContext, new vscode.CancellationTokenSource().token);
+
+            await onMessage!({ command: 'sendMessage', text: 'What did I bake?' });
+
+            const streamed = posted.filter(m => m.command === 'appendToken').map(m => m.text);
+            assert.ok(streamed.length > 1);
+            assert.strictEqual(streamed.join(''), 'You baked sourdough bread [bread.md].');
+            assert.ok(view.webview.html.includes('data-filename="bread.md"'));
+        } finally {
+            await fs.rm(root, { recursive: true, force: true });
+        }
+    });
+
+    test('restructure plan is validated and applied', async () => {
+        const root = await makeVault({
+            'inbox/bread.md': '---\ntags: [baking]\n---\nLoaf.',
+            'inbox/cake.md': '---\ntags: [baking]\n---\nSponge.',
+            'travel/lisbon.md': 'Trip.',
+        });
+        try {
+            const notes = await gatherNotes(root, false);
+            const folders = await getAllFolders(root, 5);
+            const plan = await requestPlan(root, notes, folders);
+            assert.strictEqual(plan.rationale, 'Both inbox notes are about baking.');
+
+            const state = {
+                notes: new Set(notes.map(n => n.relPath)),
+                folders: new Set(folders.map(f => f.split(path.sep).join('/'))),
+            };
+            assert.deepStrictEqual(validatePlan(plan, state), { ok: true });
+
+            const result = await applyPlan(plan, root);
+            assert.strictEqual(result.error, undefined);
+            assert.strictEqual(result.noteMoves, 2);
+            await fs.access(path.join(root, 'baking', 'bread.md'));
+            await fs.access(path.join(root, 'baking', 'cake.md'));
+        } finally {
+            await fs.rm(root, { recursive: true, force: true });
+        }
+    });
+});
@@ -11,6 +11,11 @@ suite('Backlinks', () => {
         ]);
     });
 
+    test('reads targets in angle brackets', () => {
+        const links = extractMarkdownLinks('See [plan](<work/Q2 plan (draft).md>).');
+        assert.deepStrictEqual(links, [{ text: 'plan', href: 'work/Q2 plan (draft).md' }]);
+    });
+
     test('ignores absolute URLs', () => {
         const content = 'See [docs](https://example.com/page.md).';
         const links = extractMarkdownLinks(content);
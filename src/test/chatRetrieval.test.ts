@@ -0,0 +1,109 @@
+import * as assert from 'assert';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import { NoteIndex } from '../noteIndex';
+import { EmbeddingProvider, setEmbeddingProviderOverride, MAX_CHUNK_CHARS } from '../embeddings';
+import { getVectorIndex } from '../vectorIndex';
+import { retrieveChunks, fitBudget, formatChunks } from '../chatRetrieval';
+
+const VOCABULARY = ['garden', 'tomato', 'release', 'deploy', 'invoice'];
+
+/** Counts vocabulary words, so texts about the same things point the same way. */
+class BagOfWordsProvider implements EmbeddingProvider {
+    readonly id = 'bag-of-words';
+    fail = false;
+
+    async embed(texts: string[]): Promise<number[][]> {
+        if (this.fail) { throw new Error('connection refused'); }
+        return texts.map(text => [0.01, ...VOCABULARY.map(word => text.toLowerCase().split(word).length - 1)]);
+    }
+}
+
+async function makeVault(files: Record<string, string>): Promise<string> {
+    const root = await fs.mkdtemp(path.join(os.tmpdir(), 'aint-retrieval-'));
+    for (const [rel, content] of Object.entries(files)) {
+        await fs.mkdir(path.dirname(path.join(root, rel)), { recursive: true });
+        await fs.writeFile(path.join(root, rel), content);
+    }
+    return root;
+}
+
+const FILES = {
+    'release.md': '# Checklist\nTag the build and deploy on Friday.\n\n# Retro\nThe deploy went fine.',
+    'garden.md': '# Plan\nTomato seedlings go in the garden in May.',
+    'money.md': '# Invoices\nSend the invoice for the deploy work.',
+    '_drafts/deploy.md': 'Deploy deploy deploy.',
+};
+
+suite('ChatRetrieval', () => {
+    teardown(() => setEmbeddingProviderOverride(undefined));
+
+    test('fitBudget skips chunks that no longer fit but keeps smaller ones', () => {
+        const chunks = [{ tokens: 50 }, { tokens: 80 }, { tokens: 30 }, { tokens: 30 }];
+        assert.deepStrictEqual(fitBudget(chunks, 100).map(c => c.tokens), [50, 30]);
+        assert.deepStrictEqual(fitBudget(chunks, 10), []);
+    });
+
+    test('keyword retrieval returns whole sections of matching notes', async () => {
+        const root = await makeVault(FILES);
+        try {
+            const { chunks } = await retrieveChunks(new NoteIndex(root), 'when do we deploy the build?', { mode: 'keyword', budgetTokens: 1000 });
+            assert.deepStrictEqual(chunks.map(c => [path.basename(c.filePath), c.heading]),
+                [['release.md', 'Checklist'], ['release.md', 'Retro'], ['money.md', 'Invoices']]);
+            assert.ok(chunks[0].text.includes('Tag the build and deploy on Friday.'));
+            assert.deepStrictEqual(chunks[0].sources, ['keyword']);
+            assert.ok(chunks.every(c => !c.filePath.includes('_drafts')), 'drafts are left out');
+
+            const tight = await retrieveChunks(new NoteIndex(root), 'deploy build', { mode: 'keyword', budgetTokens: chunks[0].tokens });
+            assert.strictEqual(tight.chunks.length, 1);
+            assert.ok(formatChunks(tight.chunks).startsWith('[release.md]\nrelease — Checklist'));
+        } finally {
+            await fs.rm(root, { recursive: true, force: true });
+        }
+    });
+
+    test('a section longer than one chunk is retrieved in full, across chunks', async () => {
+        const filler = (word: string) => Array.from({ length: 300 }, () => word).join(' ');
+        const root = await makeVault({
+            'trip.md': `# Itinerary\n${filler('walk')}\n\n${filler('drive')} then the zeppelin ride.`,
+        });
+        try {
+            const { chunks } = await retrieveChunks(new NoteIndex(root), 'zeppelin', { mode: 'keyword', budgetTokens: 10000 });
+            assert.strictEqual(chunks.length, 1);
+            assert.ok(chunks[0].text.endsWith('then the zeppelin ride.'), 'the end of the section is not cut off');
+            assert.strictEqual(chunks[0].line, 3);
+
+            const all = await retrieveChunks(new NoteIndex(root), 'walk drive', { mode: 'keyword', budgetTokens: 10000 });
+            assert.strictEqual(all.chunks.length, 2);
+            assert.ok(all.chunks.every(c => c.text.length <= MAX_CHUNK_CHARS + 'trip — Itinerary\n\n'.length));
+        } finally {
+            await fs.rm(root, { recursive: true, force: true });
+        }
+    });
+
+    test('hybrid retrieval merges keyword and embedding rankings', async () => {
+        const root = await makeVault(FILES);
+        try {
+            const provider = new BagOfWordsProvider();
+            setEmbeddingProviderOverride(provider);
+            const index = new NoteIndex(root);
+            await getVectorIndex(index).update(provider);
+
+            const semantic = await retrieveChunks(index, 'tomato', { mode: 'semantic', budgetTokens: 1000 });
+            assert.strictEqual(path.basename(semantic.chunks[0].filePath), 'garden.md');
+            assert.deepStrictEqual(semantic.chunks[0].sources, ['semantic']);
+
+            const hybrid = await retrieveChunks(index, 'deploy', { mode: 'hybrid', budgetTokens: 1000 });
+            assert.deepStrictEqual(hybrid.chunks[0].sources, ['semantic', 'keyword']);
+            assert.strictEqual(path.basename(hybrid.chunks[0].filePath), 'release.md');
+
+            provider.fail = true;
+            const fallback = await retrieveChunks(new NoteIndex(root), 'invoice', { mode: 'semantic', budgetTokens: 1000 });
+            assert.match(fallback.warning!, /Semantic retrieval failed, using keywords: connection refused/);
+            assert.deepStrictEqual(fallback.chunks.map(c => path.basename(c.filePath)), ['money.md']);
+        } finally {
+            await fs.rm(root, { recursive: true, force: true });
+        }
+    });
+});
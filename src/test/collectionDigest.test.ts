@@ -0,0 +1,82 @@
+import * as assert from 'assert';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import { parseNote } from '../noteIndex';
+import { openActionItems, toDigestNote, groupDigestNotes, renderDigest, buildDigest, DigestNote } from '../collectionDigest';
+import { Collection } from '../smartCollections';
+import { setCompletionProviderOverride } from '../ai';
+import { MockProvider } from '../replayProvider';
+
+function digestNote(name: string, tags: string[], date: Date | null): DigestNote {
+    return { filePath: path.join('/vault', `${name}.md`), title: name, tags, date, summary: null, actionItems: [] };
+}
+
+const collection: Collection = { name: 'Weekly', tags: ['work'], dateRange: null, query: null };
+
+suite('CollectionDigest', () => {
+    teardown(() => setCompletionProviderOverride(undefined));
+
+    test('openActionItems keeps unchecked tasks only', () => {
+        const body = '- [ ] Send the invoice\n- [x] Book the room\n  * [ ] Nested item\n1. [ ] Numbered\n- [] not a task\nText [ ] here';
+        assert.deepStrictEqual(openActionItems(body), ['Send the invoice', 'Nested item', 'Numbered']);
+    });
+
+    test('toDigestNote falls back to the first paragraph for the summary', () => {
+        const withSummary = toDigestNote(parseNote('/vault', '/vault/a.md', '---\nsummary: The whole plan, in one sentence that is longer than eighty characters to check it is not clipped.\n---\nBody.'));
+        assert.ok(withSummary.summary!.endsWith('not clipped.'));
+        const without = toDigestNote(parseNote('/vault', '/vault/b.md', '# Title\n\n- [ ] Task\n\nFirst real\nparagraph.\n\nSecond.'));
+        assert.strictEqual(without.summary, 'First real paragraph.');
+        assert.deepStrictEqual(without.actionItems, ['Task']);
+    });
+
+    test('groupDigestNotes groups by tag, largest first, and by day, newest first', () => {
+        const notes = [
+            digestNote('a', ['work', 'alpha'], new Date(2026, 4, 1)),
+            digestNote('b', ['work'], new Date(2026, 4, 3)),
+            digestNote('c', [], null),
+        ];
+        assert.deepStrictEqual(groupDigestNotes(notes, 'tag').map(g => [g.heading, g.notes.map(n => n.title)]),
+            [['work', ['a', 'b']], ['alpha', ['a']], ['Untagged', ['c']]]);
+        assert.deepStrictEqual(groupDigestNotes(notes, 'date').map(g => g.heading), ['2026-05-03', '2026-05-01', 'Undated']);
+    });
+
+    test('renderDigest writes sections with links, summaries and open items', () => {
+        const note = { ...digestNote('plan', ['work'], null), filePath: path.join('/vault', 'work', 'plan.md'), summary: 'The plan.', actionItems: ['Ship it'] };
+        const spaced = { ...digestNote('Q2 plan (draft)', ['work'], null), filePath: path.join('/vault', 'work', 'Q2 plan (draft).md') };
+        const markdown = renderDigest(collection, [{ heading: 'work', notes: [note, spaced] }], { date: new Date(2026, 4, 8), fromDir: '/vault', overview: 'All on track.' });
+        assert.strictEqual(markdown, [
+            '---', 'created: 2026-05-08', '---', '# Weekly — 2026-05-08', '',
+            '> 2 notes · tags: work', '',
+            '## Overview', '', 'All on track.', '',
+            '## work', '',
+            '### [plan](work/plan.md)', '', 'The plan.', '',
+            'Open items:', '', '- Ship it', '',
+            '### [Q2 plan (draft)](<work/Q2 plan (draft).md>)', '',
+        ].join('\n'));
+    });
+
+    test('buildDigest asks for an overview and leaves it out when the model fails', async () => {
+        const root = await fs.mkdtemp(path.join(os.tmpdir(), 'aint-digest-'));
+        try {
+            await fs.writeFile(path.join(root, 'a.md'), '---\ntags: [work]\nsummary: Budget review.\n---\n- [ ] Approve budget');
+            await fs.writeFile(path.join(root, 'b.md'), '---\ntags: [home]\n---\nGarden.');
+            const mock = new MockProvider(['Budget is the focus.']);
+            setCompletionProviderOverride(mock);
+
+            const options = { groupBy: 'tag' as const, overview: true, date: new Date(2026, 4, 8), fromDir: root };
+            const { markdown, warnings } = await buildDigest(collection, root, options);
+            assert.deepStrictEqual(warnings, []);
+            assert.ok(markdown.includes('## Overview\n\nBudget is the focus.'));
+            assert.ok(markdown.includes('### [a](a.md)') && !markdown.includes('[b]'));
+            assert.ok(mock.prompts[0].includes('1. a — Budget review.\n   Open items: Approve budget'));
+
+            setCompletionProviderOverride(new MockProvider(() => { throw new Error('Unauthorized'); }));
+            const failed = await buildDigest(collection, root, { ...options, date: new Date(2026, 4, 9) });
+            assert.ok(!failed.markdown.includes('## Overview'));
+            assert.match(failed.warnings[0], /AI overview was left out/);
+        } finally {
+            await fs.rm(root, { recursive: true, force: true });
+        }
+    });
+});
@@ -0,0 +1,66 @@
+import * as assert from 'assert';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { collectionLine, evaluateCollection, duplicateCollection, removeCollection } from '../collectionsTree';
+import { Collection } from '../smartCollections';
+
+suite('CollectionsTree', () => {
+    test('collectionLine finds the entry of a collection', () => {
+        const json = JSON.stringify({
+            collections: [
+                { name: 'Work', tags: null, dateRange: null, query: null },
+                { name: 'Q2 "launch" (draft)', tags: null, dateRange: null, query: null },
+            ],
+        }, null, 2);
+        assert.strictEqual(collectionLine(json, 'Work'), 3);
+        assert.strictEqual(collectionLine(json, 'Q2 "launch" (draft)'), 9);
+        assert.strictEqual(collectionLine(json, 'Missing'), 0);
+    });
+
+    test('evaluateCollection keeps a query ranking and drops notes that stop matching', async () => {
+        const root = await fs.mkdtemp(path.join(os.tmpdir(), 'aint-collections-tree-'));
+        try {
+            await fs.writeFile(path.join(root, 'a.md'), '---\ntags: [work]\n---\nAlpha');
+            await fs.writeFile(path.join(root, 'b.md'), '---\ntags: [work]\n---\nBeta');
+            await fs.writeFile(path.join(root, 'c.md'), '---\ntags: [work]\n---\nGamma');
+            const [a, b, c] = ['a.md', 'b.md', 'c.md'].map(name => path.join(root, name));
+            const query: Collection = { name: 'Ranked', tags: ['work'], dateRange: null, query: 'launch plans' };
+
+            const ranked = { filePaths: [c, a, b] };
+            await fs.writeFile(b, '---\ntags: [home]\n---\nBeta, now at home');
+            assert.deepStrictEqual(await evaluateCollection(query, root, ranked), { filePaths: [c, a] });
+
+            const offline: Collection = { ...query, name: 'Work', query: null };
+            assert.deepStrictEqual(await evaluateCollection(offline, root, ranked), { filePaths: [a, c] }, 'offline collections are re-run');
+
+            const failedSearch = { filePaths: [], error: 'Search failed' };
+            assert.strictEqual(await evaluateCollection(query, root, failedSearch), failedSearch, 'a failed query is not searched again on note changes');
+
+            const snapshot = [{ filePath: a, tags: ['work'], date: null }];
+            assert.deepStrictEqual(await evaluateCollection(offline, root, ranked, snapshot), { filePaths: [a] }, 'a shared snapshot is used as given');
+
+            const broken = await evaluateCollection({ ...offline, filter: { tag: 'a', folder: 'b' } as any }, root);
+            assert.deepStrictEqual(broken.filePaths, []);
+            assert.match(broken.error!, /Invalid filter in "Work"/);
+        } finally {
+            await fs.rm(root, { recursive: true, force: true });
+        }
+    });
+
+    test('duplicateCollection inserts a renamed deep copy and removeCollection drops one entry', () => {
+        const collections: Collection[] = [
+            { name: 'Work', tags: ['work'], dateRange: null, query: null, filter: { not: { tag: 'done' } } },
+            { name: 'Work copy', tags: null, dateRange: 7, query: null },
+            { name: 'Home', tags: ['home'], dateRange: null, query: null },
+        ];
+        const duplicated = duplicateCollection(collections, 'Work')!;
+        assert.deepStrictEqual(duplicated.map(c => c.name), ['Work', 'Work copy 2', 'Work copy', 'Home']);
+        assert.deepStrictEqual(duplicated[1].filter, collections[0].filter);
+        assert.notStrictEqual(duplicated[1].tags, collections[0].tags, 'the copy does not share lists with the original');
+        assert.strictEqual(collections.length, 3, 'the input is left alone');
+        assert.strictEqual(duplicateCollection(collections, 'Missing'), undefined);
+
+        assert.deepStrictEqual(removeCollection(collections, 'Work copy').map(c => c.name), ['Work', 'Home']);
+    });
+});
@@ -0,0 +1,48 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { initCredentials, getCredential, setCredential, clearCredential } from '../credentials';
+import { serviceKeyToDestination } from '../ai-core';
+
+function memorySecretStorage(): vscode.SecretStorage {
+    const values = new Map<string, string>();
+    return {
+        get: async (key: string) => values.get(key),
+        store: async (key: string, value: string) => { values.set(key, value); },
+        delete: async (key: string) => { values.delete(key); },
+        keys: async () => Array.from(values.keys()),
+        onDidChange: new vscode.EventEmitter<vscode.SecretStorageChangeEvent>().event,
+    };
+}
+
+suite('Credentials', () => {
+    test('stores, reads and clears a credential', async () => {
+        initCredentials(memorySecretStorage());
+        assert.strictEqual(await getCredential('openAICompatibleApiKey'), undefined);
+        await setCredential('openAICompatibleApiKey', 'sk-local');
+        assert.strictEqual(await getCredential('openAICompatibleApiKey'), 'sk-local');
+        assert.strictEqual(await getCredential('aiCoreServiceKey'), undefined);
+        await clearCredential('openAICompatibleApiKey');
+        assert.strictEqual(await getCredential('openAICompatibleApiKey'), undefined);
+    });
+
+    test('serviceKeyToDestination maps the service key to an OAuth destination', () => {
+        const destination = serviceKeyToDestination(JSON.stringify({
+            clientid: 'id',
+            clientsecret: 'secret',
+            url: 'https://auth.example.com/',
+            serviceurls: { AI_API_URL: 'https://api.example.com' },
+        }));
+        assert.deepStrictEqual(destination, {
+            url: 'https://api.example.com',
+            authentication: 'OAuth2ClientCredentials',
+            clientId: 'id',
+            clientSecret: 'secret',
+            tokenServiceUrl: 'https://auth.example.com/oauth/token',
+        });
+    });
+
+    test('serviceKeyToDestination rejects incomplete keys', () => {
+        assert.throws(() => serviceKeyToDestination('not json'), /not valid JSON/);
+        assert.throws(() => serviceKeyToDestination('{"clientid":"id"}'), /missing/);
+    });
+});
@@ -0,0 +1,206 @@
+import * as assert from 'assert';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import * as vscode from 'vscode';
+import { NoteIndex, parseNote } from '../noteIndex';
+import { EmbeddingProvider, chunkNote, normalize, dot, setEmbeddingProviderOverride, MAX_CHUNK_CHARS } from '../embeddings';
+import { VectorIndex } from '../vectorIndex';
+
+const VOCABULARY = ['garden', 'tomato', 'release', 'deploy', 'budget', 'invoice'];
+
+/** Counts vocabulary words, so texts about the same things point the same way. */
+class BagOfWordsProvider implements EmbeddingProvider {
+    embedded: string[] = [];
+    constructor(readonly id = 'bag-of-words') {}
+
+    async embed(texts: string[]): Promise<number[][]> {
+        this.embedded.push(...texts);
+        return texts.map(text => {
+            const lower = text.toLowerCase();
+            // The constant keeps texts without vocabulary words from being zero vectors.
+            return [0.01, ...VOCABULARY.map(word => lower.split(word).length - 1)];
+        });
+    }
+}
+
+async function makeVault(files: Record<string, string>): Promise<string> {
+    const root = await fs.mkdtemp(path.join(os.tmpdir(), 'aint-vectors-'));
+    for (const [rel, content] of Object.entries(files)) {
+        await fs.mkdir(path.dirname(path.join(root, rel)), { recursive: true });
+        await fs.writeFile(path.join(root, rel), content);
+    }
+    return root;
+}
+
+suite('Embeddings', () => {
+    teardown(() => setEmbeddingProviderOverride(undefined));
+
+    test('chunkNote makes one chunk per heading section', () => {
+        const content = '---\ntags: [a]\n---\nIntro text.\n\n# Plan\nStep one.\n\n## Empty\n## Risks\nNone yet.';
+        const note = parseNote('/vault', '/vault/plan.md', content);
+        const chunks = chunkNote(note);
+        assert.deepStrictEqual(chunks.map(c => [c.heading, c.line]), [[null, 3], ['Plan', 5], ['Risks', 9]]);
+        assert.strictEqual(chunks[1].text, `${note.title} — Plan\n\n# Plan\nStep one.`);
+        assert.ok(chunks[0].text.endsWith('Intro text.'));
+    });
+
+    test('chunkNote splits long sections at paragraphs', () => {
+        const paragraph = 'word '.repeat(300).trim();
+        const note = parseNote('/vault', '/vault/long.md', `# Long\n${paragraph}\n\n${paragraph}\n\n${paragraph}`);
+        const chunks = chunkNote(note);
+        assert.ok(chunks.length > 1);
+        assert.ok(chunks.every(c => c.heading === 'Long'));
+        assert.ok(chunks.every(c => c.text.length <= MAX_CHUNK_CHARS + 20));
+    });
+
+    test('chunkNote covers all of a section, splitting paragraphs too long for one chunk', () => {
+        const words = (from: number, chars: number) => {
+            const out: string[] = [];
+            for (let i = from; out.join(' ').length < chars; i++) { out.push(`w${i}`); }
+            return out.join(' ');
+        };
+        const body = [
+            `# Long\n${words(0, 1500)}`,
+            words(1000, 1500),
+            `${words(2000, 1200)}\n${'x'.repeat(MAX_CHUNK_CHARS * 2 + 10)}`,
+            'Short end.',
+        ].join('\n\n');
+        const note = parseNote('/vault', '/vault/long.md', body);
+        const chunks = chunkNote(note);
+        const prefix = `${note.title} — Long\n\n`;
+        assert.ok(chunks.every(c => c.text.startsWith(prefix) && c.text.length - prefix.length <= MAX_CHUNK_CHARS));
+        const covered = chunks.map(c => c.text.slice(prefix.length)).join('').replace(/\s+/g, '');
+        assert.strictEqual(covered, body.replace(/\s+/g, ''), 'every character of the body is in some chunk');
+        assert.deepStrictEqual(chunks.map(c => c.line), [0, 3, 5, 6, 6, 6]);
+    });
+
+    test('normalize and dot give cosine similarity', () => {
+        assert.ok(Math.abs(dot(normalize([3, 4]), normalize([6, 8])) - 1) < 1e-6);
+        assert.ok(Math.abs(dot(normalize([1, 0]), normalize([0, 2]))) < 1e-6);
+        assert.deepStrictEqual([...normalize([0, 0])], [0, 0], 'a zero vector stays zero');
+    });
+
+    test('search ranks chunks by similarity and embeds only changed notes', async () => {
+        const root = await makeVault({
+            'garden.md': '# Garden\nTomato seedlings in the garden.',
+            'release.md': '# Release\nDeploy the release on Friday.',
+            'money.md': '# Budget\nInvoice totals for the budget.',
+        });
+        try {
+            const provider = new BagOfWordsProvider();
+            setEmbeddingProviderOverride(provider);
+            const vectors = new VectorIndex(new NoteIndex(root), path.join(root, '.ai-notes', 'vectors'));
+            await assert.rejects(vectors.search('deploy', 1), /Run 'AI Notes: Update Embeddings Index' first/);
+            assert.strictEqual(provider.embedded.length, 0, 'searching never embeds the vault');
+
+            await vectors.update(provider);
+            const hits = await vectors.searchNotes('when do we deploy', 2);
+            assert.strictEqual(path.basename(hits[0].filePath), 'release.md');
+            assert.strictEqual(hits[0].heading, 'Release');
+            const embeddedAtFirst = provider.embedded.length;
+
+            await fs.writeFile(path.join(root, 'garden.md'), '# Garden\nMore tomato plants.');
+            await vectors.search('tomato', 1);
+            assert.deepStrictEqual(provider.embedded.slice(embeddedAtFirst), ['tomato'], 'only the query');
+            await vectors.update(provider);
+            const embeddedAgain = provider.embedded.slice(embeddedAtFirst + 1);
+            assert.strictEqual(embeddedAgain.length, 1, 'the edited note');
+            assert.ok(embeddedAgain[0].includes('More tomato plants'));
+        } finally {
+            await fs.rm(root, { recursive: true, force: true });
+        }
+    });
+
+    test('vectors persist across sessions and are dropped when the provider changes', async () => {
+        const root = await makeVault({
+            'a.md': 'Garden notes.',
+            'b.md': 'Release notes.',
+        });
+        try {
+            const storeDir = path.join(root, '.ai-notes', 'vectors');
+            const first = new BagOfWordsProvider();
+            setEmbeddingProviderOverride(first);
+            await new VectorIndex(new NoteIndex(root), storeDir).update(first);
+            assert.strictEqual(first.embedded.length, 2);
+
+            const reopened = new BagOfWordsProvider();
+            setEmbeddingProviderOverride(reopened);
+            const hits = await new VectorIndex(new NoteIndex(root), storeDir).searchNotes('garden', 1);
+            assert.strictEqual(path.basename(hits[0].filePath), 'a.md');
+            assert.deepStrictEqual(reopened.embedded, ['garden'], 'only the query is embedded');
+
+            const otherModel = new BagOfWordsProvider('bag-of-words:v2');
+            await new VectorIndex(new NoteIndex(root), storeDir).update(otherModel);
+            assert.strictEqual(otherModel.embedded.length, 2, 'a new provider re-embeds every note');
+        } finally {
+            await fs.rm(root, { recursive: true, force: true });
+        }
+    });
+
+    test('a shared update keeps running until every caller has cancelled', async () => {
+        const root = await makeVault({ 'a.md': 'Garden notes.', 'b.md': 'Release notes.' });
+        try {
+            let release!: () => void;
+            const gate = new Promise<void>(resolve => { release = resolve; });
+            let runToken: vscode.CancellationToken | undefined;
+            let entered!: () => void;
+            const embedding = new Promise<void>(resolve => { entered = resolve; });
+            const inner = new BagOfWordsProvider();
+            const provider: EmbeddingProvider = {
+                id: inner.id,
+                async embed(texts, token) {
+                    runToken = token;
+                    entered();
+                    await gate;
+                    return inner.embed(texts);
+                },
+            };
+            const vectors = new VectorIndex(new NoteIndex(root), path.join(root, '.ai-notes', 'vectors'));
+
+            const first = new vscode.CancellationTokenSource();
+            const second = new vscode.CancellationTokenSource();
+            const firstUpdate = vectors.update(provider, first.token);
+            const secondUpdate = vectors.update(provider, second.token);
+            await embedding;
+            first.cancel();
+            await assert.rejects(firstUpdate);
+            assert.strictEqual(runToken?.isCancellationRequested, false, 'the second caller is still waiting');
+
+            second.cancel();
+            await assert.rejects(secondUpdate);
+            assert.strictEqual(runToken?.isCancellationRequested, true);
+            release();
+            await vectors.update(provider);
+        } finally {
+            await fs.rm(root, { recursive: true, force: true });
+        }
+    });
+
+    test('similarNotes ranks other notes by closeness to the whole note', async () => {
+        const root = await makeVault({
+            'tomatoes.md': '# Tomatoes\nGarden tomato varieties.\n\n# Soil\nGarden beds.',
+            'herbs.md': 'Garden herbs next to the tomato.',
+            'release.md': 'Release and deploy checklist.',
+        });
+        try {
+            const provider = new BagOfWordsProvider();
+            setEmbeddingProviderOverride(provider);
+            const vectors = new VectorIndex(new NoteIndex(root), path.join(root, '.ai-notes', 'vectors'));
+            await vectors.update(provider);
+            const similar = await vectors.similarNotes(path.join(root, 'tomatoes.md'), 5);
+            assert.deepStrictEqual(similar.map(h => path.basename(h.filePath)), ['herbs.md', 'release.md']);
+
+            const embeddedBefore = provider.embedded.length;
+            await fs.writeFile(path.join(root, 'tomatoes.md'), 'Release plans for the deploy.');
+            await fs.writeFile(path.join(root, 'herbs.md'), 'Deploy the release.');
+            const changed = await vectors.similarNotes(path.join(root, 'tomatoes.md'), 5);
+            const reembedded = provider.embedded.slice(embeddedBefore);
+            assert.strictEqual(reembedded.length, 1, 'only the open note is embedded again');
+            assert.ok(reembedded[0].includes('Release plans for the deploy.'));
+            assert.strictEqual(path.basename(changed[0].filePath), 'release.md', 'other notes are compared as stored');
+        } finally {
+            await fs.rm(root, { recursive: true, force: true });
+        }
+    });
+});
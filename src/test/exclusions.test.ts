@@ -0,0 +1,59 @@
+import * as assert from 'assert';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import { ExclusionRules, parseIgnoreFile } from '../exclusions';
+import { NoteIndex } from '../noteIndex';
+import { getAllFolders } from '../files';
+
+async function makeVault(files: Record<string, string>): Promise<string> {
+    const root = await fs.mkdtemp(path.join(os.tmpdir(), 'aint-exclude-'));
+    for (const [rel, content] of Object.entries(files)) {
+        await fs.mkdir(path.dirname(path.join(root, rel)), { recursive: true });
+        await fs.writeFile(path.join(root, rel), content);
+    }
+    return root;
+}
+
+suite('Exclusions', () => {
+    test('parseIgnoreFile drops comments and blank lines', () => {
+        assert.deepStrictEqual(parseIgnoreFile('# private stuff\narchive/\r\n\n  \nprivate/**\n!keep.md\n'), ['archive/', 'private/**', '!keep.md']);
+    });
+
+    test('gitignore semantics, plus the built-in rules', () => {
+        const root = path.join(os.tmpdir(), 'vault');
+        const rules = new ExclusionRules(root, ['archive/', '*.tmp.md', 'notes/*.draft.md', '!notes/keep.draft.md']);
+        assert.ok(rules.isExcluded(path.join(root, 'archive'), true));
+        assert.ok(rules.isExcluded(path.join(root, 'archive', '2020', 'a.md')));
+        assert.ok(rules.isExcluded(path.join(root, 'deep', 'x.tmp.md')));
+        assert.ok(rules.isExcluded(path.join(root, 'notes', 'a.draft.md')));
+        assert.ok(!rules.isExcluded(path.join(root, 'notes', 'keep.draft.md')));
+        assert.ok(rules.isExcluded(path.join(root, '.ai-notes', 'index'), true));
+        assert.ok(rules.isExcluded(path.join(root, 'node_modules', 'a.md')));
+        assert.ok(!rules.isExcluded(path.join(root, 'notes', 'a.md')));
+        assert.ok(!rules.isExcluded(path.join(root, 'archived.md')));
+        assert.ok(!rules.isExcluded(path.join(os.tmpdir(), 'elsewhere', 'archive', 'a.md')), 'paths outside the vault are not judged');
+    });
+
+    test('the note index and folder list honor .ainotesignore', async () => {
+        const root = await makeVault({
+            '.ainotesignore': 'archive/\nprivate/\n',
+            'a.md': 'A',
+            'archive/old.md': 'Old',
+            'private/diary/today.md': 'Secret',
+            'work/b.md': 'B',
+        });
+        try {
+            const index = new NoteIndex(root);
+            await index.ready();
+            assert.deepStrictEqual(index.all().map(n => n.relPath), ['a.md', 'work/b.md']);
+            assert.deepStrictEqual(await getAllFolders(root, 3), ['work']);
+
+            await fs.writeFile(path.join(root, '.ainotesignore'), 'private/\n');
+            await index.reloadExclusions();
+            assert.deepStrictEqual(index.all().map(n => n.relPath), ['a.md', 'archive/old.md', 'work/b.md']);
+        } finally {
+            await fs.rm(root, { recursive: true, force: true });
+        }
+    });
+});
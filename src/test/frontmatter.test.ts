@@ -0,0 +1,57 @@
+import * as assert from 'assert';
+import { parseFrontmatter, setFrontmatterKeys, splitFrontmatter, frontmatterList, frontmatterString } from '../frontmatter';
+import { extractTagsFromContent } from '../tagCache';
+import { extractSummaryFromContent } from '../summaries';
+
+suite('Frontmatter', () => {
+    test('reads block lists, flow lists and the legacy comma form', () => {
+        assert.deepStrictEqual(extractTagsFromContent('---\ntags:\n  - a\n  - b\n---\n'), ['a', 'b']);
+        assert.deepStrictEqual(extractTagsFromContent('---\ntags: ["x, y", z]\n---\n'), ['x, y', 'z']);
+        assert.deepStrictEqual(extractTagsFromContent('---\ntags: a, b\n---\n'), ['a', 'b']);
+    });
+
+    test('reads quoted and multi-line strings', () => {
+        const { data } = parseFrontmatter('---\nsummary: >-\n  Two lines\n  folded\ntitle: "A: B"\n---\nBody');
+        assert.strictEqual(frontmatterString(data, 'summary'), 'Two lines folded');
+        assert.strictEqual(frontmatterString(data, 'title'), 'A: B');
+        assert.strictEqual(frontmatterString(data, 'missing'), null);
+        assert.deepStrictEqual(frontmatterList(data, 'missing'), []);
+    });
+
+    test('handles CRLF files', () => {
+        const content = '---\r\ntags: [a]\r\nsummary: Short\r\n---\r\nBody\r\n';
+        assert.deepStrictEqual(extractTagsFromContent(content), ['a']);
+        assert.strictEqual(extractSummaryFromContent(content), 'Short');
+        const split = splitFrontmatter(content);
+        assert.strictEqual(split.body, 'Body\r\n');
+        assert.strictEqual(split.bodyLine, 4);
+    });
+
+    test('invalid YAML reads as empty and is never overwritten', () => {
+        const content = '---\ntags: [a\n---\nBody';
+        const parsed = parseFrontmatter(content);
+        assert.deepStrictEqual(parsed.data, {});
+        assert.ok(parsed.error);
+        assert.throws(() => setFrontmatterKeys(content, { tags: ['b'] }), /not valid YAML/);
+    });
+
+    test('an unclosed fence is not frontmatter', () => {
+        assert.strictEqual(splitFrontmatter('---\nJust a rule').yaml, null);
+    });
+
+    test('writing keeps comments, key order and list style', () => {
+        const content = '---\n# about this note\ntitle: A\ntags: [a, b] # keep me\naliases:\n  - one\nsummary: "old"\n---\nBody';
+        const updated = setFrontmatterKeys(content, { tags: ['c'], aliases: ['two', 'three'], summary: 'new, with comma' });
+        assert.strictEqual(updated,
+            '---\n# about this note\ntitle: A\ntags: [c] # keep me\naliases:\n  - two\n  - three\nsummary: "new, with comma"\n---\nBody');
+    });
+
+    test('writing appends new keys and keeps CRLF line endings', () => {
+        const updated = setFrontmatterKeys('---\r\ntitle: x\r\n---\r\nBody\r\n', { tags: ['a', 'b'] });
+        assert.strictEqual(updated, '---\r\ntitle: x\r\ntags: [a, b]\r\n---\r\nBody\r\n');
+    });
+
+    test('writing creates frontmatter when there is none', () => {
+        assert.strictEqual(setFrontmatterKeys('# Note', { summary: 'S' }), '---\nsummary: S\n---\n# Note');
+    });
+});
@@ -0,0 +1,104 @@
+import * as assert from 'assert';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import { NoteIndex, parseNote } from '../noteIndex';
+import { FullTextIndex, parseSearchQuery, tokenize, findPassages, highlightRanges } from '../fullTextSearch';
+import { stem } from '../stemmer';
+
+async function makeVault(files: Record<string, string>): Promise<string> {
+    const root = await fs.mkdtemp(path.join(os.tmpdir(), 'aint-fulltext-'));
+    for (const [rel, content] of Object.entries(files)) {
+        await fs.mkdir(path.dirname(path.join(root, rel)), { recursive: true });
+        await fs.writeFile(path.join(root, rel), content);
+    }
+    return root;
+}
+
+suite('FullTextSearch', () => {
+    test('stem follows the Porter algorithm', () => {
+        const cases: Record<string, string> = {
+            caresses: 'caress', ponies: 'poni', running: 'run', hopping: 'hop', meetings: 'meet',
+            relational: 'relat', connection: 'connect', connected: 'connect', generalization: 'gener',
+            happy: 'happi', sky: 'sky', agreed: 'agre', controll: 'control',
+        };
+        for (const [word, expected] of Object.entries(cases)) {
+            assert.strictEqual(stem(word), expected, word);
+        }
+        assert.strictEqual(stem('über'), 'über', 'non-English words are left alone');
+    });
+
+    test('tokenize lowercases, splits on punctuation and stems', () => {
+        assert.deepStrictEqual(tokenize('Running the 2nd-Meeting, café!'), ['run', 'the', '2nd', 'meet', 'café']);
+    });
+
+    test('parseSearchQuery reads phrases and drops stop words', () => {
+        assert.deepStrictEqual(parseSearchQuery('the "state of the art" design'), [
+            { tokens: ['state', 'of', 'the', 'art'], phrase: true },
+            { tokens: ['design'], phrase: false },
+        ]);
+        assert.deepStrictEqual(parseSearchQuery('the'), [{ tokens: ['the'], phrase: false }], 'a query of only stop words is kept');
+    });
+
+    test('ranks by BM25 over the full body and honours phrases', async () => {
+        const root = await makeVault({
+            'a.md': '# Standup\nWe met about the release. Release blockers: none.',
+            'b.md': '# Retro\nThe release went fine, and the next planning meeting is Monday.',
+            'c.md': '---\ntags: [garden]\n---\nTomatoes and basil.',
+        });
+        try {
+            const fullText = new FullTextIndex(new NoteIndex(root));
+            await fullText.ready();
+
+            const releases = fullText.search('releases');
+            assert.deepStrictEqual(releases.map(h => path.basename(h.filePath)), ['a.md', 'b.md'], 'more occurrences rank higher');
+            assert.deepStrictEqual(fullText.search('"planning meetings"').map(h => path.basename(h.filePath)), ['b.md']);
+            assert.deepStrictEqual(fullText.search('"meeting planning"'), [], 'phrase order matters');
+            assert.deepStrictEqual(fullText.search('garden').map(h => path.basename(h.filePath)), ['c.md'], 'tags are searchable');
+            assert.deepStrictEqual(
+                fullText.search('release', { within: new Set([path.join(root, 'b.md')]) }).map(h => path.basename(h.filePath)),
+                ['b.md']
+            );
+        } finally {
+            await fs.rm(root, { recursive: true, force: true });
+        }
+    });
+
+    test('highlightRanges marks words with a matching stem', () => {
+        assert.deepStrictEqual(highlightRanges('Meetings about the meet-up', new Set(['meet'])), [[0, 8], [19, 23]]);
+    });
+
+    test('findPassages returns the best matching lines with file line numbers', () => {
+        const content = '---\ntags: [x]\n---\nIntro.\nThe release plan.\nNothing here.\nRelease day.\nPlan B for the release plan.';
+        const note = parseNote('/vault', '/vault/a.md', content);
+        const passages = findPassages(note, 'release plan', 2);
+        assert.deepStrictEqual(passages.map(p => p.line), [4, 7], 'lines with both words win, in file order');
+        assert.deepStrictEqual(passages[0].highlights, [[4, 11], [12, 16]]);
+        assert.deepStrictEqual(passages[0].match, [4, 11]);
+    });
+
+    test('findPassages clips long lines around the first match', () => {
+        const line = 'x '.repeat(200) + 'target' + ' y'.repeat(200);
+        const [passage] = findPassages(parseNote('/vault', '/vault/a.md', line), 'target');
+        assert.ok(passage.text.startsWith('…') && passage.text.endsWith('…'));
+        const [start, end] = passage.highlights[0];
+        assert.strictEqual(passage.text.slice(start, end), 'target');
+        assert.deepStrictEqual(passage.match, [400, 406]);
+    });
+
+    test('ready() picks up edited and deleted notes', async () => {
+        const root = await makeVault({ 'a.md': 'apples', 'b.md': 'bananas' });
+        try {
+            const fullText = new FullTextIndex(new NoteIndex(root));
+            await fullText.ready();
+            await fs.writeFile(path.join(root, 'a.md'), 'cherries');
+            await fs.rm(path.join(root, 'b.md'));
+            await fullText.ready();
+            assert.deepStrictEqual(fullText.search('apple'), []);
+            assert.deepStrictEqual(fullText.search('banana'), []);
+            assert.strictEqual(fullText.search('cherry').length, 1);
+        } finally {
+            await fs.rm(root, { recursive: true, force: true });
+        }
+    });
+});
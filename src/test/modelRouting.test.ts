@@ -0,0 +1,45 @@
+import * as assert from 'assert';
+import { resolveRoute } from '../modelRouting';
+
+suite('ModelRouting', () => {
+    const defaultModelFor = (provider: string) => provider === 'openai-compatible' ? 'llama3.1' : 'gpt-4.1';
+
+    test('tasks without an entry use the default provider and model', () => {
+        assert.deepStrictEqual(
+            resolveRoute('merge', { summarize: { model: 'gpt-4.1-mini' } }, 'vscode-lm-api', defaultModelFor),
+            { provider: 'vscode-lm-api', model: 'gpt-4.1' }
+        );
+        assert.deepStrictEqual(
+            resolveRoute(undefined, { summarize: { model: 'gpt-4.1-mini' } }, 'vscode-lm-api', defaultModelFor),
+            { provider: 'vscode-lm-api', model: 'gpt-4.1' }
+        );
+    });
+
+    test('a model-only entry keeps the default provider', () => {
+        assert.deepStrictEqual(
+            resolveRoute('summarize', { summarize: { model: 'gpt-4.1-mini' } }, 'sap-ai-core', defaultModelFor),
+            { provider: 'sap-ai-core', model: 'gpt-4.1-mini' }
+        );
+    });
+
+    test('a provider-only entry uses that provider\'s default model', () => {
+        assert.deepStrictEqual(
+            resolveRoute('classify', { classify: { provider: 'openai-compatible' } }, 'sap-ai-core', defaultModelFor),
+            { provider: 'openai-compatible', model: 'llama3.1' }
+        );
+    });
+
+    test('a full entry overrides both', () => {
+        assert.deepStrictEqual(
+            resolveRoute('restructure', { restructure: { provider: 'sap-ai-core', model: 'gpt-4o' } }, 'openai-compatible', defaultModelFor),
+            { provider: 'sap-ai-core', model: 'gpt-4o' }
+        );
+    });
+
+    test('blank fields fall back to defaults', () => {
+        assert.deepStrictEqual(
+            resolveRoute('chat', { chat: { provider: ' ', model: '' } }, 'vscode-lm-api', defaultModelFor),
+            { provider: 'vscode-lm-api', model: 'gpt-4.1' }
+        );
+    });
+});
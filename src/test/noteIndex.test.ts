@@ -0,0 +1,147 @@
+import * as assert from 'assert';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import { NoteIndex, parseNote, extractHeadings } from '../noteIndex';
+
+async function makeVault(files: Record<string, string>): Promise<string> {
+    const root = await fs.mkdtemp(path.join(os.tmpdir(), 'aint-index-'));
+    for (const [rel, content] of Object.entries(files)) {
+        await fs.mkdir(path.dirname(path.join(root, rel)), { recursive: true });
+        await fs.writeFile(path.join(root, rel), content);
+    }
+    return root;
+}
+
+suite('NoteIndex', () => {
+    test('parseNote reads frontmatter, tags, links, headings and summary', () => {
+        const root = path.join(os.tmpdir(), 'vault');
+        const filePath = path.join(root, 'notes', 'a.md');
+        const content = '---\ntags: [x, y]\nsummary: "Short"\nstatus: draft\n---\n# Title\nSee [b](../b.md).\n## Part';
+        const note = parseNote(root, filePath, content);
+        assert.strictEqual(note.relPath, 'notes/a.md');
+        assert.strictEqual(note.title, 'a');
+        assert.deepStrictEqual(note.tags, ['x', 'y']);
+        assert.strictEqual(note.frontmatter.status, 'draft');
+        assert.strictEqual(note.summary, 'Short');
+        assert.deepStrictEqual(note.links, [{ target: path.join(root, 'b.md'), text: 'b' }]);
+        assert.deepStrictEqual(note.headings, [
+            { level: 1, text: 'Title', line: 5 },
+            { level: 2, text: 'Part', line: 7 },
+        ]);
+        assert.ok(note.body.startsWith('# Title'));
+    });
+
+    test('extractHeadings skips fenced code blocks', () => {
+        const headings = extractHeadings('# One\n```\n# not a heading\n```\n## Two');
+        assert.deepStrictEqual(headings.map(h => h.text), ['One', 'Two']);
+    });
+
+    test('skips dot-folders, node_modules and _site; drafts only on request', async () => {
+        const root = await makeVault({
+            'a.md': 'A',
+            '_drafts/d.md': 'D',
+            '_moc/index.md': 'M',
+            '.ai-notes/prompts/chat.md': 'P',
+            'node_modules/x/readme.md': 'N',
+            '_site/notes/a.md': 'S',
+        });
+        try {
+            const index = new NoteIndex(root);
+            await index.ready();
+            assert.deepStrictEqual(index.all().map(n => n.relPath), ['a.md']);
+            assert.deepStrictEqual(
+                index.all({ includeDrafts: true, includeGenerated: true }).map(n => n.relPath),
+                ['_drafts/d.md', '_moc/index.md', 'a.md']
+            );
+        } finally {
+            await fs.rm(root, { recursive: true, force: true });
+        }
+    });
+
+    test('ready() re-parses only changed files and drops deleted ones', async () => {
+        const root = await makeVault({
+            'a.md': '---\ntags: [one]\n---\nA',
+            'b.md': '---\ntags: [one, two]\n---\nSee [a](a.md)',
+        });
+        try {
+            const index = new NoteIndex(root);
+            let changes = 0;
+            index.onDidChange(() => changes++);
+            await index.ready();
+            assert.deepStrictEqual(index.getTagsWithFrequency(), [{ tag: 'one', count: 2 }, { tag: 'two', count: 1 }]);
+            assert.deepStrictEqual(index.backlinksTo(path.join(root, 'a.md')), [{ fromFile: path.join(root, 'b.md'), linkText: 'a' }]);
+
+            await fs.writeFile(path.join(root, 'a.md'), '---\ntags: [three]\n---\nA, edited');
+            await fs.rm(path.join(root, 'b.md'));
+            await fs.writeFile(path.join(root, 'c.md'), 'C');
+            await index.ready();
+
+            assert.strictEqual(changes, 2);
+            assert.deepStrictEqual(index.all().map(n => n.relPath), ['a.md', 'c.md']);
+            assert.deepStrictEqual(index.getAllTags(), ['three']);
+            assert.strictEqual(index.get(path.join(root, 'b.md')), undefined);
+
+            await index.ready();
+            assert.strictEqual(changes, 2, 'an unchanged vault does not fire');
+        } finally {
+            await fs.rm(root, { recursive: true, force: true });
+        }
+    });
+
+    test('a persisted snapshot is reused and only changed files are re-read', async () => {
+        const root = await makeVault({
+            'a.md': '---\ntags: [one]\n---\nA',
+            'b.md': 'B',
+        });
+        const store = path.join(root, '.ai-notes', 'index');
+        try {
+            const first = new NoteIndex(root);
+            first.persistTo(store);
+            await first.ready();
+            first.dispose();
+
+            // Edit b.md on disk and doctor the snapshot's copy of a.md: only b.md
+            // may be re-parsed, so the doctored entry must survive.
+            await fs.writeFile(path.join(root, 'b.md'), '---\ntags: [two]\n---\nB, edited');
+            const snapshotPath = path.join(store, 'notes.json');
+            const snapshot = JSON.parse(await fs.readFile(snapshotPath, 'utf8'));
+            snapshot.notes.find((n: any) => n.relPath === 'a.md').summary = 'from snapshot';
+            await fs.writeFile(snapshotPath, JSON.stringify(snapshot));
+
+            const second = new NoteIndex(root);
+            second.persistTo(store);
+            await second.ready();
+            assert.strictEqual(second.get(path.join(root, 'a.md'))!.summary, 'from snapshot');
+            assert.deepStrictEqual(second.get(path.join(root, 'b.md'))!.tags, ['two']);
+            second.dispose();
+        } finally {
+            await fs.rm(root, { recursive: true, force: true });
+        }
+    });
+
+    test('a snapshot from another version is ignored', async () => {
+        const root = await makeVault({ 'a.md': 'A' });
+        const store = path.join(root, '.ai-notes', 'index');
+        try {
+            const first = new NoteIndex(root);
+            first.persistTo(store);
+            await first.ready();
+            first.dispose();
+
+            const snapshotPath = path.join(store, 'notes.json');
+            const snapshot = JSON.parse(await fs.readFile(snapshotPath, 'utf8'));
+            snapshot.version = 0;
+            snapshot.notes[0].summary = 'stale';
+            await fs.writeFile(snapshotPath, JSON.stringify(snapshot));
+
+            const second = new NoteIndex(root);
+            second.persistTo(store);
+            await second.ready();
+            assert.strictEqual(second.get(path.join(root, 'a.md'))!.summary, null);
+            second.dispose();
+        } finally {
+            await fs.rm(root, { recursive: true, force: true });
+        }
+    });
+});
@@ -0,0 +1,57 @@
+import * as assert from 'assert';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import { renderFileName, formatDate, uniqueNotePath, parseDateFromFilename, noteDate, stampUpdatedDate } from '../noteNaming';
+
+suite('NoteNaming', () => {
+    const date = new Date(2026, 4, 7, 9, 5, 3);
+
+    test('renderFileName expands date, time, slug and id tokens', () => {
+        assert.strictEqual(renderFileName('{date:YYYY-MM-DD}_{slug}', { name: 'Weekly Sync!', date }), '2026-05-07_weekly-sync');
+        assert.strictEqual(renderFileName('{date}-{time}-{id}', { name: 'x', date, id: 'abc123' }), '2026-05-07-0905-abc123');
+        assert.strictEqual(renderFileName('{date:YYYYMMDD}{time:HHmmss}', { name: 'x', date }), '20260507090503');
+    });
+
+    test('renderFileName drops characters that are not allowed in file names', () => {
+        assert.strictEqual(renderFileName('{date:YYYY/MM}:{slug}', { name: 'A', date }), '202605a');
+        assert.strictEqual(renderFileName('{slug}', { name: '???', date }), 'note');
+    });
+
+    test('formatDate pads every field', () => {
+        assert.strictEqual(formatDate(new Date(2026, 0, 2, 3, 4, 5), 'DD.MM.YY HH:mm:ss'), '02.01.26 03:04:05');
+    });
+
+    test('uniqueNotePath adds a numeric suffix when the name is taken', async () => {
+        const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'aint-naming-'));
+        try {
+            assert.strictEqual(uniqueNotePath(dir, 'a'), path.join(dir, 'a.md'));
+            await fs.writeFile(path.join(dir, 'a.md'), '');
+            await fs.writeFile(path.join(dir, 'a-2.md'), '');
+            assert.strictEqual(uniqueNotePath(dir, 'a'), path.join(dir, 'a-3.md'));
+            assert.strictEqual(uniqueNotePath(dir, 'a', path.join(dir, 'a.md')), path.join(dir, 'a.md'), 'a note may keep its own name');
+        } finally {
+            await fs.rm(dir, { recursive: true, force: true });
+        }
+    });
+
+    test('parseDateFromFilename rejects impossible dates', () => {
+        assert.strictEqual(parseDateFromFilename('2026-02-31_note.md'), null);
+        assert.strictEqual(parseDateFromFilename('31-02-2026_note.md'), null);
+        assert.strictEqual(parseDateFromFilename('note-12345-678.md'), null);
+    });
+
+    test('noteDate prefers the created frontmatter date over the file name', () => {
+        const fromFrontmatter = noteDate({ created: '2025-12-24' }, '/v/2026-05-07_note.md');
+        assert.strictEqual(fromFrontmatter!.getFullYear(), 2025);
+        const fromName = noteDate({}, '/v/2026-05-07_note.md');
+        assert.strictEqual(fromName!.getMonth(), 4);
+        assert.strictEqual(noteDate({ created: 'soon' }, '/v/note.md'), null);
+    });
+
+    test('stampUpdatedDate only touches notes that carry an updated key', () => {
+        assert.strictEqual(stampUpdatedDate('---\ntitle: x\n---\nBody', date), null);
+        assert.strictEqual(stampUpdatedDate('---\nupdated: 2026-05-07\n---\nBody', date), null);
+        assert.strictEqual(stampUpdatedDate('---\nupdated: 2026-01-01 # auto\n---\nBody', date), '---\nupdated: 2026-05-07 # auto\n---\nBody');
+    });
+});
@@ -0,0 +1,153 @@
+import * as assert from 'assert';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import {
+    chatCompletionsUrl,
+    embeddingsUrl,
+    openAICompatibleChatCompletion,
+    openAICompatibleEmbeddings,
+    openAICompatibleChatCompletionStream,
+    parseStreamLines,
+} from '../openai-compatible';
+
+interface RecordedRequest {
+    url: string;
+    authorization: string | undefined;
+    body: any;
+}
+
+async function startStubServer(status: number, payload: unknown): Promise<{ server: http.Server; baseUrl: string; requests: RecordedRequest[] }> {
+    const requests: RecordedRequest[] = [];
+    const server = http.createServer((req, res) => {
+        let raw = '';
+        req.on('data', chunk => { raw += chunk; });
+        req.on('end', () => {
+            requests.push({ url: req.url || '', authorization: req.headers.authorization, body: JSON.parse(raw) });
+            res.writeHead(status, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify(payload));
+        });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+    return { server, baseUrl: `http://127.0.0.1:${port}/v1`, requests };
+}
+
+suite('OpenAI-compatible provider', () => {
+    test('chatCompletionsUrl appends the endpoint and strips trailing slashes', () => {
+        assert.strictEqual(chatCompletionsUrl('http://localhost:11434/v1/'), 'http://localhost:11434/v1/chat/completions');
+        assert.strictEqual(chatCompletionsUrl('http://localhost:8080/v1'), 'http://localhost:8080/v1/chat/completions');
+    });
+
+    test('sends the prompt and model and returns the message content', async () => {
+        const stub = await startStubServer(200, { choices: [{ message: { role: 'assistant', content: 'hello from stub' } }] });
+        try {
+            const result = await openAICompatibleChatCompletion('Say hello', { baseUrl: stub.baseUrl, model: 'llama3.1' });
+            assert.strictEqual(result, 'hello from stub');
+            assert.strictEqual(stub.requests.length, 1);
+            assert.strictEqual(stub.requests[0].url, '/v1/chat/completions');
+            assert.strictEqual(stub.requests[0].body.model, 'llama3.1');
+            assert.deepStrictEqual(stub.requests[0].body.messages, [{ role: 'user', content: 'Say hello' }]);
+            assert.strictEqual(stub.requests[0].authorization, undefined);
+        } finally {
+            stub.server.close();
+        }
+    });
+
+    test('sends the API key as a Bearer token when configured', async () => {
+        const stub = await startStubServer(200, { choices: [{ message: { content: 'ok' } }] });
+        try {
+            await openAICompatibleChatCompletion('x', { baseUrl: stub.baseUrl, model: 'm', apiKey: 'secret' });
+            assert.strictEqual(stub.requests[0].authorization, 'Bearer secret');
+        } finally {
+            stub.server.close();
+        }
+    });
+
+    test('throws with the status code on a non-2xx response', async () => {
+        const stub = await startStubServer(404, { error: 'model not found' });
+        try {
+            await assert.rejects(
+                openAICompatibleChatCompletion('x', { baseUrl: stub.baseUrl, model: 'missing' }),
+                /404.*model not found/
+            );
+        } finally {
+            stub.server.close();
+        }
+    });
+
+    test('throws when the response has no content', async () => {
+        const stub = await startStubServer(200, { choices: [] });
+        try {
+            await assert.rejects(
+                openAICompatibleChatCompletion('x', { baseUrl: stub.baseUrl, model: 'm' }),
+                /empty/
+            );
+        } finally {
+            stub.server.close();
+        }
+    });
+
+    test('embeds a batch of texts, ordered by the response indices', async () => {
+        assert.strictEqual(embeddingsUrl('http://localhost:11434/v1/'), 'http://localhost:11434/v1/embeddings');
+        const stub = await startStubServer(200, { data: [{ index: 1, embedding: [0, 1] }, { index: 0, embedding: [1, 0] }] });
+        try {
+            const vectors = await openAICompatibleEmbeddings(['first', 'second'], { baseUrl: stub.baseUrl, model: 'nomic-embed-text' });
+            assert.deepStrictEqual(vectors, [[1, 0], [0, 1]]);
+            assert.strictEqual(stub.requests[0].url, '/v1/embeddings');
+            assert.deepStrictEqual(stub.requests[0].body, { model: 'nomic-embed-text', input: ['first', 'second'] });
+        } finally {
+            stub.server.close();
+        }
+    });
+
+    test('throws when the embeddings response is missing a vector', async () => {
+        const stub = await startStubServer(200, { data: [{ index: 0, embedding: [1, 0] }] });
+        try {
+            await assert.rejects(
+                openAICompatibleEmbeddings(['a', 'b'], { baseUrl: stub.baseUrl, model: 'm' }),
+                /missing vector 1/
+            );
+        } finally {
+            stub.server.close();
+        }
+    });
+
+    test('parseStreamLines collects deltas and stops at [DONE]', () => {
+        const parsed = parseStreamLines([
+            'data: {"choices":[{"delta":{"role":"assistant"}}]}',
+            'data: {"choices":[{"delta":{"content":"Hel"}}]}',
+            ': keep-alive',
+            'data: {"choices":[{"delta":{"content":"lo"}}]}',
+            'data: [DONE]',
+            'data: {"choices":[{"delta":{"content":"ignored"}}]}',
+        ]);
+        assert.deepStrictEqual(parsed, { deltas: ['Hel', 'lo'], done: true });
+    });
+
+    test('streams content deltas from a server-sent-event response', async () => {
+        let requestBody: any;
+        const server = http.createServer((req, res) => {
+            let raw = '';
+            req.on('data', chunk => { raw += chunk; });
+            req.on('end', () => {
+                requestBody = JSON.parse(raw);
+                res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+                res.write('data: {"choices":[{"delta":{"content":"one "}}]}\n\n');
+                res.write('data: {"choices":[{"delta":{"content":"two"}}]}\n\ndata: [DONE]\n\n');
+                res.end();
+            });
+        });
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        const { port } = server.address() as AddressInfo;
+        try {
+            const fragments: string[] = [];
+            for await (const fragment of openAICompatibleChatCompletionStream('x', { baseUrl: `http://127.0.0.1:${port}/v1`, model: 'm' })) {
+                fragments.push(fragment);
+            }
+            assert.deepStrictEqual(fragments, ['one ', 'two']);
+            assert.strictEqual(requestBody.stream, true);
+        } finally {
+            server.close();
+        }
+    });
+});
@@ -0,0 +1,67 @@
+import * as assert from 'assert';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import { PROMPTS, renderTemplate, templateVariables, loadPromptTemplate, renderPrompt, listPrompts } from '../prompts';
+import { buildPrompt } from '../restructureVault';
+
+suite('Prompts', () => {
+    test('renderTemplate substitutes known variables and keeps unknown ones', () => {
+        assert.strictEqual(renderTemplate('Hi {{name}}, {{ other }}', { name: 'Ana' }), 'Hi Ana, {{ other }}');
+    });
+
+    test('renderTemplate does not expand placeholders inside values', () => {
+        assert.strictEqual(renderTemplate('{{a}} {{b}}', { a: '{{b}}', b: 'x' }), '{{b}} x');
+    });
+
+    test('every built-in template uses exactly its declared variables', () => {
+        for (const [name, definition] of Object.entries(PROMPTS)) {
+            assert.deepStrictEqual(
+                templateVariables(definition.template).sort(),
+                [...definition.variables].sort(),
+                name
+            );
+        }
+    });
+
+    test('workspace override replaces the default template', async () => {
+        const tmp = await fs.mkdtemp(path.join(os.tmpdir(), 'aint-prompts-'));
+        try {
+            assert.strictEqual(await loadPromptTemplate('summarize-note', tmp), PROMPTS['summarize-note'].template);
+
+            await fs.mkdir(path.join(tmp, '.ai-notes', 'prompts'), { recursive: true });
+            await fs.writeFile(path.join(tmp, '.ai-notes', 'prompts', 'summarize-note.md'), 'In our house style:\r\n{{content}}\r\n');
+            assert.strictEqual(await renderPrompt('summarize-note', { content: 'body' }, tmp), 'In our house style:\nbody');
+        } finally {
+            await fs.rm(tmp, { recursive: true, force: true });
+        }
+    });
+
+    test('listPrompts reports overrides, unknown placeholders and stray files', async () => {
+        const tmp = await fs.mkdtemp(path.join(os.tmpdir(), 'aint-prompts-'));
+        try {
+            const dir = path.join(tmp, '.ai-notes', 'prompts');
+            await fs.mkdir(dir, { recursive: true });
+            await fs.writeFile(path.join(dir, 'chat.md'), '{{notes}} {{conversation}} {{typo}}');
+            await fs.writeFile(path.join(dir, 'not-a-prompt.md'), 'x');
+
+            const prompts = await listPrompts(tmp);
+            const chat = prompts.find(p => p.name === 'chat')!;
+            assert.strictEqual(chat.overridePath, path.join(dir, 'chat.md'));
+            assert.deepStrictEqual(chat.unknownVariables, ['typo']);
+            assert.strictEqual(prompts.find(p => p.name === 'merge-notes')!.overridePath, undefined);
+            assert.strictEqual(prompts.find(p => p.name === 'not-a-prompt')!.known, false);
+        } finally {
+            await fs.rm(tmp, { recursive: true, force: true });
+        }
+    });
+
+    test('restructure buildPrompt renders a custom template', () => {
+        const prompt = buildPrompt(
+            [{ relPath: 'a/x.md', title: 'x', tags: ['t'] }],
+            ['a'],
+            'F:\n{{folders}}\nN:\n{{notes}}'
+        );
+        assert.strictEqual(prompt, 'F:\n- a\nN:\n- a/x.md tags=[t]');
+    });
+});
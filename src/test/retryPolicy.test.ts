@@ -0,0 +1,102 @@
+import * as assert from 'assert';
+import { classifyError, backoffDelay, errorStatus, ProviderHttpError, AITimeoutError, AIRequestError } from '../retryPolicy';
+import { chatCompletionWithRetry, setCompletionProviderOverride } from '../ai';
+import { MockProvider } from '../replayProvider';
+
+suite('RetryPolicy', () => {
+    test('rate limits, timeouts and server errors are retryable', () => {
+        assert.strictEqual(classifyError(new ProviderHttpError('endpoint returned 429: slow down', 429)).kind, 'retryable');
+        assert.strictEqual(classifyError(new AITimeoutError(5000)).kind, 'retryable');
+        assert.strictEqual(classifyError(new ProviderHttpError('endpoint returned 503: busy', 503)).kind, 'retryable');
+        assert.strictEqual(classifyError(Object.assign(new Error('socket'), { code: 'ECONNRESET' })).kind, 'retryable');
+        assert.strictEqual(classifyError(new Error('Could not reach OpenAI-compatible endpoint at http://x')).kind, 'retryable');
+    });
+
+    test('bad credentials, missing models and bad requests are fatal', () => {
+        assert.strictEqual(classifyError(new ProviderHttpError('endpoint returned 401: invalid key', 401)).kind, 'fatal');
+        assert.strictEqual(classifyError({ message: 'Request failed', response: { status: 403 } }).kind, 'fatal');
+        assert.strictEqual(classifyError(new ProviderHttpError('endpoint returned 404: model "x" not found', 404)).kind, 'fatal');
+        assert.strictEqual(classifyError(new Error('No suitable AI model found for chat completion.')).kind, 'fatal');
+        assert.strictEqual(classifyError(new Error('Unsupported LLM provider: foo')).kind, 'fatal');
+        assert.strictEqual(classifyError(new ProviderHttpError('endpoint returned 400: bad', 400)).kind, 'fatal');
+    });
+
+    test('unknown errors are retried', () => {
+        assert.strictEqual(classifyError(new Error('something odd')).kind, 'retryable');
+    });
+
+    test('errorStatus reads nested and message statuses', () => {
+        assert.strictEqual(errorStatus({ cause: { response: { status: 502 } } }), 502);
+        assert.strictEqual(errorStatus(new Error('Request failed with status code 429')), 429);
+        assert.strictEqual(errorStatus(new Error('no status here')), undefined);
+    });
+
+    test('backoffDelay grows exponentially, is capped and jittered', () => {
+        assert.strictEqual(backoffDelay(0, 1000, 30_000, () => 1), 1000);
+        assert.strictEqual(backoffDelay(3, 1000, 30_000, () => 1), 8000);
+        assert.strictEqual(backoffDelay(10, 1000, 30_000, () => 1), 30_000);
+        assert.strictEqual(backoffDelay(3, 1000, 30_000, () => 0.5), 4000);
+        assert.strictEqual(backoffDelay(3, 1000, 30_000, () => 0), 0);
+    });
+
+    test('AIRequestError names the provider and the last cause', () => {
+        const err = new AIRequestError([
+            { provider: 'openai-compatible', model: 'llama3.1', reason: 'Rate limited', kind: 'retryable' },
+            { provider: 'sap-ai-core', model: 'gpt-4.1', reason: 'Authentication failed (401).', kind: 'fatal' },
+        ]);
+        assert.strictEqual(err.message, 'AI request to openai-compatible (llama3.1), then sap-ai-core (gpt-4.1) failed after 2 attempts: Authentication failed (401).');
+    });
+});
+
+suite('chatCompletionWithRetry retry policy', () => {
+    const random = Math.random;
+
+    setup(() => {
+        // No backoff waits in tests.
+        Math.random = () => 0;
+    });
+
+    teardown(() => {
+        Math.random = random;
+        setCompletionProviderOverride(undefined);
+    });
+
+    test('retries a rate-limited call and returns the later answer', async () => {
+        const mock = new MockProvider((_prompt, call) => {
+            if (call === 0) { throw new ProviderHttpError('endpoint returned 429: slow down', 429); }
+            return 'ok';
+        });
+        setCompletionProviderOverride(mock);
+        assert.strictEqual(await chatCompletionWithRetry('retry me', { bypassCache: true }), 'ok');
+        assert.strictEqual(mock.prompts.length, 2);
+    });
+
+    test('fails immediately on a fatal error with the real cause', async () => {
+        const mock = new MockProvider(() => { throw new ProviderHttpError('endpoint returned 401: invalid api key', 401); });
+        setCompletionProviderOverride(mock);
+        await assert.rejects(
+            chatCompletionWithRetry('fatal', { bypassCache: true }),
+            (err: Error) => err instanceof AIRequestError && /Authentication failed \(401\)/.test(err.message)
+        );
+        assert.strictEqual(mock.prompts.length, 1);
+    });
+
+    test('gives up after the configured attempts', async () => {
+        const mock = new MockProvider(() => { throw new ProviderHttpError('endpoint returned 503: busy', 503); });
+        setCompletionProviderOverride(mock);
+        await assert.rejects(
+            chatCompletionWithRetry('busy', { bypassCache: true, retries: 2 }),
+            /failed after 2 attempts: Provider error 503/
+        );
+        assert.strictEqual(mock.prompts.length, 2);
+    });
+
+    test('a slow attempt times out and is retried', async () => {
+        const mock = new MockProvider((_prompt, call) => {
+            if (call === 0) { return new Promise<string>(() => {}) as unknown as string; }
+            return 'fast';
+        });
+        setCompletionProviderOverride(mock);
+        assert.strictEqual(await chatCompletionWithRetry('slow', { bypassCache: true, timeoutMs: 20 }), 'fast');
+    });
+});
@@ -0,0 +1,67 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { parseNote } from '../noteIndex';
+import { parseQuery, matchesFilters, QueryError, QueryTerm } from '../searchQuery';
+
+const root = path.resolve('/vault');
+
+function note(relPath: string, content: string) {
+    return parseNote(root, path.join(root, relPath), content);
+}
+
+/** Free text matches when the note body contains it, ignoring case. */
+const containsText = (n: ReturnType<typeof note>, term: QueryTerm) => n.body.toLowerCase().includes(term.value.toLowerCase());
+
+function matches(query: string, n: ReturnType<typeof note>): boolean {
+    return matchesFilters(n, parseQuery(query), containsText);
+}
+
+suite('SearchQuery', () => {
+    test('parseQuery separates filters from the ranking text', () => {
+        const parsed = parseQuery('release "next steps" tag:work -tag:archived status:"in review"');
+        assert.strictEqual(parsed.text, 'release "next steps"');
+        assert.deepStrictEqual(parsed.filters, [
+            [{ field: 'tag', value: 'work', phrase: false, negated: false }],
+            [{ field: 'tag', value: 'archived', phrase: false, negated: true }],
+            [{ field: 'status', value: 'in review', phrase: false, negated: false }],
+        ]);
+        assert.strictEqual(parsed.includeDrafts, false);
+    });
+
+    test('OR joins the terms on either side into one clause', () => {
+        const parsed = parseQuery('tag:a OR tag:b OR kettle budget');
+        assert.deepStrictEqual(parsed.filters.map(clause => clause.map(t => t.value)), [['a', 'b', 'kettle']]);
+        assert.strictEqual(parsed.text, 'budget');
+        assert.strictEqual(parseQuery('OR tea or').text, 'tea or', 'a leading OR is dropped and lowercase or is a word');
+    });
+
+    test('parseQuery rejects filters with invalid values', () => {
+        assert.throws(() => parseQuery('after:yesterday'), QueryError);
+        assert.throws(() => parseQuery('has:nothing'), /has: accepts summary, tags, links/);
+        assert.throws(() => parseQuery('is:done'), QueryError);
+        assert.strictEqual(parseQuery('is:draft').includeDrafts, true);
+        assert.strictEqual(parseQuery('before:').text, 'before:', 'a filter name without a value is a word');
+    });
+
+    test('matchesFilters checks tags, paths, dates and flags', () => {
+        const plan = note('work/plan.md', '---\ntags: [project/alpha, Work]\ncreated: 2026-02-10\nsummary: The plan.\n---\nSee [roadmap](../roadmap.md).');
+        assert.ok(matches('tag:work tag:project', plan), 'tags ignore case and match nested tags');
+        assert.ok(!matches('tag:alpha', plan));
+        assert.ok(matches('path:work/', plan) && matches('path:./work', plan) && !matches('path:personal/', plan));
+        assert.ok(matches('after:2026-02-10 before:2026-02-11', plan));
+        assert.ok(!matches('after:2026-02-11', plan) && !matches('before:2026-02-10', plan));
+        assert.ok(matches('has:summary has:links has:tags', plan));
+        assert.ok(matches('links-to:roadmap.md', plan) && matches('links-to:roadmap', plan) && !matches('links-to:plan', plan));
+        assert.ok(!matches('is:draft', plan) && matches('is:draft', note('_drafts/x.md', 'x')));
+    });
+
+    test('matchesFilters compares frontmatter fields and free text', () => {
+        const task = note('task.md', '---\nStatus: Open\npriority: 2\nowners: [ana, ben]\n---\nFix the kettle.');
+        assert.ok(matches('status:open priority:2 owners:ben', task));
+        assert.ok(!matches('status:closed', task) && !matches('missing:value', task));
+        assert.ok(matches('-status:closed -teapot', task));
+        assert.ok(!matches('-kettle', task));
+        assert.ok(matches('status:closed OR kettle', task));
+        assert.ok(matches('"fix the" OR x', task));
+    });
+});
@@ -0,0 +1,22 @@
+import * as assert from 'assert';
+import { recordSearch, renderHighlights, SearchHistoryEntry } from '../searchResultsWebview';
+
+suite('SearchResults', () => {
+    test('recordSearch puts the latest query first without duplicates', () => {
+        const a: SearchHistoryEntry = { query: 'alpha', mode: 'keyword', rootDir: '/v' };
+        const b: SearchHistoryEntry = { query: 'beta', mode: 'hybrid', rootDir: '/v' };
+        const history = recordSearch(recordSearch(recordSearch([], a), b), { ...a });
+        assert.deepStrictEqual(history.map(e => e.query), ['alpha', 'beta']);
+        assert.strictEqual(recordSearch(history, { ...a, mode: 'ai' }).length, 3, 'another mode is another entry');
+
+        let long: SearchHistoryEntry[] = [];
+        for (let i = 0; i < 30; i++) { long = recordSearch(long, { query: `q${i}`, mode: 'keyword', rootDir: '/v' }); }
+        assert.strictEqual(long.length, 20);
+        assert.strictEqual(long[0].query, 'q29');
+    });
+
+    test('renderHighlights escapes text and marks the ranges', () => {
+        assert.strictEqual(renderHighlights('a <b> c', [[2, 5]]), 'a <mark>&lt;b&gt;</mark> c');
+        assert.strictEqual(renderHighlights('plain', []), 'plain');
+    });
+});
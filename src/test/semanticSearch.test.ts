@@ -1,5 +1,10 @@
 import * as assert from 'assert';
-import { parseSearchResults, buildNoteEntry } from '../semanticSearch';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import { parseSearchResults, buildNoteEntry, fuseRankings, searchVault } from '../semanticSearch';
+import { setCompletionProviderOverride } from '../ai';
+import { MockProvider } from '../replayProvider';
 
 suite('SemanticSearch', () => {
     test('parseSearchResults extracts indices from JSON array', () => {
@@ -20,6 +25,11 @@ suite('SemanticSearch', () => {
         assert.deepStrictEqual(indices, []);
     });
 
+    test('parseSearchResults reads entries with reasons', () => {
+        const response = '[{"index": 2, "reason": "Summary covers it"}, {"index": 4}]';
+        assert.deepStrictEqual(parseSearchResults(response), [2, 4]);
+    });
+
     test('buildNoteEntry uses summary when available', () => {
         const entry = buildNoteEntry('/path/to/note.md', 'This is the summary');
         assert.strictEqual(entry, 'note.md — This is the summary');
@@ -30,4 +40,89 @@ suite('SemanticSearch', () => {
         const entry = buildNoteEntry('/path/to/note.md', null, content);
         assert.strictEqual(entry.length, 'note.md — '.length + 100);
     });
+
+    test('fuseRankings puts notes ranked well by both first', () => {
+        const fused = fuseRankings([['a', 'b', 'c'], ['b']]);
+        assert.deepStrictEqual(fused.map(h => h.filePath), ['b', 'a', 'c']);
+    });
+
+    test('searchVault reranks keyword hits and falls back when the model fails', async () => {
+        const root = await fs.mkdtemp(path.join(os.tmpdir(), 'aint-search-'));
+        await fs.writeFile(path.join(root, 'a.md'), 'Kettle descaling: kettle, kettle, vinegar.');
+        await fs.writeFile(path.join(root, 'b.md'), 'The kettle whistles.');
+        await fs.writeFile(path.join(root, 'c.md'), 'Nothing relevant here.');
+        const mock = new MockProvider((_prompt, call) => {
+            if (call < 2) { return '[2]'; }
+            throw new Error('Unauthorized');
+        });
+        setCompletionProviderOverride(mock);
+        try {
+            const keyword = await searchVault(root, 'kettle', 'keyword');
+            assert.deepStrictEqual(keyword.map(h => path.basename(h.filePath)), ['a.md', 'b.md']);
+            assert.strictEqual(mock.prompts.length, 0, 'keyword mode never calls the model');
+
+            const ai = await searchVault(root, 'kettle', 'ai');
+            assert.deepStrictEqual(ai.map(h => path.basename(h.filePath)), ['b.md']);
+            assert.ok(mock.prompts[0].includes('1. a.md') && !mock.prompts[0].includes('c.md'), 'only keyword hits are sent');
+
+            const hybrid = await searchVault(root, 'kettle', 'hybrid');
+            assert.deepStrictEqual(hybrid.map(h => path.basename(h.filePath)), ['b.md', 'a.md']);
+
+            const fallback = await searchVault(root, 'kettle', 'hybrid');
+            assert.deepStrictEqual(fallback.map(h => path.basename(h.filePath)), ['a.md', 'b.md'], 'keyword order when the model fails');
+            await assert.rejects(searchVault(root, 'kettle', 'ai'), /Unauthorized/);
+        } finally {
+            setCompletionProviderOverride(undefined);
+            await fs.rm(root, { recursive: true, force: true });
+        }
+    });
+
+    test('searchVault explains each hit', async () => {
+        const root = await fs.mkdtemp(path.join(os.tmpdir(), 'aint-search-'));
+        await fs.writeFile(path.join(root, 'a.md'), '---\ntags: [kettle]\nsummary: Descaling the kettle.\n---\nUse vinegar.\nThe kettle shines.');
+        await fs.writeFile(path.join(root, 'b.md'), 'A kettle whistles.');
+        const mock = new MockProvider(['[{"index": 2, "reason": "mentions a whistling kettle"}]']);
+        setCompletionProviderOverride(mock);
+        try {
+            const [a] = await searchVault(root, 'kettle', 'keyword');
+            assert.strictEqual(path.basename(a.filePath), 'a.md');
+            assert.deepStrictEqual(a.reason.sources, ['keyword']);
+            assert.deepStrictEqual(a.reason.fields, ['tags', 'summary', 'body']);
+            assert.strictEqual(a.reason.rationale, 'Matches "kettle" in the tags, summary and body.');
+            assert.strictEqual(a.reason.passage?.line, 5);
+
+            const [picked] = await searchVault(root, 'kettle', 'ai');
+            assert.strictEqual(path.basename(picked.filePath), 'b.md');
+            assert.deepStrictEqual(picked.reason.sources, ['ai', 'keyword']);
+            assert.ok(picked.reason.rationale.startsWith('Mentions a whistling kettle.'));
+
+            const [filtered] = await searchVault(root, 'tag:kettle -tag:old', 'keyword');
+            assert.strictEqual(filtered.reason.rationale, 'Matches tag:kettle, -tag:old.');
+        } finally {
+            setCompletionProviderOverride(undefined);
+            await fs.rm(root, { recursive: true, force: true });
+        }
+    });
+
+    test('searchVault applies query filters before ranking', async () => {
+        const root = await fs.mkdtemp(path.join(os.tmpdir(), 'aint-search-'));
+        await fs.mkdir(path.join(root, 'work'));
+        await fs.mkdir(path.join(root, '_drafts'));
+        await fs.writeFile(path.join(root, 'work', 'a.md'), '---\ntags: [budget]\ncreated: 2026-03-01\nstatus: open\n---\nBudget review for the kettle.');
+        await fs.writeFile(path.join(root, 'work', 'b.md'), '---\ntags: [budget, archived]\ncreated: 2026-01-10\n---\nOld budget.');
+        await fs.writeFile(path.join(root, 'c.md'), '---\ncreated: 2026-02-01\n---\nBudget for the garden.');
+        await fs.writeFile(path.join(root, '_drafts', 'd.md'), 'Draft budget.');
+        const names = (hits: Array<{ filePath: string }>) => hits.map(h => path.basename(h.filePath));
+        try {
+            assert.deepStrictEqual(names(await searchVault(root, 'budget tag:budget -tag:archived', 'keyword')), ['a.md']);
+            assert.deepStrictEqual(names(await searchVault(root, 'budget path:work/', 'keyword')).sort(), ['a.md', 'b.md']);
+            assert.deepStrictEqual(names(await searchVault(root, 'after:2026-01-15', 'keyword')), ['a.md', 'c.md'], 'filters alone list matches, newest first');
+            assert.deepStrictEqual(names(await searchVault(root, 'status:open OR garden', 'hybrid')).sort(), ['a.md', 'c.md']);
+            assert.deepStrictEqual(names(await searchVault(root, 'budget is:draft', 'keyword')), ['d.md']);
+            assert.deepStrictEqual(names(await searchVault(root, 'budget -garden', 'keyword')).sort(), ['a.md', 'b.md'], 'drafts are left out unless asked for');
+            await assert.rejects(searchVault(root, 'before:soon', 'keyword'), /needs a date/);
+        } finally {
+            await fs.rm(root, { recursive: true, force: true });
+        }
+    });
 });
@@ -1,5 +1,12 @@
 import * as assert from 'assert';
-import { matchesCollection, parseDateFromFilename } from '../smartCollections';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import {
+    matchesCollection, parseDateFromFilename, collectionFilterError, describeFilter, filterUsesBacklinks, runCollection, saveCollections, loadCollections,
+    uniqueCollectionName, collectionToMarkdown,
+    Collection, CollectionFilter, NoteForFilter,
+} from '../smartCollections';
 
 suite('SmartCollections', () => {
     test('parseDateFromFilename extracts DD-MM-YYYY', () => {
@@ -9,6 +16,13 @@ suite('SmartCollections', () => {
         assert.strictEqual(date!.getDate(), 5);
     });
 
+    test('parseDateFromFilename extracts ISO YYYY-MM-DD', () => {
+        const date = parseDateFromFilename('2026-05-07_meeting.md');
+        assert.strictEqual(date!.getFullYear(), 2026);
+        assert.strictEqual(date!.getMonth(), 4);
+        assert.strictEqual(date!.getDate(), 7);
+    });
+
     test('parseDateFromFilename returns null for no date', () => {
         const date = parseDateFromFilename('readme.md');
         assert.strictEqual(date, null);
@@ -35,4 +49,114 @@ suite('SmartCollections', () => {
         const note = { tags: [], date: null, filePath: '' };
         assert.strictEqual(matchesCollection(note, collection), true);
     });
+
+    const plan: NoteForFilter = {
+        tags: ['project/alpha', 'work'],
+        date: new Date(2026, 1, 10),
+        filePath: path.join('/vault', 'work', 'plan.md'),
+        relPath: 'work/plan.md',
+        frontmatter: { status: 'Open', owners: ['ana', 'ben'], due: '2026-03-01' },
+        links: [path.join('/vault', 'roadmap.md')],
+        backlinks: [path.join('/vault', 'index.md')],
+        wordCount: 120,
+    };
+
+    function matches(filter: CollectionFilter): boolean {
+        return matchesCollection(plan, { name: 'test', tags: null, dateRange: null, query: null, filter });
+    }
+
+    test('filter conditions check tags, folders, fields, links, words and dates', () => {
+        assert.ok(matches({ tag: 'project' }) && !matches({ tag: 'alpha' }));
+        assert.ok(matches({ folder: 'work' }) && matches({ folder: './work/' }) && !matches({ folder: 'wor' }));
+        assert.ok(matches({ field: 'Status', equals: 'open' }) && matches({ field: 'owners', equals: ['zoe', 'ben'] }));
+        assert.ok(matches({ field: 'owners', exists: true }) && matches({ field: 'priority', exists: false }) && !matches({ field: 'priority' }));
+        assert.ok(matches({ linksTo: 'roadmap' }) && matches({ linkedFrom: 'index.md' }) && !matches({ linkedFrom: 'roadmap' }));
+        assert.ok(matches({ words: { min: 100, max: 120 } }) && !matches({ words: { min: 121 } }));
+        assert.ok(matches({ date: { after: '2026-02-10', before: '2026-02-11' } }));
+        assert.ok(!matches({ date: { before: '2026-02-10' } }), 'before is exclusive');
+        assert.ok(matches({ date: { key: 'due', after: '2026-03-01' } }) && !matches({ date: { key: 'missing', after: '2000-01-01' } }));
+    });
+
+    test('filter groups nest AND, OR and NOT', () => {
+        const filter: CollectionFilter = {
+            and: [
+                { or: [{ tag: 'personal' }, { folder: 'work' }] },
+                { not: { field: 'status', equals: ['done', 'dropped'] } },
+            ],
+        };
+        assert.ok(matches(filter));
+        assert.ok(!matches({ not: filter }));
+        assert.ok(matches({ and: [] }) && !matches({ or: [] }));
+        assert.strictEqual(describeFilter(filter), '((tag:personal OR folder:work) AND NOT status=done|dropped)');
+    });
+
+    test('collectionFilterError points at the malformed condition', () => {
+        assert.strictEqual(collectionFilterError({ and: [{ tag: 'a' }, { not: { date: { after: 'soon' } } }] }),
+            'filter.and[1].not.date.after: expected a date like 2026-01-31, got "soon"');
+        assert.match(collectionFilterError({ or: [{ colour: 'red' }] })!, /filter\.or\[0\]: unknown condition "colour"/);
+        assert.strictEqual(collectionFilterError({ or: { tag: 'a' } }), 'filter.or: expected a list');
+        assert.strictEqual(collectionFilterError({ field: 'status', equals: 'open' }), null);
+    });
+
+    test('collectionFilterError rejects malformed values and mixed conditions', () => {
+        assert.strictEqual(collectionFilterError({ not: { words: null } }), 'filter.not.words: expected an object like { "min": 100 }');
+        assert.strictEqual(collectionFilterError({ words: { min: '10' } }), 'filter.words.min: expected a number');
+        assert.strictEqual(collectionFilterError({ date: { lastDays: '7' } }), 'filter.date.lastDays: expected a number');
+        assert.strictEqual(collectionFilterError({ and: [{ field: 'status', equals: { is: 'done' } }] }),
+            'filter.and[0].equals: expected a string, number or boolean, or a list of them');
+        assert.strictEqual(collectionFilterError({ field: 'status', equals: ['open', [1]] }),
+            'filter.equals: expected a string, number or boolean, or a list of them');
+        assert.strictEqual(collectionFilterError({ tag: 'a', folder: 'b' }),
+            'filter: one condition per object, found "tag" and "folder"; combine them with and or or');
+        assert.strictEqual(collectionFilterError({ field: 'status', equals: [1, true], exists: true }), null);
+        assert.strictEqual(collectionFilterError({ date: { lastDays: 7, key: 'due' } }), null);
+    });
+
+    test('filterUsesBacklinks looks for linkedFrom at any depth', () => {
+        assert.strictEqual(filterUsesBacklinks(undefined), false);
+        assert.strictEqual(filterUsesBacklinks({ and: [{ tag: 'a' }, { linksTo: 'hub' }] }), false);
+        assert.strictEqual(filterUsesBacklinks({ or: [{ tag: 'a' }, { not: { linkedFrom: 'hub' } }] }), true);
+    });
+
+    test('runCollection applies filters, sort and limit to the vault', async () => {
+        const root = await fs.mkdtemp(path.join(os.tmpdir(), 'aint-collections-'));
+        try {
+            const write = async (rel: string, content: string) => {
+                await fs.mkdir(path.dirname(path.join(root, rel)), { recursive: true });
+                await fs.writeFile(path.join(root, rel), content);
+            };
+            await write('hub.md', '---\ncreated: 2026-01-05\n---\nSee [a](work/a.md) and [b](work/b.md).');
+            await write('work/a.md', '---\ncreated: 2026-01-01\nstatus: open\n---\none two three');
+            await write('work/b.md', '---\ncreated: 2026-01-03\nstatus: done\n---\none');
+            await write('work/c.md', '---\ncreated: 2026-01-02\nstatus: open\n---\none two');
+
+            const collection: Collection = {
+                name: 'Open work', tags: null, dateRange: null, query: null,
+                filter: { and: [{ folder: 'work' }, { not: { field: 'status', equals: 'done' } }] },
+                sort: 'date', order: 'asc',
+            };
+            await saveCollections(root, [collection]);
+            const [loaded] = await loadCollections(root);
+            assert.deepStrictEqual((await runCollection(loaded, root)).map(p => path.basename(p)), ['a.md', 'c.md']);
+            assert.deepStrictEqual((await runCollection({ ...loaded, sort: 'words', order: undefined, limit: 1 }, root)).map(p => path.basename(p)), ['a.md']);
+            assert.deepStrictEqual((await runCollection({ ...loaded, filter: { linkedFrom: 'hub' }, order: 'desc' }, root)).map(p => path.basename(p)), ['b.md', 'a.md']);
+
+            await assert.rejects(runCollection({ ...loaded, filter: { nope: 1 } as any }, root), /Invalid filter in "Open work": filter: unknown condition "nope"/);
+        } finally {
+            await fs.rm(root, { recursive: true, force: true });
+        }
+    });
+
+    test('uniqueCollectionName numbers names that are taken', () => {
+        const existing = [{ name: 'Work copy', tags: null, dateRange: null, query: null }, { name: 'Work copy 2', tags: null, dateRange: null, query: null }];
+        assert.strictEqual(uniqueCollectionName(existing, 'Home copy'), 'Home copy');
+        assert.strictEqual(uniqueCollectionName(existing, 'Work copy'), 'Work copy 3');
+    });
+
+    test('collectionToMarkdown links the notes relative to the export', () => {
+        const collection: Collection = { name: 'Open work', tags: ['work'], dateRange: null, query: null };
+        const markdown = collectionToMarkdown(collection, [path.join('/vault', 'work', 'a.md'), path.join('/vault', 'my notes', 'b (old).md')], '/vault', new Date(2026, 4, 1));
+        assert.strictEqual(markdown, '---\ncreated: 2026-05-01\n---\n# Open work\n\n> tags: work\n\n- [a](work/a.md)\n- [b (old)](<my notes/b (old).md>)\n');
+        assert.match(collectionToMarkdown(collection, [], '/vault', new Date()), /No notes match this collection\.\n$/);
+    });
 });
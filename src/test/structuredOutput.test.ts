@@ -0,0 +1,77 @@
+import * as assert from 'assert';
+import { schema, extractJson, parseStructured, buildRepairPrompt } from '../structuredOutput';
+
+suite('StructuredOutput', () => {
+    const metadata = schema.object({
+        tags: schema.array(schema.string()),
+        name: schema.string(),
+        note: schema.optional(schema.string()),
+    });
+
+    test('extractJson parses a bare JSON response', () => {
+        assert.deepStrictEqual(extractJson('{"a": 1}'), { a: 1 });
+    });
+
+    test('extractJson reads a fenced json block', () => {
+        const response = 'Sure!\n```json\n{"a": [1, 2]}\n```\nAnything else?';
+        assert.deepStrictEqual(extractJson(response), { a: [1, 2] });
+    });
+
+    test('extractJson finds an array embedded in prose', () => {
+        assert.deepStrictEqual(extractJson('Results: [3, 1]\nHope that helps!'), [3, 1]);
+    });
+
+    test('extractJson prefers whichever JSON value appears first', () => {
+        assert.deepStrictEqual(extractJson('Plan: {"ops": [1]} end'), { ops: [1] });
+    });
+
+    test('extractJson throws when there is no JSON', () => {
+        assert.throws(() => extractJson('no json here'), /no valid JSON/);
+    });
+
+    test('object schema accepts valid values and drops absent optionals', () => {
+        const result = metadata.parse({ tags: ['a'], name: 'x' });
+        assert.deepStrictEqual(result, { ok: true, value: { tags: ['a'], name: 'x' } });
+    });
+
+    test('validation errors report the JSON path', () => {
+        const result = metadata.parse({ tags: ['a', 2], name: 'x' });
+        assert.strictEqual(result.ok, false);
+        assert.strictEqual(!result.ok && result.error, '$.tags[1]: expected string, got number');
+    });
+
+    test('array schema with dropInvalid skips bad items', () => {
+        const numbers = schema.array(schema.number(), { dropInvalid: true });
+        assert.deepStrictEqual(numbers.parse([1, 'two', 3]), { ok: true, value: [1, 3] });
+    });
+
+    test('array schema enforces minItems', () => {
+        const result = schema.array(schema.number(), { minItems: 1 }).parse([]);
+        assert.strictEqual(result.ok, false);
+    });
+
+    test('union schema picks the matching alternative', () => {
+        const op = schema.union<{ kind: string }>(
+            schema.object({ kind: schema.literal('a'), x: schema.number() }),
+            schema.object({ kind: schema.literal('b'), y: schema.string() }),
+        );
+        assert.deepStrictEqual(op.parse({ kind: 'b', y: 'ok' }), { ok: true, value: { kind: 'b', y: 'ok' } });
+        assert.strictEqual(op.parse({ kind: 'c' }).ok, false);
+    });
+
+    test('parseStructured combines extraction and validation', () => {
+        assert.deepStrictEqual(
+            parseStructured('```json\n{"tags":["t"],"name":"n"}\n```', metadata),
+            { ok: true, value: { tags: ['t'], name: 'n' } }
+        );
+        assert.strictEqual(parseStructured('{"tags":"t","name":"n"}', metadata).ok, false);
+    });
+
+    test('buildRepairPrompt includes the error and the expected shape', () => {
+        const prompt = buildRepairPrompt('Original prompt', 'bad output', '$.name: expected string, got number', metadata);
+        assert.ok(prompt.startsWith('Original prompt'));
+        assert.ok(prompt.includes('bad output'));
+        assert.ok(prompt.includes('$.name: expected string, got number'));
+        assert.ok(prompt.includes('{ "tags": string[], "name": string, "note": string }'));
+    });
+});
@@ -0,0 +1,85 @@
+import * as assert from 'assert';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import { UsageLedger, UsageRecord, estimateTokens, billableTokens, summarizeUsage, formatUsageReport, dayKey } from '../usageLedger';
+
+function record(overrides: Partial<UsageRecord>): UsageRecord {
+    return {
+        timestamp: new Date().toISOString(),
+        feature: 'chat',
+        provider: 'openai-compatible',
+        model: 'llama3.1',
+        promptChars: 400,
+        responseChars: 400,
+        estimatedTokens: 200,
+        latencyMs: 100,
+        outcome: 'success',
+        ...overrides,
+    };
+}
+
+suite('UsageLedger', () => {
+    test('estimateTokens rounds up at ~4 characters per token', () => {
+        assert.strictEqual(estimateTokens(0), 0);
+        assert.strictEqual(estimateTokens(1), 1);
+        assert.strictEqual(estimateTokens(8), 2);
+        assert.strictEqual(estimateTokens(9), 3);
+    });
+
+    test('billableTokens ignores cache hits, blocked calls, embeddings and other days', () => {
+        const today = dayKey(new Date());
+        const records = [
+            record({ estimatedTokens: 100 }),
+            record({ estimatedTokens: 50, outcome: 'error' }),
+            record({ estimatedTokens: 1000, outcome: 'cached' }),
+            record({ estimatedTokens: 1000, outcome: 'blocked' }),
+            record({ estimatedTokens: 1000, feature: 'embeddings' }),
+            record({ estimatedTokens: 1000, timestamp: '2000-01-01T12:00:00.000Z' }),
+        ];
+        assert.strictEqual(billableTokens(records, today), 150);
+    });
+
+    test('summarizeUsage groups by feature', () => {
+        const usage = summarizeUsage([
+            record({ feature: 'chat', estimatedTokens: 100, latencyMs: 100 }),
+            record({ feature: 'chat', estimatedTokens: 300, latencyMs: 300 }),
+            record({ feature: 'chat', outcome: 'cached', latencyMs: 0 }),
+            record({ feature: 'classify', estimatedTokens: 10, outcome: 'error' }),
+        ]);
+        assert.deepStrictEqual(usage, [
+            { feature: 'chat', calls: 3, cached: 1, failures: 0, estimatedTokens: 400, averageLatencyMs: 200 },
+            { feature: 'classify', calls: 1, cached: 0, failures: 1, estimatedTokens: 10, averageLatencyMs: 100 },
+        ]);
+    });
+
+    test('formatUsageReport shows budget progress', () => {
+        const now = new Date();
+        const report = formatUsageReport([record({ estimatedTokens: 250 })], 1000, now);
+        assert.ok(report.includes(`**Today (${dayKey(now)}):** ~250 of 1000 tokens (25% of daily budget)`));
+        assert.ok(report.includes('| chat | 1 | 0 | 0 | 250 | 100 ms |'));
+    });
+
+    test('appends records and tracks today\'s total', async () => {
+        const tmp = await fs.mkdtemp(path.join(os.tmpdir(), 'aint-usage-'));
+        try {
+            const filePath = path.join(tmp, 'nested', 'usage.jsonl');
+            const ledger = new UsageLedger(filePath);
+            assert.strictEqual(await ledger.tokensUsedToday(), 0);
+            await ledger.append(record({ estimatedTokens: 120 }));
+            await ledger.append(record({ estimatedTokens: 80, outcome: 'cached' }));
+            assert.strictEqual(await ledger.tokensUsedToday(), 120);
+            assert.strictEqual((await ledger.read()).length, 2);
+
+            // A fresh ledger picks up today's total from the file.
+            assert.strictEqual(await new UsageLedger(filePath).tokensUsedToday(), 120);
+
+            // Appends made while that total loads are added to it, not overwritten.
+            const reopened = new UsageLedger(filePath);
+            await Promise.all([reopened.append(record({ estimatedTokens: 30 })), reopened.append(record({ estimatedTokens: 50 }))]);
+            assert.strictEqual(await reopened.tokensUsedToday(), 200);
+        } finally {
+            await fs.rm(tmp, { recursive: true, force: true });
+        }
+    });
+});
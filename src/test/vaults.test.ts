@@ -0,0 +1,25 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import * as os from 'os';
+import { vaultRootFor } from '../vaults';
+
+suite('Vaults', () => {
+    const base = path.join(os.tmpdir(), 'workspace');
+    const work = path.join(base, 'work');
+    const personal = path.join(base, 'personal');
+
+    test('a note belongs to the folder that contains it', () => {
+        assert.strictEqual(vaultRootFor([work, personal], path.join(personal, 'ideas', 'a.md')), personal);
+        assert.strictEqual(vaultRootFor([work, personal], path.join(work, 'a.md')), work);
+    });
+
+    test('folders that only share a name prefix are not confused', () => {
+        assert.strictEqual(vaultRootFor([work], path.join(base, 'work-archive', 'a.md')), undefined);
+    });
+
+    test('nested folders resolve to the deepest one', () => {
+        const nested = path.join(work, 'team');
+        assert.strictEqual(vaultRootFor([work, nested], path.join(nested, 'a.md')), nested);
+        assert.strictEqual(vaultRootFor([nested, work], path.join(work, 'b.md')), work);
+    });
+});
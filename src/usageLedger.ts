@@ -0,0 +1,207 @@
+import * as fs from 'fs';
+import * as fsp from 'fs/promises';
+import * as path from 'path';
+import { sharedStateRoot } from './sharedState';
+
+/**
+ * The extension feature an AI call is made on behalf of.
+ */
+export type AIFeature = 'classify' | 'summarize' | 'search' | 'related' | 'chat' | 'merge' | 'moc' | 'restructure' | 'digest' | 'embeddings' | 'other';
+
+export type UsageOutcome = 'success' | 'error' | 'cancelled' | 'cached' | 'blocked';
+
+export interface UsageRecord {
+    timestamp: string;        // ISO 8601
+    feature: AIFeature;
+    provider: string;
+    model: string;
+    promptChars: number;
+    responseChars: number;
+    estimatedTokens: number;
+    latencyMs: number;
+    outcome: UsageOutcome;
+    error?: string;
+}
+
+export interface FeatureUsage {
+    feature: AIFeature;
+    calls: number;
+    cached: number;
+    failures: number;
+    estimatedTokens: number;
+    averageLatencyMs: number;
+}
+
+export class BudgetExceededError extends Error {
+    constructor(public readonly used: number, public readonly budget: number) {
+        super(`Daily AI token budget reached (~${used} of ${budget} tokens used today). Raise 'ai-notes.dailyTokenBudget' or try again tomorrow.`);
+        this.name = 'BudgetExceededError';
+    }
+}
+
+/**
+ * Rough token estimate (~4 characters per token), good enough for budgeting.
+ */
+export function estimateTokens(chars: number): number {
+    return Math.ceil(chars / 4);
+}
+
+export function dayKey(date: Date): string {
+    const yyyy = date.getFullYear();
+    const mm = String(date.getMonth() + 1).padStart(2, '0');
+    const dd = String(date.getDate()).padStart(2, '0');
+    return `${yyyy}-${mm}-${dd}`;
+}
+
+/**
+ * Tokens that count against the budget: cache hits and blocked calls cost
+ * nothing, and embeddings are exempt from it.
+ */
+export function billableTokens(records: UsageRecord[], day: string): number {
+    return records
+        .filter(r => r.outcome !== 'cached' && r.outcome !== 'blocked' && r.feature !== 'embeddings' && dayKey(new Date(r.timestamp)) === day)
+        .reduce((sum, r) => sum + r.estimatedTokens, 0);
+}
+
+export function summarizeUsage(records: UsageRecord[]): FeatureUsage[] {
+    const byFeature = new Map<AIFeature, FeatureUsage & { totalLatency: number; timed: number }>();
+    for (const r of records) {
+        let entry = byFeature.get(r.feature);
+        if (!entry) {
+            entry = { feature: r.feature, calls: 0, cached: 0, failures: 0, estimatedTokens: 0, averageLatencyMs: 0, totalLatency: 0, timed: 0 };
+            byFeature.set(r.feature, entry);
+        }
+        entry.calls++;
+        if (r.outcome === 'cached') { entry.cached++; }
+        if (r.outcome === 'error' || r.outcome === 'blocked') { entry.failures++; }
+        if (r.outcome !== 'cached' && r.outcome !== 'blocked') {
+            entry.estimatedTokens += r.estimatedTokens;
+            entry.totalLatency += r.latencyMs;
+            entry.timed++;
+        }
+    }
+    return Array.from(byFeature.values())
+        .map(({ totalLatency, timed, ...usage }) => ({
+            ...usage,
+            averageLatencyMs: timed > 0 ? Math.round(totalLatency / timed) : 0,
+        }))
+        .sort((a, b) => b.estimatedTokens - a.estimatedTokens);
+}
+
+/**
+ * Renders the usage report shown by `AI Notes: Show AI Usage Report`.
+ */
+export function formatUsageReport(records: UsageRecord[], dailyBudget: number, now: Date = new Date()): string {
+    const today = dayKey(now);
+    const usedToday = billableTokens(records, today);
+    const lines: string[] = ['# AI Usage Report', ''];
+
+    lines.push(dailyBudget > 0
+        ? `**Today (${today}):** ~${usedToday} of ${dailyBudget} tokens (${Math.round((usedToday / dailyBudget) * 100)}% of daily budget)`
+        : `**Today (${today}):** ~${usedToday} tokens (no daily budget set)`);
+    lines.push('');
+
+    lines.push('## Last 7 days', '', '| Day | Calls | Est. tokens |', '| --- | ---: | ---: |');
+    for (let i = 0; i < 7; i++) {
+        const date = new Date(now);
+        date.setDate(date.getDate() - i);
+        const day = dayKey(date);
+        const calls = records.filter(r => dayKey(new Date(r.timestamp)) === day).length;
+        lines.push(`| ${day} | ${calls} | ${billableTokens(records, day)} |`);
+    }
+    lines.push('');
+
+    lines.push('## By feature (all time)', '', '| Feature | Calls | Cached | Failed | Est. tokens | Avg latency |', '| --- | ---: | ---: | ---: | ---: | ---: |');
+    for (const u of summarizeUsage(records)) {
+        lines.push(`| ${u.feature} | ${u.calls} | ${u.cached} | ${u.failures} | ${u.estimatedTokens} | ${u.averageLatencyMs} ms |`);
+    }
+    lines.push('');
+
+    return lines.join('\n');
+}
+
+/**
+ * Append-only JSON Lines ledger of AI calls. Keeps a running total of today's
+ * billable tokens so budget checks do not re-read the file on every call.
+ */
+export class UsageLedger {
+    private todayKey?: string;
+    private todayTokens = 0;
+    private loading?: { day: string; promise: Promise<void> };
+
+    constructor(private filePath: string) {}
+
+    async append(record: UsageRecord): Promise<void> {
+        await this.ensureToday();
+        if (dayKey(new Date(record.timestamp)) === this.todayKey) {
+            this.todayTokens += billableTokens([record], this.todayKey);
+        }
+        await fsp.mkdir(path.dirname(this.filePath), { recursive: true });
+        await fsp.appendFile(this.filePath, JSON.stringify(record) + '\n', 'utf8');
+    }
+
+    async read(): Promise<UsageRecord[]> {
+        let content: string;
+        try {
+            content = await fsp.readFile(this.filePath, 'utf8');
+        } catch {
+            return [];
+        }
+        const records: UsageRecord[] = [];
+        for (const line of content.split('\n')) {
+            if (line.trim().length === 0) { continue; }
+            try {
+                records.push(JSON.parse(line));
+            } catch {
+                // skip a partially written line
+            }
+        }
+        return records;
+    }
+
+    async tokensUsedToday(): Promise<number> {
+        await this.ensureToday();
+        return this.todayTokens;
+    }
+
+    /**
+     * Loads today's total from the file once per day. Concurrent callers
+     * share the load, so no append is counted before the total is in place.
+     */
+    private ensureToday(): Promise<void> {
+        const today = dayKey(new Date());
+        if (this.todayKey === today) { return Promise.resolve(); }
+        if (this.loading?.day !== today) {
+            const promise = this.loadDay(today).finally(() => {
+                if (this.loading?.promise === promise) { this.loading = undefined; }
+            });
+            this.loading = { day: today, promise };
+        }
+        return this.loading.promise;
+    }
+
+    private async loadDay(day: string): Promise<void> {
+        const tokens = fs.existsSync(this.filePath) ? billableTokens(await this.read(), day) : 0;
+        this.todayKey = day;
+        this.todayTokens = tokens;
+    }
+}
+
+const ledgers = new Map<string, UsageLedger>();
+
+/**
+ * Returns the ledger stored at `.ai-notes/usage.jsonl` in the first folder,
+ * shared by every vault so the daily budget covers the whole workspace, or
+ * undefined when no folder is open.
+ */
+export function getUsageLedger(): UsageLedger | undefined {
+    const workspaceRoot = sharedStateRoot();
+    if (!workspaceRoot) { return undefined; }
+    const filePath = path.join(workspaceRoot, '.ai-notes', 'usage.jsonl');
+    let ledger = ledgers.get(filePath);
+    if (!ledger) {
+        ledger = new UsageLedger(filePath);
+        ledgers.set(filePath, ledger);
+    }
+    return ledger;
+}
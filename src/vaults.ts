@@ -0,0 +1,161 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { NoteIndex, getNoteIndex } from './noteIndex';
+
+/**
+ * Every workspace folder is its own vault, with its own note index, drafts
+ * folder, collections and templates. Commands act on the vault of the active
+ * editor and ask when that is ambiguous; the sidebar views show the selected
+ * vault, which follows the active editor and can be switched by hand.
+ */
+
+export interface Vault {
+    name: string;
+    rootDir: string;
+}
+
+/**
+ * The root among `roots` that contains `filePath`. Nested roots resolve to
+ * the deepest one, the same as VS Code's own folder lookup.
+ */
+export function vaultRootFor(roots: string[], filePath: string): string | undefined {
+    let best: string | undefined;
+    for (const root of roots) {
+        const rel = path.relative(root, filePath);
+        if (rel.startsWith('..') || path.isAbsolute(rel)) { continue; }
+        if (!best || root.length > best.length) { best = root; }
+    }
+    return best;
+}
+
+export function draftsDir(vault: Vault): string {
+    return path.join(vault.rootDir, '_drafts');
+}
+
+export class VaultManager implements vscode.Disposable {
+    private indexes: Map<string, NoteIndex> = new Map();
+    private indexListeners: Map<string, vscode.Disposable> = new Map();
+    private selectedRoot?: string;
+    private disposables: vscode.Disposable[] = [];
+    private indexEmitter = new vscode.EventEmitter<Vault>();
+    private selectionEmitter = new vscode.EventEmitter<Vault | undefined>();
+
+    /** Fires with the vault whose notes changed. */
+    readonly onDidChangeNotes = this.indexEmitter.event;
+    /** Fires when the vault shown in the sidebar views changes. */
+    readonly onDidChangeSelection = this.selectionEmitter.event;
+
+    constructor() {
+        this.syncFolders();
+        vscode.workspace.onDidChangeWorkspaceFolders(() => this.syncFolders(), null, this.disposables);
+        vscode.window.onDidChangeActiveTextEditor(editor => {
+            const vault = editor ? this.vaultFor(editor.document.uri.fsPath) : undefined;
+            if (vault) { this.select(vault); }
+        }, null, this.disposables);
+    }
+
+    vaults(): Vault[] {
+        return (vscode.workspace.workspaceFolders ?? [])
+            .filter(folder => folder.uri.scheme === 'file')
+            .map(folder => ({ name: folder.name, rootDir: folder.uri.fsPath }));
+    }
+
+    vaultFor(filePath: string): Vault | undefined {
+        const vaults = this.vaults();
+        const root = vaultRootFor(vaults.map(v => v.rootDir), filePath);
+        return vaults.find(v => v.rootDir === root);
+    }
+
+    index(vault: Vault): NoteIndex {
+        return this.indexes.get(vault.rootDir) ?? getNoteIndex(vault.rootDir);
+    }
+
+    indexFor(filePath: string): NoteIndex | undefined {
+        const vault = this.vaultFor(filePath);
+        return vault ? this.index(vault) : undefined;
+    }
+
+    /**
+     * The vault shown in the sidebar views: the one picked last, else the
+     * active editor's, else the first.
+     */
+    get selected(): Vault | undefined {
+        const vaults = this.vaults();
+        const editor = vscode.window.activeTextEditor;
+        return vaults.find(v => v.rootDir === this.selectedRoot)
+            ?? (editor ? this.vaultFor(editor.document.uri.fsPath) : undefined)
+            ?? vaults[0];
+    }
+
+    select(vault: Vault): void {
+        if (vault.rootDir === this.selectedRoot) { return; }
+        this.selectedRoot = vault.rootDir;
+        this.selectionEmitter.fire(vault);
+    }
+
+    /**
+     * The vault a command should act on: the active editor's, or the only one,
+     * or whichever the user picks. Undefined when there is none or the pick is
+     * cancelled.
+     */
+    async pick(placeHolder = 'Which vault?'): Promise<Vault | undefined> {
+        const vaults = this.vaults();
+        if (vaults.length === 0) {
+            vscode.window.showErrorMessage('No workspace folder open.');
+            return undefined;
+        }
+        const editor = vscode.window.activeTextEditor;
+        const active = editor ? this.vaultFor(editor.document.uri.fsPath) : undefined;
+        if (active) { return active; }
+        if (vaults.length === 1) { return vaults[0]; }
+        return this.choose(vaults, placeHolder);
+    }
+
+    /** Always asks, with the selected vault first. */
+    async choose(vaults = this.vaults(), placeHolder = 'Which vault?'): Promise<Vault | undefined> {
+        const selected = this.selected;
+        const items = vaults
+            .map(vault => ({ label: vault.name, description: vault.rootDir, vault }))
+            .sort((a, b) => Number(b.vault.rootDir === selected?.rootDir) - Number(a.vault.rootDir === selected?.rootDir));
+        const picked = await vscode.window.showQuickPick(items, { placeHolder });
+        return picked?.vault;
+    }
+
+    /**
+     * Opens an index for every folder and drops the indexes of folders that
+     * were removed from the workspace.
+     */
+    private syncFolders(): void {
+        const vaults = this.vaults();
+        for (const vault of vaults) {
+            if (this.indexes.has(vault.rootDir)) { continue; }
+            const index = getNoteIndex(vault.rootDir);
+            index.persistTo(path.join(vault.rootDir, '.ai-notes', 'index'));
+            index.watch();
+            index.ready().catch(() => {});
+            this.indexes.set(vault.rootDir, index);
+            this.indexListeners.set(vault.rootDir, index.onDidChange(() => this.indexEmitter.fire(vault)));
+        }
+        for (const [rootDir, index] of this.indexes) {
+            if (vaults.some(v => v.rootDir === rootDir)) { continue; }
+            this.indexListeners.get(rootDir)?.dispose();
+            this.indexListeners.delete(rootDir);
+            index.dispose();
+            this.indexes.delete(rootDir);
+        }
+        if (this.selectedRoot && !vaults.some(v => v.rootDir === this.selectedRoot)) {
+            this.selectedRoot = undefined;
+            this.selectionEmitter.fire(this.selected);
+        }
+    }
+
+    dispose(): void {
+        this.disposables.forEach(d => d.dispose());
+        this.indexListeners.forEach(d => d.dispose());
+        this.indexes.forEach(index => index.dispose());
+        this.indexListeners.clear();
+        this.indexes.clear();
+        this.indexEmitter.dispose();
+        this.selectionEmitter.dispose();
+    }
+}
@@ -0,0 +1,369 @@
+import * as vscode from 'vscode';
+import * as fsp from 'fs/promises';
+import * as path from 'path';
+import { NoteIndex, IndexedNote } from './noteIndex';
+import { EmbeddingProvider, getEmbeddingProvider, chunkNote, normalize, dot } from './embeddings';
+import { getUsageLedger, estimateTokens } from './usageLedger';
+
+/**
+ * Embedding vectors for every chunk of every note in a vault, stored in
+ * `.ai-notes/vectors`. Updates embed only notes whose content hash changed
+ * since the last run; switching provider or model starts over. Searches use
+ * the stored vectors and never embed the vault themselves.
+ */
+
+export interface ChunkHit {
+    filePath: string;
+    heading: string | null;
+    line: number;
+    text: string;
+    /** Cosine similarity, -1 to 1. */
+    score: number;
+}
+
+export interface VectorSearchOptions {
+    /** Only chunks of these notes are ranked. */
+    within?: Set<string>;
+    token?: vscode.CancellationToken;
+}
+
+interface EmbeddedChunk {
+    heading: string | null;
+    line: number;
+    text: string;
+    vector: Float32Array;
+}
+
+interface EmbeddedNote {
+    hash: string;
+    chunks: EmbeddedChunk[];
+}
+
+interface VectorSnapshot {
+    version: number;
+    providerId: string;
+    notes: Record<string, { hash: string; chunks: Array<Omit<EmbeddedChunk, 'vector'> & { vector: string }> }>;
+}
+
+type ProgressListener = (done: number, total: number) => void;
+
+/** An update in progress and the callers waiting on it. */
+interface UpdateRun {
+    promise: Promise<void>;
+    /** Cancelled once every waiter has given up. */
+    source: vscode.CancellationTokenSource;
+    waiters: number;
+    listeners: Set<ProgressListener>;
+}
+
+const SNAPSHOT_VERSION = 1;
+const SNAPSHOT_FILE = 'vectors.json';
+/** Chunks per embeddings request. */
+const BATCH_SIZE = 32;
+
+export class VectorIndex {
+    private notes: Map<string, EmbeddedNote> = new Map();
+    private providerId?: string;
+    private loading?: Promise<void>;
+    private updating?: UpdateRun;
+
+    constructor(readonly index: NoteIndex, private storeDir: string) {}
+
+    /**
+     * Embeds notes that are new or changed and forgets deleted ones. Concurrent
+     * calls share one run; cancelling `token` stops this caller waiting, and
+     * the run itself stops only once every caller has cancelled.
+     */
+    update(provider: EmbeddingProvider, token?: vscode.CancellationToken, onProgress?: ProgressListener): Promise<void> {
+        if (token?.isCancellationRequested) { return Promise.reject(new vscode.CancellationError()); }
+        if (!this.updating) {
+            const source = new vscode.CancellationTokenSource();
+            const run: UpdateRun = { promise: Promise.resolve(), source, waiters: 0, listeners: new Set() };
+            run.promise = this.runUpdate(provider, source.token, (done, total) => run.listeners.forEach(l => l(done, total)))
+                .finally(() => {
+                    if (this.updating === run) { this.updating = undefined; }
+                    source.dispose();
+                });
+            this.updating = run;
+        }
+        return this.join(this.updating, token, onProgress);
+    }
+
+    private join(run: UpdateRun, token: vscode.CancellationToken | undefined, onProgress: ProgressListener | undefined): Promise<void> {
+        run.waiters++;
+        if (onProgress) { run.listeners.add(onProgress); }
+        return new Promise<void>((resolve, reject) => {
+            let listener: vscode.Disposable | undefined;
+            let left = false;
+            const leave = () => {
+                if (left) { return false; }
+                left = true;
+                listener?.dispose();
+                if (onProgress) { run.listeners.delete(onProgress); }
+                run.waiters--;
+                return true;
+            };
+            listener = token?.onCancellationRequested(() => {
+                if (!leave()) { return; }
+                if (run.waiters === 0) { run.source.cancel(); }
+                reject(new vscode.CancellationError());
+            });
+            run.promise.then(
+                () => { if (leave()) { resolve(); } },
+                err => { if (leave()) { reject(err); } }
+            );
+        });
+    }
+
+    /**
+     * The `k` chunks closest to `query`, from the stored vectors: only the
+     * query is embedded. Throws when no embedding provider is configured or
+     * nothing has been embedded with it yet.
+     */
+    async search(query: string, k: number, options: VectorSearchOptions = {}): Promise<ChunkHit[]> {
+        const provider = await this.requireProvider();
+        await this.requireVectors(provider);
+        const [queryVector] = await embedRecorded(provider, [query], options.token);
+        return this.nearest(normalize(queryVector), k, options.within);
+    }
+
+    /**
+     * Notes ranked by their best-matching chunk.
+     */
+    async searchNotes(query: string, k: number, options: VectorSearchOptions = {}): Promise<ChunkHit[]> {
+        const chunks = await this.search(query, Number.MAX_SAFE_INTEGER, options);
+        return bestPerNote(chunks).slice(0, k);
+    }
+
+    /**
+     * Notes most similar to `filePath`, compared by the mean of its chunk
+     * vectors. The note itself is embedded again when it changed since the
+     * last update; the other notes are compared as stored.
+     */
+    async similarNotes(filePath: string, k: number, token?: vscode.CancellationToken): Promise<ChunkHit[]> {
+        const provider = await this.requireProvider();
+        await this.requireVectors(provider);
+        const current = this.index.get(filePath);
+        if (!current) { return []; }
+        let note = this.notes.get(filePath);
+        if (note?.hash !== current.hash) {
+            note = await this.embedNote(provider, current, token);
+        }
+        if (note.chunks.length === 0) { return []; }
+        const mean = new Float32Array(note.chunks[0].vector.length);
+        for (const chunk of note.chunks) {
+            chunk.vector.forEach((value, i) => { mean[i] += value; });
+        }
+        const others = new Set(this.index.all().map(n => n.filePath).filter(p => p !== filePath));
+        return bestPerNote(this.nearest(normalize(mean), Number.MAX_SAFE_INTEGER, others)).slice(0, k);
+    }
+
+    /**
+     * Loads the stored vectors, throwing when none were made with `provider`.
+     * Embedding the vault is left to `update`, which the Update Embeddings
+     * Index command runs with progress and cancellation.
+     */
+    private async requireVectors(provider: EmbeddingProvider): Promise<void> {
+        await this.load();
+        if (this.providerId !== provider.id || this.notes.size === 0) {
+            throw new Error("The embeddings index is empty. Run 'AI Notes: Update Embeddings Index' first.");
+        }
+        await this.index.ready();
+    }
+
+    private load(): Promise<void> {
+        this.loading ??= this.loadSnapshot();
+        return this.loading;
+    }
+
+    /** Embeds one note and stores its vectors. */
+    private async embedNote(provider: EmbeddingProvider, note: IndexedNote, token?: vscode.CancellationToken): Promise<EmbeddedNote> {
+        const pending = chunkNote(note);
+        const chunks: EmbeddedChunk[] = [];
+        for (let i = 0; i < pending.length; i += BATCH_SIZE) {
+            const batch = pending.slice(i, i + BATCH_SIZE);
+            const vectors = await embedRecorded(provider, batch.map(chunk => chunk.text), token);
+            batch.forEach((chunk, j) => {
+                chunks.push({ heading: chunk.heading, line: chunk.line, text: chunk.text, vector: normalize(vectors[j]) });
+            });
+        }
+        const embedded: EmbeddedNote = { hash: note.hash, chunks };
+        this.notes.set(note.filePath, embedded);
+        await this.saveSnapshot();
+        return embedded;
+    }
+
+    private async requireProvider(): Promise<EmbeddingProvider> {
+        const provider = await getEmbeddingProvider();
+        if (!provider) {
+            throw new Error("No embedding provider is configured. Set 'ai-notes.embeddingProvider'.");
+        }
+        return provider;
+    }
+
+    /** Chunks of `within`, or of every note outside `_drafts` when not given. */
+    private nearest(queryVector: Float32Array, k: number, within?: Set<string>): ChunkHit[] {
+        const scope = within ?? new Set(this.index.all().map(n => n.filePath));
+        const hits: ChunkHit[] = [];
+        for (const [filePath, note] of this.notes) {
+            if (!scope.has(filePath)) { continue; }
+            for (const chunk of note.chunks) {
+                hits.push({ filePath, heading: chunk.heading, line: chunk.line, text: chunk.text, score: dot(queryVector, chunk.vector) });
+            }
+        }
+        hits.sort((a, b) => b.score - a.score);
+        return hits.slice(0, k);
+    }
+
+    private async runUpdate(provider: EmbeddingProvider, token?: vscode.CancellationToken, onProgress?: (done: number, total: number) => void): Promise<void> {
+        await this.load();
+        if (this.providerId !== provider.id) {
+            this.notes.clear();
+            this.providerId = provider.id;
+        }
+
+        await this.index.ready();
+        const notes = this.index.all({ includeDrafts: true });
+        let changed = false;
+        const live = new Set(notes.map(n => n.filePath));
+        for (const filePath of [...this.notes.keys()]) {
+            if (!live.has(filePath)) {
+                this.notes.delete(filePath);
+                changed = true;
+            }
+        }
+
+        const stale = notes.filter(n => this.notes.get(n.filePath)?.hash !== n.hash);
+        const pending = stale.flatMap(note => chunkNote(note));
+        const expected: Map<string, number> = new Map(stale.map(n => [n.filePath, 0]));
+        pending.forEach(chunk => expected.set(chunk.filePath, expected.get(chunk.filePath)! + 1));
+        const embedded: Map<string, EmbeddedChunk[]> = new Map(stale.map(n => [n.filePath, []]));
+        try {
+            for (let i = 0; i < pending.length; i += BATCH_SIZE) {
+                if (token?.isCancellationRequested) { throw new vscode.CancellationError(); }
+                const batch = pending.slice(i, i + BATCH_SIZE);
+                const vectors = await embedRecorded(provider, batch.map(chunk => chunk.text), token);
+                batch.forEach((chunk, j) => {
+                    embedded.get(chunk.filePath)!.push({ heading: chunk.heading, line: chunk.line, text: chunk.text, vector: normalize(vectors[j]) });
+                });
+                onProgress?.(Math.min(i + BATCH_SIZE, pending.length), pending.length);
+            }
+        } finally {
+            // Keep every note that was embedded completely, even if a later batch failed.
+            for (const note of stale) {
+                const chunks = embedded.get(note.filePath)!;
+                if (chunks.length === expected.get(note.filePath)) {
+                    this.notes.set(note.filePath, { hash: note.hash, chunks });
+                    changed = true;
+                }
+            }
+            if (changed) { await this.saveSnapshot(); }
+        }
+    }
+
+    private async loadSnapshot(): Promise<void> {
+        try {
+            const snapshot: VectorSnapshot = JSON.parse(await fsp.readFile(path.join(this.storeDir, SNAPSHOT_FILE), 'utf8'));
+            if (snapshot.version !== SNAPSHOT_VERSION) { return; }
+            this.providerId = snapshot.providerId;
+            for (const [filePath, note] of Object.entries(snapshot.notes)) {
+                this.notes.set(filePath, {
+                    hash: note.hash,
+                    chunks: note.chunks.map(c => ({ ...c, vector: decodeVector(c.vector) })),
+                });
+            }
+        } catch {
+            // Missing or corrupt: everything is embedded again.
+        }
+    }
+
+    private async saveSnapshot(): Promise<void> {
+        const snapshot: VectorSnapshot = { version: SNAPSHOT_VERSION, providerId: this.providerId ?? '', notes: {} };
+        for (const [filePath, note] of this.notes) {
+            snapshot.notes[filePath] = {
+                hash: note.hash,
+                chunks: note.chunks.map(c => ({ heading: c.heading, line: c.line, text: c.text, vector: encodeVector(c.vector) })),
+            };
+        }
+        const filePath = path.join(this.storeDir, SNAPSHOT_FILE);
+        try {
+            await fsp.mkdir(this.storeDir, { recursive: true });
+            await fsp.writeFile(filePath + '.tmp', JSON.stringify(snapshot), 'utf8');
+            await fsp.rename(filePath + '.tmp', filePath);
+        } catch (err: any) {
+            console.warn(`Could not save the vector index: ${err.message}`);
+        }
+    }
+}
+
+/**
+ * Embeds `texts` and records the call in the usage ledger under `embeddings`.
+ * Embedding calls are not held to the daily token budget: an update stopped
+ * halfway would leave search with part of the vault.
+ */
+async function embedRecorded(provider: EmbeddingProvider, texts: string[], token?: vscode.CancellationToken): Promise<number[][]> {
+    const startedAt = Date.now();
+    const promptChars = texts.reduce((sum, text) => sum + text.length, 0);
+    const record = async (outcome: 'success' | 'error' | 'cancelled', error?: string) => {
+        const ledger = getUsageLedger();
+        if (!ledger) { return; }
+        const separator = provider.id.indexOf(':');
+        try {
+            await ledger.append({
+                timestamp: new Date().toISOString(),
+                feature: 'embeddings',
+                provider: separator < 0 ? provider.id : provider.id.slice(0, separator),
+                model: separator < 0 ? '' : provider.id.slice(separator + 1),
+                promptChars,
+                responseChars: 0,
+                estimatedTokens: estimateTokens(promptChars),
+                latencyMs: Date.now() - startedAt,
+                outcome,
+                error,
+            });
+        } catch (err: any) {
+            console.warn(`Failed to record AI usage: ${err.message}`);
+        }
+    };
+    try {
+        const vectors = await provider.embed(texts, token);
+        await record('success');
+        return vectors;
+    } catch (err: any) {
+        await record(token?.isCancellationRequested ? 'cancelled' : 'error', err.message);
+        throw err;
+    }
+}
+
+function bestPerNote(chunks: ChunkHit[]): ChunkHit[] {
+    const best: Map<string, ChunkHit> = new Map();
+    for (const chunk of chunks) {
+        const current = best.get(chunk.filePath);
+        if (!current || chunk.score > current.score) { best.set(chunk.filePath, chunk); }
+    }
+    return [...best.values()].sort((a, b) => b.score - a.score);
+}
+
+function encodeVector(vector: Float32Array): string {
+    return Buffer.from(vector.buffer, vector.byteOffset, vector.byteLength).toString('base64');
+}
+
+function decodeVector(encoded: string): Float32Array {
+    const bytes = Buffer.from(encoded, 'base64');
+    // Copy into a fresh, aligned buffer: Buffer slices may start at any offset.
+    return new Float32Array(bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength));
+}
+
+const vectorIndexes: Map<string, VectorIndex> = new Map();
+
+/**
+ * The vector index of a vault, stored in `<root>/.ai-notes/vectors`.
+ */
+export function getVectorIndex(index: NoteIndex): VectorIndex {
+    let vectors = vectorIndexes.get(index.rootDir);
+    if (!vectors || vectors.index !== index) {
+        vectors = new VectorIndex(index, path.join(index.rootDir, '.ai-notes', 'vectors'));
+        vectorIndexes.set(index.rootDir, vectors);
+    }
+    return vectors;
+}